@@ -1,14 +1,49 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import UrlInput from './components/UrlInput';
 import ChatInterface from './components/ChatInterface';
-import { AppState, WebsiteData } from './types';
-import { scrapeWebsite } from './services/scraperService';
-import { Moon, Sun } from 'lucide-react';
+import SettingsPanel from './components/SettingsPanel';
+import SessionSidebar from './components/SessionSidebar';
+import { AppState, Briefing, ChatMessage, CrawlOptions, CrawlProgress, ScrapeResult, WebsiteData } from './types';
+import { ensureProtocol, MAX_WORKSPACE_SOURCES, normalizeUrl, scrapeFiles, scrapePastedText, scrapeWebsite, scrapeWebsites } from './services/scraperService';
+import { crawlWebsite } from './services/crawlerService';
+import { isProviderConfigured, onProviderSettingsChange } from './services/llmProvider';
+import { sessionStore } from './services/storageService';
+import { goBack, navigate, onRouteChange, parseRoute, Route } from './services/routerService';
+import { Moon, Sun, Settings, AlertCircle, History } from 'lucide-react';
+
+// Streaming updates arrive many times a second; batch them into one write.
+const SAVE_DEBOUNCE_MS = 800;
+
+const isSameSource = (a: string, b: string): boolean => {
+  try {
+    return normalizeUrl(a) === normalizeUrl(b);
+  } catch {
+    return a === b; // Uploads and pasted text have no normalizable URL
+  }
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [websiteData, setWebsiteData] = useState<WebsiteData | null>(null);
+  const [sources, setSources] = useState<WebsiteData[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | undefined>(undefined);
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [providerReady, setProviderReady] = useState(() => isProviderConfigured());
+
+  // Session State
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [initialMessages, setInitialMessages] = useState<ChatMessage[] | undefined>(undefined);
+  const [initialBriefing, setInitialBriefing] = useState<Briefing | undefined>(undefined);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [discoverTopic, setDiscoverTopic] = useState<string | undefined>(undefined);
+  const saveTimerRef = useRef<number | undefined>(undefined);
+  const sessionIdRef = useRef<string | null>(null); // For callbacks that outlive a render
+  const loadIdRef = useRef(0); // Bumped whenever the view changes, so a slow load can tell it is stale
+  // Latest conversation state reported by the chat, saved together
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const briefingRef = useRef<Briefing | undefined>(undefined);
+
+  useEffect(() => onProviderSettingsChange(() => setProviderReady(isProviderConfigured())), []);
   
   // Theme State
   const [isDark, setIsDark] = useState(() => {
@@ -31,38 +66,243 @@ const App: React.FC = () => {
 
   const toggleTheme = () => setIsDark(!isDark);
 
-  const handleUrlSubmit = async (url: string) => {
+  const openSession = (id: string | null) => {
+    sessionIdRef.current = id;
+    setSessionId(id);
+  };
+
+  const loadSources = async (load: () => Promise<ScrapeResult[]>) => {
+    const loadId = ++loadIdRef.current;
     setAppState(AppState.SCRAPING);
     setErrorMessage(undefined);
+    setCrawlProgress(null);
 
-    const result = await scrapeWebsite(url);
+    const results = await load();
+    if (loadId !== loadIdRef.current) return; // Navigated elsewhere meanwhile
+    setCrawlProgress(null);
+
+    // In a comparison, sources that failed are left out rather than failing the whole workspace.
+    const loaded = results.flatMap(result => (result.success && result.data ? [result.data] : []));
 
-    if (result.success && result.data) {
-      setWebsiteData(result.data);
+    if (loaded.length > 0) {
+      setSources(loaded);
+      openSession(crypto.randomUUID());
+      setInitialMessages(undefined);
+      setInitialBriefing(undefined);
+      messagesRef.current = [];
+      briefingRef.current = undefined;
       setAppState(AppState.CHATTING);
     } else {
-      setErrorMessage(result.error || "Failed to scrape the website.");
+      setErrorMessage(results.find(result => result.error)?.error || "Failed to scrape the website.");
       setAppState(AppState.ERROR);
     }
   };
 
-  const handleReset = () => {
+  const loadSource = (load: () => Promise<ScrapeResult>) =>
+    loadSources(async () => [await load()]);
+
+  const loadUrls = (urls: string[], crawlOptions?: CrawlOptions) => {
+    if (urls.length > 1) return loadSources(() => scrapeWebsites(urls.slice(0, MAX_WORKSPACE_SOURCES)));
+    return loadSource(() => crawlOptions
+      ? crawlWebsite(urls[0], crawlOptions, setCrawlProgress)
+      : scrapeWebsite(urls[0]));
+  };
+
+  const handleUrlSubmit = (url: string, crawlOptions?: CrawlOptions) => {
+    navigate({ name: 'url', urls: [url], crawlOptions });
+    return loadUrls([url], crawlOptions);
+  };
+
+  const handleSourcesSubmit = (urls: string[]) => {
+    navigate({ name: 'url', urls: urls.slice(0, MAX_WORKSPACE_SOURCES) });
+    return loadUrls(urls);
+  };
+
+  const handleFilesSubmit = (files: File[]) => loadSource(() => scrapeFiles(files));
+
+  const handleTextSubmit = (text: string, title?: string) =>
+    loadSource(async () => scrapePastedText(text, title));
+
+  /**
+   * Adds a URL to the open workspace. Resolves with an error message if it could not be added.
+   */
+  const handleAddSource = async (url: string): Promise<string | undefined> => {
+    if (sources.length >= MAX_WORKSPACE_SOURCES) {
+      return `A workspace can hold up to ${MAX_WORKSPACE_SOURCES} sources.`;
+    }
+    if (sources.some(source => isSameSource(source.url, ensureProtocol(url)))) {
+      return "That source is already in the workspace.";
+    }
+    const result = await scrapeWebsite(url);
+    if (!result.success || !result.data) return result.error || "Failed to scrape the website.";
+    const data = result.data;
+    if (sources.some(source => isSameSource(source.url, data.url))) {
+      return "That source is already in the workspace.";
+    }
+    setSources(prev => [...prev, data]);
+    return undefined;
+  };
+
+  const handleRemoveSource = (url: string) => {
+    setSources(prev => (prev.length > 1 ? prev.filter(source => source.url !== url) : prev));
+  };
+
+  const handleSourceUpdated = (url: string, data: WebsiteData) => {
+    setSources(prev => prev.map(source => (source.url === url ? data : source)));
+  };
+
+  /**
+   * Once a session has been saved it can be reopened, so its own address replaces the URL
+   * it was loaded from (or follows the page it was opened on, for uploads and pasted text).
+   */
+  const showSavedSession = (id: string) => {
+    if (sessionIdRef.current !== id) return;
+    const route = parseRoute();
+    if (route.name === 'session') return;
+    navigate({ name: 'session', id }, { replace: route.name === 'url' });
+  };
+
+  const scheduleSave = () => {
+    if (!sessionId || sources.length === 0 || messagesRef.current.length === 0) return;
+    const id = sessionId;
+    const workspace = sources;
+    const messages = messagesRef.current;
+    const briefing = briefingRef.current;
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      sessionStore.save(id, workspace, messages, briefing)
+        .then(() => showSavedSession(id))
+        .catch(error => console.error("Failed to save session:", error));
+    }, SAVE_DEBOUNCE_MS);
+  };
+
+  const handleMessagesChange = (messages: ChatMessage[]) => {
+    messagesRef.current = messages;
+    scheduleSave();
+  };
+
+  const handleBriefingChange = (briefing: Briefing) => {
+    briefingRef.current = briefing;
+    scheduleSave();
+  };
+
+  const resumeSession = async (id: string) => {
+    const loadId = ++loadIdRef.current;
+    const stored = await sessionStore.get(id).catch(() => null);
+    if (loadId !== loadIdRef.current) return;
+    if (!stored) {
+      setErrorMessage("That session could not be loaded. It may have been evicted to free up space.");
+      setAppState(AppState.ERROR);
+      return;
+    }
+    window.clearTimeout(saveTimerRef.current);
+    setSources(stored.sources);
+    setInitialMessages(stored.messages);
+    setInitialBriefing(stored.briefing);
+    messagesRef.current = stored.messages;
+    briefingRef.current = stored.briefing;
+    openSession(id);
+    setErrorMessage(undefined);
+    setAppState(AppState.CHATTING);
+  };
+
+  const handleResume = (id: string) => {
+    setIsHistoryOpen(false);
+    setDiscoverTopic(undefined);
+    navigate({ name: 'session', id });
+    return resumeSession(id);
+  };
+
+  const clearWorkspace = () => {
+    loadIdRef.current++;
+    window.clearTimeout(saveTimerRef.current);
     setAppState(AppState.IDLE);
-    setWebsiteData(null);
+    setCrawlProgress(null);
+    setSources([]);
+    openSession(null);
+    setInitialMessages(undefined);
+    setInitialBriefing(undefined);
+    messagesRef.current = [];
+    briefingRef.current = undefined;
     setErrorMessage(undefined);
   };
 
+  const handleReset = () => {
+    clearWorkspace();
+    setDiscoverTopic(undefined);
+    navigate({ name: 'home' });
+  };
+
+  // Back to whatever led here (usually the Discover results), or home for a direct link.
+  const handleBack = () => {
+    if (!goBack()) handleReset();
+  };
+
+  const handleTopicChange = (topic: string | null) => {
+    setDiscoverTopic(topic || undefined);
+    navigate(topic ? { name: 'topic', topic } : { name: 'home' });
+  };
+
+  /**
+   * Brings the view in line with an address: on load, and on back/forward.
+   */
+  const applyRoute = (route: Route) => {
+    switch (route.name) {
+      case 'session':
+        setDiscoverTopic(undefined);
+        if (route.id !== sessionIdRef.current) resumeSession(route.id);
+        break;
+      case 'url':
+        setDiscoverTopic(undefined);
+        loadUrls(route.urls, route.crawlOptions);
+        break;
+      case 'topic':
+        clearWorkspace();
+        setDiscoverTopic(route.topic);
+        break;
+      default:
+        clearWorkspace();
+        setDiscoverTopic(undefined);
+    }
+  };
+
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  useEffect(() => {
+    applyRouteRef.current(parseRoute());
+    return onRouteChange(route => applyRouteRef.current(route));
+  }, []);
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === sessionId) handleReset();
+  };
+
   return (
     <div className="relative min-h-screen flex flex-col transition-colors duration-500">
       
       {/* Abstract Background Blobs */}
-      <div className="fixed inset-0 overflow-hidden pointer-events-none -z-10">
+      <div className="fixed inset-0 overflow-hidden pointer-events-none -z-10 print:hidden">
         <div className="absolute top-[-10%] left-[-10%] w-[500px] h-[500px] bg-primary-300/20 dark:bg-primary-900/10 rounded-full blur-[100px] animate-float" />
         <div className="absolute bottom-[-10%] right-[-10%] w-[600px] h-[600px] bg-blue-300/20 dark:bg-blue-900/10 rounded-full blur-[120px] animate-float" style={{ animationDelay: '2s' }} />
       </div>
 
       {/* Navigation / Theme Toggle */}
-      <nav className="absolute top-0 right-0 p-6 z-50">
+      <nav className="absolute top-0 right-0 p-6 z-50 flex gap-3 print:hidden">
+        <button 
+          onClick={() => setIsHistoryOpen(true)}
+          className="p-3 rounded-full bg-white/50 dark:bg-white/5 backdrop-blur-md border border-black/5 dark:border-white/10 shadow-sm hover:shadow-md transition-all text-slate-600 dark:text-slate-300 hover:scale-105 active:scale-95"
+          aria-label="Session History"
+        >
+          <History size={20} />
+        </button>
+        <button 
+          onClick={() => setIsSettingsOpen(true)}
+          className="p-3 rounded-full bg-white/50 dark:bg-white/5 backdrop-blur-md border border-black/5 dark:border-white/10 shadow-sm hover:shadow-md transition-all text-slate-600 dark:text-slate-300 hover:scale-105 active:scale-95"
+          aria-label="AI Provider Settings"
+        >
+          <Settings size={20} />
+        </button>
         <button 
           onClick={toggleTheme}
           className="p-3 rounded-full bg-white/50 dark:bg-white/5 backdrop-blur-md border border-black/5 dark:border-white/10 shadow-sm hover:shadow-md transition-all text-slate-600 dark:text-slate-300 hover:scale-105 active:scale-95"
@@ -72,18 +312,58 @@ const App: React.FC = () => {
         </button>
       </nav>
 
-      <main className="flex-1 flex items-center justify-center p-4">
+      {!providerReady && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 print:hidden flex items-center gap-3 px-4 py-2.5 rounded-full bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-500/20 text-amber-700 dark:text-amber-300 text-sm shadow-sm animate-fade-up">
+          <AlertCircle size={16} />
+          <span>No AI provider configured.</span>
+          <button onClick={() => setIsSettingsOpen(true)} className="font-medium underline underline-offset-4">
+            Open Settings
+          </button>
+        </div>
+      )}
+
+      {isSettingsOpen && <SettingsPanel onClose={() => setIsSettingsOpen(false)} />}
+
+      {isHistoryOpen && (
+        <SessionSidebar
+          activeSessionId={sessionId}
+          onResume={handleResume}
+          onDeleted={handleSessionDeleted}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      <main className="flex-1 flex items-center justify-center p-4 print:block print:p-0">
         {(appState === AppState.IDLE || appState === AppState.SCRAPING || appState === AppState.ERROR) && (
           <UrlInput 
             onUrlSubmit={handleUrlSubmit} 
+            onSourcesSubmit={handleSourcesSubmit}
+            onFilesSubmit={handleFilesSubmit}
+            onTextSubmit={handleTextSubmit}
             isLoading={appState === AppState.SCRAPING}
+            crawlProgress={crawlProgress}
             error={appState === AppState.ERROR ? errorMessage : undefined}
+            topic={discoverTopic}
+            onTopicChange={handleTopicChange}
           />
         )}
 
-        {appState === AppState.CHATTING && websiteData && (
+        {appState === AppState.CHATTING && sessionId && sources.length > 0 && (
           <div className="w-full h-full animate-fade-up">
-             <ChatInterface websiteData={websiteData} onReset={handleReset} />
+             <ChatInterface
+               key={sessionId}
+               sessionId={sessionId}
+               sources={sources}
+               onAddSource={handleAddSource}
+               onRemoveSource={handleRemoveSource}
+               onSourceUpdated={handleSourceUpdated}
+               initialMessages={initialMessages}
+               onMessagesChange={handleMessagesChange}
+               initialBriefing={initialBriefing}
+               onBriefingChange={handleBriefingChange}
+               onReset={handleReset}
+               onBack={handleBack}
+             />
           </div>
         )}
       </main>
@@ -0,0 +1,148 @@
+import React from 'react';
+import { Sparkles, ChevronRight, ChevronLeft, Loader2, RefreshCw, MessageCircleQuestion } from 'lucide-react';
+import { Briefing } from '../types';
+
+export type BriefingStatus = 'loading' | 'ready' | 'error';
+
+interface BriefingPanelProps {
+  briefing: Briefing | null;
+  status: BriefingStatus;
+  error?: string;
+  isOpen: boolean;
+  disabled?: boolean; // While an answer is being generated
+  onToggle: () => void;
+  onRetry: () => void;
+  onAsk: (question: string) => void;
+}
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-[10px] font-semibold tracking-widest uppercase text-slate-400 dark:text-slate-500 mb-2">{children}</h4>
+);
+
+const BriefingPanel: React.FC<BriefingPanelProps> = ({ briefing, status, error, isOpen, disabled, onToggle, onRetry, onAsk }) => {
+  if (!isOpen) {
+    return (
+      <button
+        onClick={onToggle}
+        className="hidden md:flex flex-col items-center gap-2 w-10 shrink-0 py-4 border-l border-slate-100 dark:border-white/5 text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors print:hidden"
+        title="Show briefing"
+        aria-label="Show briefing"
+      >
+        <ChevronLeft size={16} />
+        <Sparkles size={14} />
+      </button>
+    );
+  }
+
+  return (
+    <aside className="hidden md:flex flex-col w-80 shrink-0 border-l border-slate-100 dark:border-white/5 bg-white/40 dark:bg-white/[0.02] print:hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100 dark:border-white/5">
+        <h3 className="flex items-center gap-2 font-serif text-lg text-slate-900 dark:text-white">
+          <Sparkles size={16} className="text-primary-500" />
+          Briefing
+        </h3>
+        <button
+          onClick={onToggle}
+          className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+          aria-label="Hide briefing"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-6 scrollbar-hide text-sm">
+        {status === 'loading' && (
+          <div className="flex items-center gap-2 text-slate-400">
+            <Loader2 size={14} className="animate-spin" />
+            <span>Preparing a briefing...</span>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="space-y-3">
+            <p className="text-slate-500 dark:text-slate-400">{error || 'The briefing could not be generated.'}</p>
+            <button
+              onClick={onRetry}
+              className="inline-flex items-center gap-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4"
+            >
+              <RefreshCw size={12} />
+              Try again
+            </button>
+          </div>
+        )}
+
+        {status === 'ready' && briefing && (
+          <>
+            {briefing.tldr && (
+              <section>
+                <SectionTitle>TL;DR</SectionTitle>
+                <p className="text-slate-700 dark:text-slate-200 leading-relaxed">{briefing.tldr}</p>
+              </section>
+            )}
+
+            {briefing.keyPoints.length > 0 && (
+              <section>
+                <SectionTitle>Key points</SectionTitle>
+                <ul className="list-disc pl-4 space-y-1.5 text-slate-600 dark:text-slate-300">
+                  {briefing.keyPoints.map((point, i) => <li key={i}>{point}</li>)}
+                </ul>
+              </section>
+            )}
+
+            {briefing.suggestedQuestions.length > 0 && (
+              <section>
+                <SectionTitle>Ask next</SectionTitle>
+                <div className="space-y-2">
+                  {briefing.suggestedQuestions.map((question, i) => (
+                    <button
+                      key={i}
+                      onClick={() => onAsk(question)}
+                      disabled={disabled}
+                      className="w-full flex items-start gap-2 text-left px-3 py-2 rounded-xl bg-white dark:bg-white/5 border border-slate-100 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:border-primary-300 dark:hover:border-primary-500/40 disabled:opacity-50 transition-colors"
+                    >
+                      <MessageCircleQuestion size={14} className="shrink-0 mt-0.5 text-primary-500" />
+                      <span>{question}</span>
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {briefing.entities.length > 0 && (
+              <section>
+                <SectionTitle>Who &amp; what</SectionTitle>
+                <div className="flex flex-wrap gap-1.5">
+                  {briefing.entities.map((entity, i) => (
+                    <span
+                      key={i}
+                      className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-white/10 text-xs text-slate-600 dark:text-slate-300"
+                      title={entity.kind}
+                    >
+                      {entity.name}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {briefing.dates.length > 0 && (
+              <section>
+                <SectionTitle>Dates</SectionTitle>
+                <dl className="space-y-1.5">
+                  {briefing.dates.map((item, i) => (
+                    <div key={i} className="flex gap-3">
+                      <dt className="shrink-0 font-mono text-xs text-slate-400 pt-0.5">{item.date}</dt>
+                      <dd className="text-slate-600 dark:text-slate-300">{item.event}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default BriefingPanel;
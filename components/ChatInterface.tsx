@@ -1,140 +1,607 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, ArrowLeft, RefreshCw, Link as LinkIcon, Loader2, BookOpen } from 'lucide-react';
-import { ChatMessage, WebsiteData } from '../types';
+import { Send, ArrowLeft, RefreshCw, Link as LinkIcon, BookOpen, Square, FileText, Plus, Layers, BookOpenText, TextQuote, X, History, RotateCw, Table2, GraduationCap } from 'lucide-react';
+import { Briefing, ChatBranches, ChatMessage, Citation, FocusedPassage, UsageBudget, WebsiteData } from '../types';
 import MessageBubble from './MessageBubble';
+import SourceBar from './SourceBar';
+import ExportMenu from './ExportMenu';
+import BriefingPanel, { BriefingStatus } from './BriefingPanel';
+import ReaderPane, { ReaderTarget } from './ReaderPane';
+import MonitorPanel from './MonitorPanel';
+import ExtractPanel from './ExtractPanel';
+import StudyPanel from './StudyPanel';
+import UsageMeter from './UsageMeter';
+import RenderModeBadge from './RenderModeBadge';
+import ContentWarningBadge from './ContentWarningBadge';
 import { aiService } from '../services/aiService';
+import { buildSiteIndex, RetrievalIndex } from '../services/retrievalService';
+import { getProviderLabel, ProviderNotConfiguredError } from '../services/llmProvider';
+import { isWebUrl, MAX_WORKSPACE_SOURCES, sourceLabel } from '../services/scraperService';
+import { canMonitor, checkForChanges, getMonitorInterval, recordBaseline, refreshSource, setMonitorInterval } from '../services/monitorService';
+import { countChanges } from '../services/diffService';
+import { forkAt, switchBranch } from '../services/branchService';
+import { getUsageBudget, isOverBudget, sessionUsage, setUsageBudget, TRIMMED_HISTORY_MESSAGES } from '../services/usageService';
+import { sourceLanguages } from '../services/languageService';
 
 interface ChatInterfaceProps {
-  websiteData: WebsiteData;
+  sessionId: string; // Snapshots and the monitoring schedule are stored per session
+  sources: WebsiteData[]; // Every source in the workspace; more than one means a comparison
+  initialMessages?: ChatMessage[]; // When resuming a saved session
+  onMessagesChange?: (messages: ChatMessage[]) => void;
+  initialBriefing?: Briefing; // Saved with the session, so resuming doesn't regenerate it
+  onBriefingChange?: (briefing: Briefing) => void;
+  onAddSource?: (url: string) => Promise<string | undefined>; // Resolves with an error message on failure
+  onRemoveSource?: (url: string) => void;
+  onSourceUpdated?: (url: string, data: WebsiteData) => void; // A re-check found changes
   onReset: () => void;
+  onBack?: () => void; // The back arrow; starts a new session when not given
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ websiteData, onReset }) => {
+const titleOf = (source: WebsiteData): string => source.title || sourceLabel(source.url);
+
+const greetingFor = (sources: WebsiteData[]): string => {
+  if (sources.length > 1) {
+    const names = sources.map(source => `**${titleOf(source)}**`).join(', ');
+    return `I have read **${sources.length} sources**: ${names}. \n\nWhat would you like to compare?`;
+  }
+  const [websiteData] = sources;
+  return websiteData.pages.length > 1
+    ? `I have read **${websiteData.pages.length} pages** of **${websiteData.title || "the site"}**. \n\nWhat would you like to know?`
+    : `I have read **${websiteData.title || "the page"}**. \n\nWhat would you like to know?`;
+};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({
+  sessionId,
+  sources,
+  initialMessages,
+  onMessagesChange,
+  initialBriefing,
+  onBriefingChange,
+  onAddSource,
+  onRemoveSource,
+  onSourceUpdated,
+  onReset,
+  onBack
+}) => {
+  const [websiteData] = sources;
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const indexRef = useRef<Promise<RetrievalIndex> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [isAddingSource, setIsAddingSource] = useState(false);
+  const previousSourcesRef = useRef(sources);
+
+  // Briefing State
+  const [briefing, setBriefing] = useState<Briefing | null>(initialBriefing || null);
+  const [briefingStatus, setBriefingStatus] = useState<BriefingStatus>(initialBriefing ? 'ready' : 'loading');
+  const [briefingError, setBriefingError] = useState<string | undefined>(undefined);
+  const [isBriefingOpen, setIsBriefingOpen] = useState(true);
+  const briefingSourcesRef = useRef<WebsiteData[] | null>(initialBriefing ? sources : null); // Sources the briefing describes
+
+  // Reader State
+  const [isReaderOpen, setIsReaderOpen] = useState(false);
+  const [readerTarget, setReaderTarget] = useState<ReaderTarget | null>(null);
+  const [focusedPassage, setFocusedPassage] = useState<FocusedPassage | null>(null);
+
+  const [isExtractOpen, setIsExtractOpen] = useState(false);
+  const [isStudyOpen, setIsStudyOpen] = useState(false);
+
+  // Usage State
+  const [usageBudget, setUsageBudgetState] = useState(() => getUsageBudget(sessionId));
+  const usage = sessionUsage(messages);
+  const isOverUsageBudget = isOverBudget(usage, usageBudget);
+  const isBlocked = isOverUsageBudget && usageBudget.onExceeded === 'block';
+
+  // Monitoring State
+  const [isMonitorOpen, setIsMonitorOpen] = useState(false);
+  const [monitorInterval, setMonitorIntervalState] = useState(() => getMonitorInterval(sessionId));
+  const sourcesRef = useRef(sources); // Read by the scheduled check without restarting it
+  sourcesRef.current = sources;
+  const canWatch = !!onSourceUpdated && sources.some(canMonitor);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Index the workspace content for retrieval
+  useEffect(() => {
+    indexRef.current = buildSiteIndex(sources);
+  }, [sources]);
+
+  const runBriefing = (): AbortController => {
+    const controller = new AbortController();
+    setBriefingStatus('loading');
+    setBriefingError(undefined);
+
+    (async () => {
+      try {
+        const index = await (indexRef.current ??= buildSiteIndex(sources));
+        const result = await aiService.generateBriefing(index, controller.signal, sourceLanguages(sources));
+        if (controller.signal.aborted) return;
+        briefingSourcesRef.current = sources;
+        setBriefing(result);
+        setBriefingStatus('ready');
+        onBriefingChange?.(result);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Briefing Error:", error);
+        setBriefingError(error instanceof ProviderNotConfiguredError ? error.message : undefined);
+        setBriefingStatus('error');
+      }
+    })();
+
+    return controller;
+  };
+
+  // Brief the reader on the workspace whenever its sources change
+  useEffect(() => {
+    if (briefingSourcesRef.current === sources) return;
+    const controller = runBriefing();
+    return () => controller.abort();
+  }, [sources]);
 
-  // Initial greeting
+  // Note sources added or removed mid-conversation, so the transcript explains why answers change
   useEffect(() => {
+    const previous = previousSourcesRef.current;
+    previousSourcesRef.current = sources;
+    if (previous === sources) return;
+
+    const previousUrls = new Set(previous.map(source => source.url));
+    const currentUrls = new Set(sources.map(source => source.url));
+    const notes = [
+      ...sources.filter(source => !previousUrls.has(source.url)).map(source => `Added **${titleOf(source)}** to the workspace.`),
+      ...previous.filter(source => !currentUrls.has(source.url)).map(source => `Removed **${titleOf(source)}** from the workspace.`),
+    ];
+    if (notes.length === 0) return;
+
+    const now = Date.now();
+    setMessages(prev => [
+      ...prev,
+      ...notes.map((content, i) => ({ id: `source-${now}-${i}`, role: 'system' as const, content, timestamp: now })),
+    ]);
+  }, [sources]);
+
+  // Keep the content as first loaded, so later checks have something to compare with
+  useEffect(() => {
+    if (!onSourceUpdated) return;
+    sources.forEach(source => recordBaseline(sessionId, source).catch(error => console.error("Snapshot Error:", error)));
+  }, [sessionId, sources]);
+
+  const addNote = (content: string) => {
+    const now = Date.now();
+    setMessages(prev => [...prev, { id: `note-${now}-${prev.length}`, role: 'system', content, timestamp: now }]);
+  };
+
+  const handleSourceUpdated = (url: string, data: WebsiteData, sections: number) => {
+    onSourceUpdated?.(url, data);
+    addNote(`**${titleOf(data)}** changed (${sections} section${sections === 1 ? '' : 's'}). Answers now use the latest version.`);
+  };
+  const sourceUpdatedRef = useRef(handleSourceUpdated); // Called by the scheduled check, so it sees the latest props
+  sourceUpdatedRef.current = handleSourceUpdated;
+
+  // Fetch the web sources again, past the page cache
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    for (const source of sources.filter(canMonitor)) {
+      try {
+        const { data, changed } = await refreshSource(source);
+        if (changed) {
+          onSourceUpdated?.(source.url, data);
+          addNote(`**${titleOf(data)}** has changed since it was loaded. Answers now use the latest version.`);
+        } else {
+          addNote(`**${titleOf(source)}** is up to date.`);
+        }
+      } catch (error) {
+        addNote(`Could not refresh **${titleOf(source)}**: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    }
+    setIsRefreshing(false);
+  };
+
+  // Re-check the web sources on the chosen schedule while the chat is open
+  useEffect(() => {
+    if (!onSourceUpdated || monitorInterval <= 0) return;
+    let isChecking = false;
+
+    const timer = setInterval(async () => {
+      if (isChecking) return;
+      isChecking = true;
+      for (const source of sourcesRef.current.filter(canMonitor)) {
+        try {
+          const result = await checkForChanges(sessionId, source);
+          if (result.changed) sourceUpdatedRef.current(source.url, result.data, countChanges(result.diff).sections);
+        } catch (error) {
+          console.error("Monitor Error:", error);
+        }
+      }
+      isChecking = false;
+    }, monitorInterval * 60_000);
+
+    return () => clearInterval(timer);
+  }, [sessionId, monitorInterval]);
+
+  const handleBudgetChange = (budget: UsageBudget) => {
+    setUsageBudget(sessionId, budget);
+    setUsageBudgetState(budget);
+  };
+
+  const handleIntervalChange = (minutes: number) => {
+    setMonitorInterval(sessionId, minutes);
+    setMonitorIntervalState(minutes);
+  };
+
+  // Initial greeting, unless we are resuming a saved conversation
+  useEffect(() => {
+    if (initialMessages && initialMessages.length > 0) {
+      setMessages(initialMessages);
+      return;
+    }
     const initialMessage: ChatMessage = {
       id: 'init-1',
       role: 'model',
-      content: `I have read **${websiteData.title || "the page"}**. \n\nWhat would you like to know?`,
+      content: greetingFor(sources),
       timestamp: Date.now()
     };
     setMessages([initialMessage]);
-  }, [websiteData]);
+  }, []);
 
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom and persist
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (messages.length > 0) onMessagesChange?.(messages);
   }, [messages]);
 
-  // Focus input on mount
+  // Focus input on mount, abort any in-flight answer on unmount
   useEffect(() => {
     inputRef.current?.focus();
+    return () => abortRef.current?.abort();
   }, []);
 
-  const handleSendMessage = async (e?: React.FormEvent) => {
-    e?.preventDefault();
-    
-    if (!inputValue.trim() || isProcessing) return;
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
 
-    const userMsgText = inputValue.trim();
-    setInputValue('');
-    
-    // Add user message
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: userMsgText,
-      timestamp: Date.now()
-    };
-    
-    const newHistory = [...messages, userMsg];
-    setMessages(newHistory);
+  const openReader = () => {
+    setIsReaderOpen(true);
+    setIsBriefingOpen(false); // Two side panels leave too little room for the conversation
+  };
+
+  const handleCitationClick = (citation: Citation) => {
+    openReader();
+    setReaderTarget({ url: citation.url, quote: citation.quote, nonce: Date.now() });
+  };
+
+  const handleShowInPage = (url: string, quote = '') => {
+    openReader();
+    setReaderTarget({ url, quote, nonce: Date.now() });
+  };
+
+  const handleAskAboutSelection = (passage: FocusedPassage) => {
+    setFocusedPassage(passage);
+    inputRef.current?.focus();
+  };
+
+  /**
+   * Shows `history` and streams an answer to its last question. An answer that replaces
+   * earlier versions carries them as `branches`.
+   */
+  const runAnswer = async (history: ChatMessage[], branches?: ChatBranches) => {
+    if (isBlocked) return;
+    setMessages(history);
     setIsProcessing(true);
 
+    const botId = (Date.now() + 1).toString(); // The question may have been added this millisecond
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const versions = branches && branches.before.length + branches.after.length > 0 ? { branches } : {};
+
+    // Insert the in-progress answer on the first chunk, then update it in place.
+    const upsertBotMessage = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => {
+        if (prev.some(m => m.id === botId)) {
+          return prev.map(m => (m.id === botId ? { ...m, ...patch } : m));
+        }
+        return [...prev, { id: botId, role: 'model', content: '', timestamp: Date.now(), ...versions, ...patch }];
+      });
+    };
+
     try {
-      const responseText = await aiService.getChatResponse(
-        websiteData.content,
-        newHistory
+      const index = await (indexRef.current ??= buildSiteIndex(sources));
+      const response = await aiService.streamChatResponse(
+        index,
+        history,
+        partial => upsertBotMessage({ content: partial.text, citations: partial.citations, status: 'streaming' }),
+        controller.signal,
+        {
+          sourceLanguages: sourceLanguages(sources),
+          ...(isOverUsageBudget ? { maxHistoryMessages: TRIMMED_HISTORY_MESSAGES } : {}),
+        }
       );
-      
-      const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: responseText,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prev => [...prev, botMsg]);
+
+      if (controller.signal.aborted && !response.text && !branches) {
+        // Stopped before anything arrived; drop the empty placeholder.
+        setMessages(prev => prev.filter(m => m.id !== botId));
+      } else {
+        // An empty answer that replaced others is kept, so the earlier versions stay reachable.
+        upsertBotMessage({
+          content: response.text,
+          citations: response.citations,
+          usage: response.usage,
+          context: response.context,
+          status: controller.signal.aborted ? 'stopped' : undefined
+        });
+      }
     } catch (error) {
-      const errorMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: "I encountered a disturbance in the data stream. Please try again.",
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      console.error("Chat Error:", error);
+      setMessages(prev => [
+        ...prev.filter(m => m.id !== botId),
+        {
+          id: botId,
+          role: 'model',
+          content: error instanceof ProviderNotConfiguredError
+            ? error.message
+            : `The answer could not be generated: ${error instanceof Error ? error.message : 'unknown error'}`,
+          timestamp: Date.now(),
+          status: 'error',
+          ...versions
+        }
+      ]);
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
       setTimeout(() => inputRef.current?.focus(), 100);
     }
   };
 
+  const sendMessage = async (text: string, focus: FocusedPassage | null = focusedPassage) => {
+    const userMsgText = text.trim();
+    if (!userMsgText || isProcessing || isBlocked) return;
+
+    // Add user message
+    const userMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: userMsgText,
+      timestamp: Date.now(),
+      ...(focus ? { focus } : {})
+    };
+    setFocusedPassage(null);
+
+    await runAnswer([...messages, userMsg]);
+  };
+
+  // Re-asks an edited question; the conversation from it on is kept as another version.
+  const handleEdit = (index: number, text: string) => {
+    if (isProcessing) return;
+    const { head, branches } = forkAt(messages, index);
+    const { focus } = messages[index];
+    runAnswer([...head, {
+      id: Date.now().toString(),
+      role: 'user',
+      content: text,
+      timestamp: Date.now(),
+      ...(focus ? { focus } : {}),
+      branches
+    }]);
+  };
+
+  const handleRegenerate = (index: number) => {
+    if (isProcessing) return;
+    const { head, branches } = forkAt(messages, index);
+    runAnswer(head, branches);
+  };
+
+  // A failed answer isn't worth keeping as a version; it is simply replaced.
+  const handleRetry = (index: number) => {
+    if (isProcessing) return;
+    runAnswer(messages.slice(0, index), messages[index].branches);
+  };
+
+  const handleSwitchBranch = (index: number, direction: -1 | 1) => {
+    if (isProcessing) return;
+    setMessages(prev => switchBranch(prev, index, direction));
+  };
+
+  // Only the latest answer, if it answers a question, can be regenerated or retried.
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  const lastAnswerIndex = messages.map(m => m.role).lastIndexOf('model');
+  const canRedoAnswer = !isProcessing && !isBlocked && lastUserIndex >= 0 && lastAnswerIndex > lastUserIndex;
+
+  const handleSendMessage = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!inputValue.trim()) return;
+    sendMessage(inputValue);
+    setInputValue('');
+  };
+
   return (
-    <div className="flex flex-col h-screen md:h-[85vh] max-w-6xl mx-auto bg-white/80 dark:bg-charcoal/80 backdrop-blur-xl md:rounded-[2rem] shadow-2xl dark:shadow-black/60 border border-white/20 dark:border-white/5 overflow-hidden transition-colors duration-300">
+    <div className="flex flex-col h-screen md:h-[85vh] max-w-6xl mx-auto bg-white/80 dark:bg-charcoal/80 backdrop-blur-xl md:rounded-[2rem] shadow-2xl dark:shadow-black/60 border border-white/20 dark:border-white/5 overflow-hidden transition-colors duration-300 print:h-auto print:overflow-visible print:shadow-none print:border-0 print:bg-transparent">
       
       {/* Header */}
       <header className="bg-white/50 dark:bg-white/5 border-b border-slate-100 dark:border-white/5 p-4 md:p-6 flex items-center justify-between shrink-0 backdrop-blur-md z-10">
         <div className="flex items-center gap-4 min-w-0">
           <button 
-            onClick={onReset}
-            className="group p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+            onClick={onBack || onReset}
+            className="group p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors print:hidden"
             title="Back to search"
           >
             <ArrowLeft size={20} className="group-hover:-translate-x-0.5 transition-transform" />
           </button>
           
-          <div className="flex flex-col min-w-0">
-            <h2 className="font-serif text-xl text-slate-900 dark:text-white truncate flex items-center gap-2">
-              {websiteData.title || 'Untitled Page'}
-            </h2>
-            <a 
-              href={websiteData.url} 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="flex items-center gap-1.5 text-xs font-mono text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors truncate"
-            >
-              <LinkIcon size={10} />
-              <span className="truncate">{new URL(websiteData.url).hostname}</span>
-            </a>
-          </div>
+          {sources.length > 1 ? (
+            <div className="flex flex-col min-w-0">
+              <h2 className="font-serif text-xl text-slate-900 dark:text-white truncate flex items-center gap-2">
+                <Layers size={18} className="shrink-0 text-primary-500" />
+                Comparing {sources.length} sources
+              </h2>
+              <span className="text-xs font-mono text-slate-400 truncate">
+                {Array.from(new Set(sources.map(source => sourceLabel(source.url)))).join(' · ')}
+              </span>
+            </div>
+          ) : (
+            <div className="flex flex-col min-w-0">
+              <h2
+                className="font-serif text-xl text-slate-900 dark:text-white truncate flex items-center gap-2"
+                title={websiteData.metadata?.description}
+              >
+                {websiteData.title || 'Untitled Page'}
+              </h2>
+              {isWebUrl(websiteData.url) ? (
+                <a 
+                  href={websiteData.url} 
+                  target="_blank" 
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 text-xs font-mono text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors truncate"
+                >
+                  <LinkIcon size={10} />
+                  <span className="truncate">{sourceLabel(websiteData.url)}</span>
+                  {websiteData.pages.length > 1 && (
+                    <span className="shrink-0 text-slate-400">· {websiteData.pages.length} pages</span>
+                  )}
+                  <RenderModeBadge source={websiteData} />
+                </a>
+              ) : (
+                <span className="flex items-center gap-1.5 text-xs font-mono text-slate-400 truncate">
+                  <FileText size={10} />
+                  <span className="truncate">{sourceLabel(websiteData.url)}</span>
+                  {websiteData.pages.length > 1 && (
+                    <span className="shrink-0 text-slate-400">· {websiteData.pages.length} files</span>
+                  )}
+                </span>
+              )}
+            </div>
+          )}
         </div>
 
-        <button 
-          onClick={onReset}
-          className="hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-        >
-          <RefreshCw size={12} />
-          New Session
-        </button>
+        <div className="flex items-center gap-4 shrink-0 print:hidden">
+          <ContentWarningBadge sources={sources} />
+          <button
+            onClick={() => (isReaderOpen ? setIsReaderOpen(false) : openReader())}
+            className={`hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase transition-colors ${
+              isReaderOpen ? 'text-primary-600 dark:text-primary-400' : 'text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400'
+            }`}
+            title="Read the extracted content"
+          >
+            <BookOpenText size={12} />
+            Reader
+          </button>
+          <button
+            onClick={() => setIsExtractOpen(true)}
+            className="hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+            title="Extract fields from the pages into a table"
+          >
+            <Table2 size={12} />
+            Extract
+          </button>
+          <button
+            onClick={() => setIsStudyOpen(true)}
+            className="hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+            title="Quiz yourself and review flashcards"
+          >
+            <GraduationCap size={12} />
+            Study
+          </button>
+          {canWatch && (
+            <button
+              onClick={() => setIsMonitorOpen(true)}
+              className={`hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase transition-colors ${
+                monitorInterval > 0 ? 'text-primary-600 dark:text-primary-400' : 'text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400'
+              }`}
+              title={monitorInterval > 0 ? 'Checking for changes automatically' : 'Check the sources for changes'}
+            >
+              <History size={12} />
+              Changes
+            </button>
+          )}
+          {canWatch && (
+            <button
+              onClick={handleRefresh}
+              disabled={isProcessing || isRefreshing}
+              className="hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 disabled:opacity-40 transition-colors"
+              title="Fetch the sources again instead of using cached copies"
+            >
+              <RotateCw size={12} className={isRefreshing ? 'animate-spin' : ''} />
+              Refresh
+            </button>
+          )}
+          <UsageMeter usage={usage} budget={usageBudget} onBudgetChange={handleBudgetChange} />
+          <ExportMenu sources={sources} messages={messages} briefing={briefing || undefined} disabled={isProcessing} />
+          {onAddSource && (
+            <button
+              onClick={() => setIsAddingSource(true)}
+              disabled={sources.length >= MAX_WORKSPACE_SOURCES}
+              className="flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 disabled:opacity-40 transition-colors"
+              title={sources.length >= MAX_WORKSPACE_SOURCES ? `Up to ${MAX_WORKSPACE_SOURCES} sources` : 'Add a source to compare'}
+            >
+              <Plus size={12} />
+              <span className="hidden md:inline">Add Source</span>
+            </button>
+          )}
+          <button 
+            onClick={onReset}
+            className="hidden md:flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+          >
+            <RefreshCw size={12} />
+            New Session
+          </button>
+        </div>
       </header>
 
+      {isMonitorOpen && (
+        <MonitorPanel
+          sessionId={sessionId}
+          sources={sources}
+          interval={monitorInterval}
+          onIntervalChange={handleIntervalChange}
+          onSourceUpdated={handleSourceUpdated}
+          onAsk={(question, focus) => sendMessage(question, focus)}
+          onClose={() => setIsMonitorOpen(false)}
+        />
+      )}
+
+      {isExtractOpen && <ExtractPanel sources={sources} onClose={() => setIsExtractOpen(false)} />}
+
+      {isStudyOpen && (
+        <StudyPanel
+          sources={sources}
+          getIndex={() => (indexRef.current ??= buildSiteIndex(sources))}
+          onShowInPage={handleShowInPage}
+          onClose={() => setIsStudyOpen(false)}
+        />
+      )}
+
+      {onAddSource && onRemoveSource && (sources.length > 1 || isAddingSource) && (
+        <SourceBar
+          sources={sources}
+          isAdding={isAddingSource}
+          disabled={isProcessing}
+          onAdd={onAddSource}
+          onRemove={onRemoveSource}
+          onCloseAdd={() => setIsAddingSource(false)}
+        />
+      )}
+
       {/* Main Content Area */}
-      <div className="flex-1 flex overflow-hidden">
+      <div className="flex-1 flex overflow-hidden print:overflow-visible">
         
         {/* Messages */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-8 scrollbar-hide bg-slate-50/50 dark:bg-black/20">
+        <div className="flex-1 overflow-y-auto p-4 md:p-8 scrollbar-hide bg-slate-50/50 dark:bg-black/20 print:overflow-visible print:bg-transparent">
           <div className="max-w-3xl mx-auto space-y-8">
-             {messages.map(msg => (
-               <MessageBubble key={msg.id} message={msg} />
-             ))}
+             {messages.map((msg, i) => {
+               const isLastAnswer = canRedoAnswer && i === lastAnswerIndex;
+               return (
+                 <MessageBubble
+                   key={msg.id}
+                   message={msg}
+                   onCitationClick={handleCitationClick}
+                   onEdit={msg.role === 'user' && !isProcessing && !isBlocked ? text => handleEdit(i, text) : undefined}
+                   onRegenerate={isLastAnswer && msg.status !== 'error' ? () => handleRegenerate(i) : undefined}
+                   onRetry={isLastAnswer && msg.status === 'error' ? () => handleRetry(i) : undefined}
+                   onSwitchBranch={isProcessing ? undefined : direction => handleSwitchBranch(i, direction)}
+                 />
+               );
+             })}
              
-             {isProcessing && (
+             {isProcessing && !messages.some(m => m.status === 'streaming') && (
                <div className="flex justify-start animate-fade-up">
                   <div className="flex items-center gap-3 pl-4">
                     <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-primary-400 to-blue-400 flex items-center justify-center shadow-lg shadow-primary-500/20">
@@ -151,32 +618,101 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ websiteData, onReset }) =
              <div ref={messagesEndRef} />
           </div>
         </div>
+
+        {/* Reader */}
+        {isReaderOpen && (
+          <ReaderPane
+            sources={sources}
+            target={readerTarget}
+            onAskAboutSelection={handleAskAboutSelection}
+            onClose={() => setIsReaderOpen(false)}
+          />
+        )}
+
+        {/* Briefing */}
+        <BriefingPanel
+          briefing={briefing}
+          status={briefingStatus}
+          error={briefingError}
+          isOpen={isBriefingOpen}
+          disabled={isProcessing}
+          onToggle={() => {
+            setIsBriefingOpen(open => !open);
+            setIsReaderOpen(false);
+          }}
+          onRetry={() => runBriefing()}
+          onAsk={sendMessage}
+        />
       </div>
 
       {/* Input Area */}
-      <div className="p-4 md:p-6 bg-white dark:bg-charcoal border-t border-slate-100 dark:border-white/5 shrink-0">
+      <div className="p-4 md:p-6 bg-white dark:bg-charcoal border-t border-slate-100 dark:border-white/5 shrink-0 print:hidden">
         <div className="max-w-3xl mx-auto">
+          {/* The briefing panel is desktop-only; offer its questions here on small screens */}
+          {briefing && !messages.some(m => m.role === 'user') && briefing.suggestedQuestions.length > 0 && (
+            <div className="md:hidden flex gap-2 overflow-x-auto scrollbar-hide mb-3">
+              {briefing.suggestedQuestions.map((question, i) => (
+                <button
+                  key={i}
+                  onClick={() => sendMessage(question)}
+                  disabled={isProcessing}
+                  className="shrink-0 max-w-[16rem] truncate px-3 py-1.5 rounded-full border border-slate-200 dark:border-white/10 text-xs text-slate-600 dark:text-slate-300"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          )}
+          {focusedPassage && (
+            <div className="flex items-start gap-2 mb-3 px-4 py-2 rounded-xl bg-primary-50 dark:bg-primary-900/20 border border-primary-100 dark:border-primary-500/20 text-sm animate-fade-up">
+              <TextQuote size={14} className="shrink-0 mt-0.5 text-primary-500" />
+              <p className="flex-1 min-w-0 italic text-slate-600 dark:text-slate-300 line-clamp-2">"{focusedPassage.text}"</p>
+              <button
+                onClick={() => setFocusedPassage(null)}
+                className="p-1 rounded-full text-slate-400 hover:bg-white dark:hover:bg-white/10"
+                aria-label="Clear selection"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          )}
+          {isBlocked && (
+            <p className="mb-3 px-4 py-2 rounded-xl bg-rose-50 dark:bg-rose-500/10 border border-rose-100 dark:border-rose-500/20 text-sm text-rose-700 dark:text-rose-300 animate-fade-up">
+              This session has used its token budget. Raise the budget from the usage meter to keep asking.
+            </p>
+          )}
           <form onSubmit={handleSendMessage} className="relative flex items-center gap-2 group">
             <input
               ref={inputRef}
               type="text"
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
-              placeholder="Ask a question..."
+              placeholder={focusedPassage ? "Ask about the selected passage..." : "Ask a question..."}
               className="w-full bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 text-slate-900 dark:text-white rounded-2xl px-6 py-4 pr-16 focus:outline-none focus:border-primary-500/50 dark:focus:border-primary-400/50 focus:ring-4 focus:ring-primary-500/10 dark:focus:ring-primary-400/10 transition-all placeholder-slate-400 dark:placeholder-slate-600 shadow-inner"
-              disabled={isProcessing}
+              disabled={isProcessing || isBlocked}
             />
-            <button
-              type="submit"
-              disabled={!inputValue.trim() || isProcessing}
-              className="absolute right-2 p-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:scale-100 disabled:cursor-not-allowed shadow-md"
-            >
-              {isProcessing ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
-            </button>
+            {isProcessing ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="absolute right-2 p-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl transition-all hover:scale-105 active:scale-95 shadow-md"
+                title="Stop generating"
+              >
+                <Square size={18} className="fill-current" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!inputValue.trim()}
+                className="absolute right-2 p-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:scale-100 disabled:cursor-not-allowed shadow-md"
+              >
+                <Send size={18} />
+              </button>
+            )}
           </form>
           <div className="mt-3 text-center">
             <p className="text-[10px] text-slate-400 dark:text-slate-500 tracking-widest font-medium uppercase opacity-60">
-              Powered by Google Gemini
+              Powered by {getProviderLabel()}
             </p>
           </div>
         </div>
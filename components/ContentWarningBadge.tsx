@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { EyeOff, ShieldAlert } from 'lucide-react';
+import { WebsiteData } from '../types';
+import { countWarnings } from '../services/injectionService';
+
+interface ContentWarningBadgeProps {
+  sources: WebsiteData[];
+}
+
+/**
+ * Flags sources whose pages seem to address the assistant with instructions of their own,
+ * and lists what was found. Renders nothing for clean sources.
+ */
+const ContentWarningBadge: React.FC<ContentWarningBadgeProps> = ({ sources }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const pages = sources.flatMap(source => source.pages).filter(page => page.warnings?.length);
+  const count = countWarnings(pages);
+  if (count === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 px-2.5 py-1 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-500/15 dark:text-amber-300 text-xs font-medium tracking-wide uppercase hover:bg-amber-200 dark:hover:bg-amber-500/25 transition-colors"
+        title="Some page text looks like instructions aimed at AI assistants"
+        aria-expanded={isOpen}
+      >
+        <ShieldAlert size={12} />
+        <span className="hidden md:inline">{count === 1 ? '1 warning' : `${count} warnings`}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-3 z-20 w-80 max-h-96 overflow-y-auto p-4 space-y-4 rounded-xl bg-white dark:bg-charcoal border border-slate-100 dark:border-white/10 shadow-xl animate-fade-up">
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              These pages contain text that reads like instructions to an AI assistant. SiteScout tells the model to treat page content as data and ignore such text, but double-check answers that rely on these pages.
+            </p>
+            {pages.map((page, i) => (
+              <div key={`${i}:${page.url}`} className="space-y-2 pt-3 border-t border-slate-100 dark:border-white/5">
+                <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate" title={page.url}>{page.title}</p>
+                <ul className="space-y-2">
+                  {page.warnings!.map((warning, j) => (
+                    <li key={j} className="text-xs space-y-1">
+                      <span className="flex items-center gap-1.5 text-amber-700 dark:text-amber-300">
+                        {warning.reason}
+                        {warning.hiddenBy && (
+                          <span className="inline-flex items-center gap-1 text-slate-400" title={`Hidden from readers with ${warning.hiddenBy}`}>
+                            <EyeOff size={10} /> hidden
+                          </span>
+                        )}
+                      </span>
+                      <q className="block font-mono text-slate-500 dark:text-slate-400 break-words">{warning.excerpt}</q>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContentWarningBadge;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Download, FileText, FileCode, FileJson, Printer } from 'lucide-react';
+import { Briefing, ChatMessage, WebsiteData } from '../types';
+import { downloadFile, exportFileName, toHtml, toJson, toMarkdown } from '../services/exportService';
+import { workspaceTitle } from '../services/scraperService';
+
+interface ExportMenuProps {
+  sources: WebsiteData[];
+  messages: ChatMessage[];
+  briefing?: Briefing; // Included in the JSON export
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ sources, messages, briefing, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const title = workspaceTitle(sources);
+
+  const run = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  const items = [
+    {
+      label: 'Markdown',
+      icon: FileText,
+      action: () => downloadFile(exportFileName(title, 'md'), toMarkdown(title, sources, messages), 'text/markdown'),
+    },
+    {
+      label: 'HTML page',
+      icon: FileCode,
+      action: () => downloadFile(exportFileName(title, 'html'), toHtml(title, sources, messages), 'text/html'),
+    },
+    {
+      label: 'JSON (re-importable)',
+      icon: FileJson,
+      action: () => downloadFile(exportFileName(title, 'json'), toJson(title, sources, messages, briefing), 'application/json'),
+    },
+    {
+      label: 'Print / PDF',
+      icon: Printer,
+      action: () => window.print(),
+    },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 disabled:opacity-40 transition-colors"
+        title="Export conversation"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download size={12} />
+        <span className="hidden md:inline">Export</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <ul
+            role="menu"
+            className="absolute right-0 mt-3 z-20 w-56 py-2 rounded-xl bg-white dark:bg-charcoal border border-slate-100 dark:border-white/10 shadow-xl animate-fade-up"
+          >
+            {items.map(({ label, icon: Icon, action }) => (
+              <li key={label}>
+                <button
+                  role="menuitem"
+                  onClick={() => run(action)}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 transition-colors"
+                >
+                  <Icon size={14} className="text-slate-400" />
+                  {label}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
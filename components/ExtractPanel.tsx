@@ -0,0 +1,397 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Table2, Plus, Trash2, Save, Play, Square, Loader2, Download } from 'lucide-react';
+import { ExtractionField, ExtractionFieldType, ExtractionRow, ExtractionTemplate, WebsiteData } from '../types';
+import { extractFromPages, ExtractionProgress, formatValue, InvalidTemplateError, rowsToCsv, rowsToJson, templateStore, validateFields } from '../services/dataExtractionService';
+import { downloadFile, exportFileName } from '../services/exportService';
+import { ProviderNotConfiguredError } from '../services/llmProvider';
+import { sourceLabel } from '../services/scraperService';
+
+interface ExtractPanelProps {
+  sources: WebsiteData[];
+  onClose: () => void;
+}
+
+const inputClass = "block w-full px-3 py-2 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors";
+
+const FIELD_TYPES: { value: ExtractionFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'list', label: 'List' },
+];
+
+const CUSTOM = 'custom';
+
+const emptyField = (): ExtractionField => ({ name: '', type: 'text', description: '' });
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">{label}</span>
+    {children}
+  </label>
+);
+
+const ExtractPanel: React.FC<ExtractPanelProps> = ({ sources, onClose }) => {
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(() => templateStore.list());
+  const [templateId, setTemplateId] = useState(templates[0]?.id || CUSTOM);
+  const [fields, setFields] = useState<ExtractionField[]>(templates[0]?.fields || [emptyField()]);
+  const [multiple, setMultiple] = useState(templates[0]?.multiple || false);
+  const [templateName, setTemplateName] = useState('');
+
+  const [sourceUrl, setSourceUrl] = useState(sources[0].url);
+  const [allPages, setAllPages] = useState(true);
+  const source = sources.find(s => s.url === sourceUrl) || sources[0];
+
+  const [rows, setRows] = useState<ExtractionRow[]>([]);
+  const [ranTemplate, setRanTemplate] = useState<ExtractionTemplate | null>(null); // Columns of the rows shown
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const selected = templates.find(t => t.id === templateId);
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    setNotice(null);
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setFields(template.fields.map(field => ({ ...field })));
+    setMultiple(template.multiple);
+    setTemplateName(template.builtIn ? '' : template.name);
+  };
+
+  // Any edit turns the template into a custom one, until it is saved.
+  const updateFields = (next: ExtractionField[]) => {
+    setFields(next);
+    setTemplateId(CUSTOM);
+  };
+
+  const updateField = (index: number, patch: Partial<ExtractionField>) =>
+    updateFields(fields.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+
+  const handleSave = () => {
+    try {
+      const saved = templateStore.save(templateName, fields, multiple);
+      setTemplates(templateStore.list());
+      setTemplateId(saved.id);
+      setNotice(`Saved "${saved.name}".`);
+    } catch (error) {
+      setNotice(error instanceof InvalidTemplateError ? error.message : 'Could not save the template.');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    templateStore.delete(selected.id);
+    setTemplates(templateStore.list());
+    setTemplateId(CUSTOM);
+    setNotice(`Deleted "${selected.name}".`);
+  };
+
+  const handleRun = async () => {
+    const template: ExtractionTemplate = {
+      id: selected?.id || CUSTOM,
+      name: selected?.name || templateName.trim() || 'Extraction',
+      fields: fields.map(field => ({ ...field, name: field.name.trim() })),
+      multiple,
+    };
+    try {
+      validateFields(template.fields);
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Check the fields.');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setNotice(null);
+    setRows([]);
+    setRanTemplate(template);
+
+    const pages = allPages ? source.pages : source.pages.slice(0, 1);
+    try {
+      const result = await extractFromPages(pages, template, (next, partial) => {
+        setProgress(next);
+        setRows([...partial]);
+      }, controller.signal);
+      if (controller.signal.aborted) return;
+      const failed = result.filter(row => row.error);
+      if (failed.length === pages.length && failed[0]) {
+        setNotice(failed[0].error || 'Extraction failed.');
+      }
+    } catch (error) {
+      setNotice(error instanceof ProviderNotConfiguredError || error instanceof InvalidTemplateError ? error.message : 'Extraction failed.');
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const download = (format: 'csv' | 'json') => {
+    if (!ranTemplate) return;
+    const name = `${source.title || sourceLabel(source.url)} ${ranTemplate.name}`;
+    if (format === 'csv') {
+      downloadFile(exportFileName(name, 'csv'), rowsToCsv(rows, ranTemplate.fields), 'text/csv');
+    } else {
+      downloadFile(exportFileName(name, 'json'), rowsToJson(rows, ranTemplate), 'application/json');
+    }
+  };
+
+  const pageCount = allPages ? source.pages.length : 1;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm animate-fade-up" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-charcoal rounded-[2rem] shadow-2xl dark:shadow-black/60 border border-white/20 dark:border-white/5 p-6 md:p-8 gap-6 overflow-y-auto scrollbar-hide"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 font-serif text-2xl text-slate-900 dark:text-white">
+            <Table2 size={20} className="text-primary-500" />
+            Extract
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+            aria-label="Close extraction"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Template */}
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <Field label="Template">
+              <select value={templateId} onChange={(e) => selectTemplate(e.target.value)} disabled={isRunning} className={inputClass}>
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                <option value={CUSTOM}>Custom fields</option>
+              </select>
+            </Field>
+          </div>
+          {selected && !selected.builtIn && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isRunning}
+              className="p-2.5 rounded-xl text-slate-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-500/10 disabled:opacity-40 transition-colors"
+              title="Delete this template"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+
+        {/* Fields */}
+        <div className="space-y-2">
+          <div className="hidden md:grid grid-cols-[10rem_8rem_1fr_2rem] gap-2 text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">
+            <span>Field</span>
+            <span>Type</span>
+            <span>What to look for</span>
+          </div>
+          {fields.map((field, i) => (
+            <div key={i} className="grid grid-cols-2 md:grid-cols-[10rem_8rem_1fr_2rem] gap-2 items-center">
+              <input
+                value={field.name}
+                onChange={(e) => updateField(i, { name: e.target.value })}
+                placeholder="price"
+                disabled={isRunning}
+                className={`${inputClass} font-mono`}
+                aria-label="Field name"
+              />
+              <select
+                value={field.type}
+                onChange={(e) => updateField(i, { type: e.target.value as ExtractionFieldType })}
+                disabled={isRunning}
+                className={inputClass}
+                aria-label="Field type"
+              >
+                {FIELD_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+              </select>
+              <input
+                value={field.description}
+                onChange={(e) => updateField(i, { description: e.target.value })}
+                placeholder="Optional, e.g. Price in USD without currency symbol"
+                disabled={isRunning}
+                className={`${inputClass} col-span-2 md:col-span-1`}
+                aria-label="Field description"
+              />
+              <button
+                type="button"
+                onClick={() => updateFields(fields.filter((_, j) => j !== i))}
+                disabled={isRunning || fields.length === 1}
+                className="p-2 rounded-full text-slate-400 hover:text-rose-600 disabled:opacity-30 transition-colors"
+                aria-label="Remove field"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-1">
+            <button
+              type="button"
+              onClick={() => updateFields([...fields, emptyField()])}
+              disabled={isRunning}
+              className="flex items-center gap-1.5 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4 disabled:opacity-40"
+            >
+              <Plus size={14} />
+              Add field
+            </button>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={multiple}
+                onChange={(e) => {
+                  setMultiple(e.target.checked);
+                  setTemplateId(CUSTOM);
+                }}
+                disabled={isRunning}
+                className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+              />
+              Each page lists several items
+            </label>
+          </div>
+        </div>
+
+        {/* Save as template */}
+        {templateId === CUSTOM && (
+          <div className="flex items-center gap-2">
+            <input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+              disabled={isRunning}
+              className={`${inputClass} max-w-xs`}
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isRunning || !templateName.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium border border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 disabled:opacity-40 transition-colors"
+            >
+              <Save size={14} />
+              Save template
+            </button>
+          </div>
+        )}
+
+        {/* Run */}
+        <div className="flex flex-wrap items-end gap-3 pt-4 border-t border-slate-100 dark:border-white/5">
+          {sources.length > 1 && (
+            <div className="w-56">
+              <Field label="Source">
+                <select value={sourceUrl} onChange={(e) => setSourceUrl(e.target.value)} disabled={isRunning} className={inputClass}>
+                  {sources.map(s => <option key={s.url} value={s.url}>{s.title || sourceLabel(s.url)}</option>)}
+                </select>
+              </Field>
+            </div>
+          )}
+          {source.pages.length > 1 && (
+            <div className="w-56">
+              <Field label="Pages">
+                <select value={allPages ? 'all' : 'first'} onChange={(e) => setAllPages(e.target.value === 'all')} disabled={isRunning} className={inputClass}>
+                  <option value="all">Every page ({source.pages.length})</option>
+                  <option value="first">Entry page only</option>
+                </select>
+              </Field>
+            </div>
+          )}
+          {isRunning ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-sm font-medium hover:opacity-90 transition-opacity"
+            >
+              <Square size={12} fill="currentColor" />
+              Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleRun}
+              className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-sm font-medium hover:opacity-90 transition-opacity"
+            >
+              <Play size={14} />
+              Extract from {pageCount} page{pageCount === 1 ? '' : 's'}
+            </button>
+          )}
+          {progress && (
+            <span className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400 min-w-0">
+              <Loader2 size={14} className="shrink-0 animate-spin" />
+              <span className="truncate">{progress.done} of {progress.total}{progress.currentUrl ? ` · ${progress.currentUrl}` : ''}</span>
+            </span>
+          )}
+          {notice && !progress && <span className="text-sm text-slate-500 dark:text-slate-400">{notice}</span>}
+        </div>
+
+        {/* Results */}
+        {ranTemplate && rows.length > 0 && (
+          <div className="space-y-3">
+            <div className="overflow-auto max-h-[40vh] rounded-xl border border-slate-100 dark:border-white/5">
+              <table className="w-full text-sm text-left">
+                <thead className="sticky top-0 bg-slate-50 dark:bg-charcoal text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Page</th>
+                    {ranTemplate.fields.map(field => (
+                      <th key={field.name} className="px-3 py-2 font-medium font-mono normal-case">{field.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-white/5 text-slate-700 dark:text-slate-200">
+                  {rows.map((row, i) => (
+                    <tr key={i} className="align-top">
+                      <td className="px-3 py-2 max-w-[12rem] truncate text-slate-500 dark:text-slate-400" title={row.url}>{row.pageTitle}</td>
+                      {row.error ? (
+                        <td colSpan={ranTemplate.fields.length} className="px-3 py-2 text-rose-600 dark:text-rose-300">{row.error}</td>
+                      ) : (
+                        ranTemplate.fields.map(field => (
+                          <td key={field.name} className="px-3 py-2">
+                            {row.values[field.name] === null
+                              ? <span className="text-slate-300 dark:text-slate-600">—</span>
+                              : formatValue(row.values[field.name])}
+                          </td>
+                        ))
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-slate-500 dark:text-slate-400">{rows.filter(row => !row.error).length} rows</span>
+              <button
+                type="button"
+                onClick={() => download('csv')}
+                disabled={isRunning}
+                className="flex items-center gap-1.5 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4 disabled:opacity-40"
+              >
+                <Download size={14} />
+                CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => download('json')}
+                disabled={isRunning}
+                className="flex items-center gap-1.5 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4 disabled:opacity-40"
+              >
+                <Download size={14} />
+                JSON
+              </button>
+            </div>
+          </div>
+        )}
+        {ranTemplate && rows.length === 0 && !isRunning && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No items found.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExtractPanel;
@@ -1,20 +1,97 @@
-import React from 'react';
-import { User, BookOpen } from 'lucide-react';
+import React, { useState } from 'react';
+import { User, BookOpen, ExternalLink, AlertCircle, AlertTriangle, ChevronLeft, ChevronRight, Pencil, RotateCcw } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { ChatMessage } from '../types';
+import { ChatMessage, Citation } from '../types';
+import { buildTextFragmentUrl, CITE_HREF_PREFIX } from '../services/citationService';
+import { isWebUrl } from '../services/scraperService';
+import { branchPosition } from '../services/branchService';
+import { formatTokens } from '../services/usageService';
 
 interface MessageBubbleProps {
   message: ChatMessage;
+  onCitationClick?: (citation: Citation) => void; // Shows the cited passage in the reader
+  onEdit?: (text: string) => void; // Re-asks an edited question as a new branch
+  onRegenerate?: () => void; // Only offered on the latest answer
+  onRetry?: () => void; // Only offered on a failed latest answer
+  onSwitchBranch?: (direction: -1 | 1) => void; // Unset while an answer is being generated
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const actionClass = "flex items-center gap-1 text-xs text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 disabled:opacity-40 transition-colors";
+
+const BranchNav: React.FC<{ current: number; total: number; onSwitch?: (direction: -1 | 1) => void }> = ({ current, total, onSwitch }) => (
+  <div className="flex items-center gap-0.5 text-xs text-slate-400 tabular-nums">
+    <button type="button" onClick={() => onSwitch?.(-1)} disabled={!onSwitch || current === 1} className={actionClass} aria-label="Previous version">
+      <ChevronLeft size={14} />
+    </button>
+    <span>{current} / {total}</span>
+    <button type="button" onClick={() => onSwitch?.(1)} disabled={!onSwitch || current === total} className={actionClass} aria-label="Next version">
+      <ChevronRight size={14} />
+    </button>
+  </div>
+);
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCitationClick, onEdit, onRegenerate, onRetry, onSwitchBranch }) => {
   const isUser = message.role === 'user';
+  const isError = message.status === 'error';
+  const citations = message.citations || [];
+  const [openCitation, setOpenCitation] = useState<number | null>(null);
+  const [draft, setDraft] = useState<string | null>(null); // Set while editing
+  const branch = branchPosition(message);
+
+  const submitEdit = () => {
+    const text = draft?.trim();
+    if (!text || !onEdit) return;
+    setDraft(null);
+    if (text !== message.content) onEdit(text);
+  };
+
+  const toggleCitation = (index: number) => {
+    const citation = citations.find(c => c.index === index);
+    if (citation && openCitation !== index) onCitationClick?.(citation);
+    setOpenCitation(current => (current === index ? null : index));
+  };
+
+  const markdownComponents = {
+    a: ({ href, children }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+      if (href?.startsWith(CITE_HREF_PREFIX)) {
+        const index = Number(href.slice(CITE_HREF_PREFIX.length));
+        return (
+          <button
+            type="button"
+            onClick={() => toggleCitation(index)}
+            className={`inline-flex items-center justify-center align-super text-[10px] font-semibold min-w-[1.25rem] h-4 px-1 mx-0.5 rounded-full transition-colors ${
+              openCitation === index
+                ? 'bg-primary-600 text-white'
+                : 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300 hover:bg-primary-200 dark:hover:bg-primary-800/60'
+            }`}
+            aria-label={`Show source ${index}`}
+          >
+            {children}
+          </button>
+        );
+      }
+      return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+  };
+
+  const activeCitation = citations.find(c => c.index === openCitation);
+
+  // System notes (e.g. a source joining the workspace) are shown inline, not as a bubble.
+  if (message.role === 'system') {
+    return (
+      <div className="flex justify-center animate-fade-up">
+        <div className="text-xs text-slate-500 dark:text-slate-400 bg-slate-100/70 dark:bg-white/5 px-4 py-1.5 rounded-full [&_p]:inline">
+          <ReactMarkdown>{message.content}</ReactMarkdown>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div
       className={`flex w-full ${
         isUser ? 'justify-end' : 'justify-start'
-      } animate-fade-up group`}
+      } animate-fade-up group print:break-inside-avoid`}
     >
       <div
         className={`flex max-w-[90%] md:max-w-[80%] gap-4 ${
@@ -37,17 +114,176 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           className={`relative px-6 py-5 rounded-2xl shadow-sm text-base leading-relaxed border transition-colors duration-300 ${
             isUser
               ? 'bg-white dark:bg-white/10 text-slate-800 dark:text-slate-100 border-slate-100 dark:border-white/5 rounded-tr-none'
-              : 'bg-white dark:bg-white/5 text-slate-800 dark:text-slate-200 border-slate-100 dark:border-white/5 rounded-tl-none'
-          }`}
+              : isError
+                ? 'bg-rose-50 dark:bg-rose-500/10 text-rose-800 dark:text-rose-200 border-rose-100 dark:border-rose-500/20 rounded-tl-none'
+                : 'bg-white dark:bg-white/5 text-slate-800 dark:text-slate-200 border-slate-100 dark:border-white/5 rounded-tl-none'
+          } ${draft !== null ? 'w-full md:min-w-[28rem]' : ''}`}
         >
-          {isUser ? (
+          {isUser && message.focus && (
+            <blockquote className="mb-3 text-sm italic text-slate-500 dark:text-slate-400 border-l-2 border-primary-400 pl-3 line-clamp-3">
+              {message.focus.kind === 'changes' ? message.focus.title : `"${message.focus.text}"`}
+            </blockquote>
+          )}
+          {draft !== null ? (
+            <div className="space-y-3">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === 'Escape') {
+                    setDraft(null);
+                  }
+                }}
+                autoFocus
+                rows={Math.min(8, draft.split('\n').length + 1)}
+                className="block w-full resize-none bg-transparent font-sans focus:outline-none"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={submitEdit}
+                  disabled={!draft.trim()}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:opacity-90 disabled:opacity-50 transition-opacity"
+                >
+                  Send
+                </button>
+              </div>
+            </div>
+          ) : isUser ? (
             <p className="whitespace-pre-wrap font-sans">{message.content}</p>
+          ) : isError ? (
+            <p className="flex items-start gap-2 text-sm font-sans">
+              <AlertCircle size={16} className="shrink-0 mt-0.5" />
+              <span>{message.content}</span>
+            </p>
           ) : (
             <div className="markdown-content font-sans prose prose-sm dark:prose-invert max-w-none prose-p:leading-7 prose-headings:font-serif prose-headings:font-medium prose-a:text-primary-600 dark:prose-a:text-primary-400 prose-strong:font-semibold">
-               <ReactMarkdown>{message.content}</ReactMarkdown>
+               <ReactMarkdown components={markdownComponents}>{message.content}</ReactMarkdown>
+               {message.status === 'streaming' && (
+                 <span className="inline-block w-2 h-4 align-text-bottom bg-primary-400 animate-pulse rounded-sm" />
+               )}
+               {message.status === 'stopped' && (
+                 <p className="text-xs italic text-slate-400 dark:text-slate-500 not-prose">Stopped generating.</p>
+               )}
+            </div>
+          )}
+
+          {/* Citations */}
+          {!isUser && citations.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-slate-100 dark:border-white/5 space-y-2">
+              {activeCitation && (
+                <div className="animate-fade-up rounded-xl bg-slate-50 dark:bg-black/20 border border-slate-100 dark:border-white/5 p-4">
+                  {activeCitation.source && (
+                    <p className="mb-2 text-[11px] font-semibold uppercase tracking-wide text-primary-600 dark:text-primary-400 truncate">
+                      {activeCitation.source}
+                    </p>
+                  )}
+                  <blockquote className="text-sm italic text-slate-600 dark:text-slate-300 border-l-2 border-primary-400 pl-3">
+                    "{activeCitation.quote}"
+                  </blockquote>
+                  {isWebUrl(activeCitation.url) ? (
+                    <a
+                      href={buildTextFragmentUrl(activeCitation.url, activeCitation.quote)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-3 flex items-center gap-1.5 text-xs font-mono text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                    >
+                      <ExternalLink size={10} />
+                      <span className="truncate">{activeCitation.title}</span>
+                    </a>
+                  ) : (
+                    <span className="mt-3 block text-xs font-mono text-slate-400 truncate">{activeCitation.title}</span>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1.5">
+                {citations.map(citation => (
+                  <button
+                    key={citation.index}
+                    type="button"
+                    onClick={() => toggleCitation(citation.index)}
+                    className={`text-[11px] px-2 py-0.5 rounded-full border transition-colors max-w-[14rem] truncate ${
+                      openCitation === citation.index
+                        ? 'border-primary-400 text-primary-700 dark:text-primary-300'
+                        : 'border-slate-200 dark:border-white/10 text-slate-500 dark:text-slate-400 hover:border-primary-300'
+                    }`}
+                    title={citation.source ? `${citation.source}: ${citation.title}` : citation.title}
+                  >
+                    {citation.index}. {citation.title}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
-          
+
+          {/* Usage and context coverage */}
+          {!isUser && (message.usage || message.context) && (
+            <div className="mt-3 space-y-1 text-[11px] text-slate-400 dark:text-slate-500 print:hidden">
+              {message.context && message.context.chars < message.context.totalChars && (
+                <p className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400" title="Only the passages most relevant to the question are sent to the model">
+                  <AlertTriangle size={11} className="shrink-0" />
+                  Based on {message.context.excerpts} of {message.context.totalExcerpts} passages
+                  ({Math.max(1, Math.round((message.context.chars / message.context.totalChars) * 100))}% of the content)
+                </p>
+              )}
+              {message.context?.trimmedMessages && (
+                <p className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
+                  <AlertTriangle size={11} className="shrink-0" />
+                  {message.context.trimmedMessages} earlier message{message.context.trimmedMessages === 1 ? '' : 's'} left out to save tokens
+                </p>
+              )}
+              {message.usage && (
+                <p className="tabular-nums" title={message.usage.estimated ? 'Estimated from the text length' : undefined}>
+                  {message.usage.estimated ? '~' : ''}{formatTokens(message.usage.promptTokens)} in · {message.usage.estimated ? '~' : ''}{formatTokens(message.usage.outputTokens)} out tokens
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Versions and actions */}
+          {draft === null && (branch || onEdit || onRegenerate || onRetry) && (
+            <div className={`mt-3 flex items-center gap-3 print:hidden ${isUser ? 'justify-end' : 'justify-start'}`}>
+              {branch && <BranchNav current={branch.current} total={branch.total} onSwitch={onSwitchBranch} />}
+              {onEdit && (
+                <button
+                  type="button"
+                  onClick={() => setDraft(message.content)}
+                  className={`${actionClass} opacity-0 group-hover:opacity-100 focus:opacity-100`}
+                  title="Edit and ask again"
+                >
+                  <Pencil size={12} />
+                  Edit
+                </button>
+              )}
+              {onRegenerate && (
+                <button type="button" onClick={onRegenerate} className={actionClass} title="Write this answer again">
+                  <RotateCcw size={12} />
+                  Regenerate
+                </button>
+              )}
+              {onRetry && (
+                <button
+                  type="button"
+                  onClick={onRetry}
+                  className="flex items-center gap-1 text-xs font-medium text-rose-700 dark:text-rose-300 hover:underline underline-offset-4"
+                >
+                  <RotateCcw size={12} />
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+
           <span className={`text-[10px] absolute -bottom-5 ${isUser ? 'right-0' : 'left-0'} text-slate-400 dark:text-slate-500 opacity-0 group-hover:opacity-100 transition-opacity`}>
             {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </span>
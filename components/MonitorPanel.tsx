@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, Loader2, RefreshCw, MessageCircleQuestion } from 'lucide-react';
+import { FocusedPassage, SiteDiff, Snapshot, WebsiteData } from '../types';
+import { snapshotStore } from '../services/storageService';
+import { countChanges, diffWebsites, formatDiff } from '../services/diffService';
+import { canMonitor, checkForChanges, MONITOR_INTERVALS } from '../services/monitorService';
+import { sourceLabel } from '../services/scraperService';
+
+interface MonitorPanelProps {
+  sessionId: string;
+  sources: WebsiteData[];
+  interval: number; // Minutes between scheduled checks, 0 = off
+  onIntervalChange: (minutes: number) => void;
+  onSourceUpdated: (url: string, data: WebsiteData, sections: number) => void;
+  onAsk: (question: string, focus: FocusedPassage) => void;
+  onClose: () => void;
+}
+
+const selectClass = "block w-full px-4 py-2.5 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors";
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">{label}</span>
+    {children}
+  </label>
+);
+
+const STATUS_STYLES: Record<string, string> = {
+  added: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-300',
+  removed: 'bg-rose-100 text-rose-700 dark:bg-rose-500/20 dark:text-rose-300',
+  changed: 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300',
+};
+
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+  <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${STATUS_STYLES[status]}`}>
+    {status}
+  </span>
+);
+
+const DiffView: React.FC<{ diff: SiteDiff }> = ({ diff }) => {
+  if (diff.pages.length === 0) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">No changes between these snapshots.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.pages.map(page => (
+        <div key={page.url} className="space-y-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <StatusBadge status={page.status} />
+            <span className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate" title={page.url}>{page.title}</span>
+          </div>
+          {page.sections.map(section => (
+            <div key={section.heading} className="ml-3 pl-3 border-l border-slate-200 dark:border-white/10 space-y-1.5">
+              <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                <StatusBadge status={section.status} />
+                <span className="truncate">{section.heading || 'Introduction'}</span>
+              </div>
+              {section.added.map((block, i) => (
+                <p key={`a${i}`} className="text-xs leading-relaxed px-2 py-1 rounded bg-emerald-50 dark:bg-emerald-500/10 text-emerald-800 dark:text-emerald-200 line-clamp-4">
+                  + {block}
+                </p>
+              ))}
+              {section.removed.map((block, i) => (
+                <p key={`r${i}`} className="text-xs leading-relaxed px-2 py-1 rounded bg-rose-50 dark:bg-rose-500/10 text-rose-800 dark:text-rose-200 line-through decoration-rose-300/60 line-clamp-4">
+                  − {block}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MonitorPanel: React.FC<MonitorPanelProps> = ({ sessionId, sources, interval, onIntervalChange, onSourceUpdated, onAsk, onClose }) => {
+  const monitored = sources.filter(canMonitor);
+  const [url, setUrl] = useState(monitored[0]?.url || '');
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const source = monitored.find(s => s.url === url);
+
+  // Compare the two most recent snapshots by default
+  const showLatest = (list: Snapshot[]) => {
+    setSnapshots(list);
+    setFromId(list[Math.max(0, list.length - 2)]?.id || '');
+    setToId(list[list.length - 1]?.id || '');
+  };
+
+  useEffect(() => {
+    if (!url) return;
+    setNotice(null);
+    snapshotStore.list(sessionId, url).then(showLatest).catch(error => {
+      console.error("Snapshot Error:", error);
+      setNotice('Could not load the snapshots for this source.');
+    });
+  }, [sessionId, url]);
+
+  const from = snapshots.find(s => s.id === fromId);
+  const to = snapshots.find(s => s.id === toId);
+  const diff = useMemo(() => (from && to && from !== to ? diffWebsites(from.data, to.data) : null), [from, to]);
+
+  const handleCheck = async () => {
+    if (!source) return;
+    setIsChecking(true);
+    setNotice(null);
+    try {
+      const result = await checkForChanges(sessionId, source);
+      const { sections } = countChanges(result.diff);
+      if (result.changed) {
+        onSourceUpdated(source.url, result.data, sections);
+        setNotice(`Found ${sections} changed section${sections === 1 ? '' : 's'}.`);
+      } else {
+        setNotice(`No changes since ${formatTime(result.previous.takenAt)}.`);
+      }
+      showLatest(await snapshotStore.list(sessionId, source.url));
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'The check failed.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleAsk = () => {
+    if (!diff || !from || !to || !source) return;
+    const title = source.title || sourceLabel(source.url);
+    onAsk(
+      `What changed on ${title} between ${formatTime(from.takenAt)} and ${formatTime(to.takenAt)}?`,
+      { url: source.url, title: `Changes to ${title}`, text: formatDiff(diff), kind: 'changes' }
+    );
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm animate-fade-up" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-charcoal rounded-[2rem] shadow-2xl dark:shadow-black/60 border border-white/20 dark:border-white/5 p-6 md:p-8 gap-6"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 font-serif text-2xl text-slate-900 dark:text-white">
+            <History size={20} className="text-primary-500" />
+            Changes
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+            aria-label="Close changes"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {monitored.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Uploaded files and pasted text can't be re-checked for changes.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {monitored.length > 1 && (
+                <Field label="Source">
+                  <select value={url} onChange={(e) => setUrl(e.target.value)} className={selectClass}>
+                    {monitored.map(s => (
+                      <option key={s.url} value={s.url}>{s.title || sourceLabel(s.url)}</option>
+                    ))}
+                  </select>
+                </Field>
+              )}
+              <Field label="Check automatically">
+                <select value={interval} onChange={(e) => onIntervalChange(Number(e.target.value))} className={selectClass}>
+                  {MONITOR_INTERVALS.map(option => (
+                    <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                  ))}
+                </select>
+              </Field>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={handleCheck}
+                disabled={isChecking || !source}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-sm font-medium hover:opacity-90 disabled:opacity-50 transition-opacity"
+              >
+                {isChecking ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                Check now
+              </button>
+              {notice && <span className="text-sm text-slate-500 dark:text-slate-400">{notice}</span>}
+            </div>
+
+            {snapshots.length < 2 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {snapshots.length === 0
+                  ? 'No snapshots yet.'
+                  : `One snapshot, taken ${formatTime(snapshots[0].takenAt)}. A new one is stored whenever a check finds changes.`}
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <Field label="From">
+                    <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                      {snapshots.map(s => <option key={s.id} value={s.id}>{formatTime(s.takenAt)}</option>)}
+                    </select>
+                  </Field>
+                  <Field label="To">
+                    <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                      {snapshots.map(s => <option key={s.id} value={s.id}>{formatTime(s.takenAt)}</option>)}
+                    </select>
+                  </Field>
+                </div>
+
+                <div className="flex-1 min-h-0 overflow-y-auto scrollbar-hide">
+                  {diff
+                    ? <DiffView diff={diff} />
+                    : <p className="text-sm text-slate-500 dark:text-slate-400">Pick two different snapshots to compare.</p>}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={handleAsk}
+                  disabled={!diff || diff.pages.length === 0}
+                  className="self-start flex items-center gap-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4 disabled:opacity-40 disabled:no-underline"
+                >
+                  <MessageCircleQuestion size={14} />
+                  Ask about these changes
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MonitorPanel;
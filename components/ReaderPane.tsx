@@ -0,0 +1,409 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { X, Search, ChevronUp, ChevronDown, TextQuote, Languages, Loader2 } from 'lucide-react';
+import { FocusedPassage, WebsiteData } from '../types';
+import { labelSources } from '../services/retrievalService';
+import { aiService } from '../services/aiService';
+import { detectLanguage, getAnswerLanguage, languageName, primaryLanguage } from '../services/languageService';
+
+export interface ReaderTarget {
+  url: string;
+  quote: string; // May be empty to just open the page
+  nonce: number; // Changes on every request, so clicking the same citation twice scrolls again
+}
+
+interface ReaderPaneProps {
+  sources: WebsiteData[];
+  target: ReaderTarget | null;
+  onAskAboutSelection: (passage: FocusedPassage) => void;
+  onClose: () => void;
+}
+
+const MIN_WIDTH = 280;
+const MAX_WIDTH = 900;
+const DEFAULT_WIDTH = 420;
+const WIDTH_KEY = 'readerWidth';
+
+// Names registered with the CSS Custom Highlight API; styled in index.html.
+const SEARCH_HIGHLIGHT = 'reader-search';
+const CURRENT_HIGHLIGHT = 'reader-current';
+const CITATION_HIGHLIGHT = 'reader-citation';
+
+// Pages translated this session, keyed by language and URL, so toggling back is instant.
+const translations = new Map<string, string>();
+
+interface Translation {
+  key: string;
+  text?: string; // Unset while translating
+  failed?: boolean;
+}
+
+/**
+ * The rendered text of the reader, flattened with whitespace collapsed and lowercased,
+ * plus the DOM position of every character so matches can be turned back into Ranges.
+ */
+interface TextMap {
+  text: string;
+  positions: { node: Text; offset: number }[];
+}
+
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, td, th, pre, blockquote, dt, dd';
+
+const mapText = (root: HTMLElement): TextMap => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let text = '';
+  const positions: TextMap['positions'] = [];
+  let previous: { node: Text; block: Element | null } | null = null;
+
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    // Adjacent blocks rarely carry whitespace of their own; make sure their words don't fuse.
+    const block = node.parentElement?.closest(BLOCK_SELECTOR) || null;
+    if (previous && previous.block !== block && text && !text.endsWith(' ')) {
+      text += ' ';
+      positions.push({ node: previous.node, offset: previous.node.data.length });
+    }
+    previous = { node, block };
+
+    const value = node.data;
+    for (let i = 0; i < value.length; i++) {
+      const isSpace = /\s/.test(value[i]);
+      if (isSpace && (text.length === 0 || text.endsWith(' '))) continue;
+      text += isSpace ? ' ' : value[i].toLowerCase();
+      positions.push({ node, offset: i });
+    }
+  }
+  return { text, positions };
+};
+
+const normalizeNeedle = (value: string): string => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const toRange = (map: TextMap, start: number, length: number): Range => {
+  const first = map.positions[start];
+  const last = map.positions[start + length - 1];
+  const range = document.createRange();
+  range.setStart(first.node, first.offset);
+  range.setEnd(last.node, Math.min(last.offset + 1, last.node.data.length));
+  return range;
+};
+
+const findAll = (map: TextMap, needle: string): number[] => {
+  const matches: number[] = [];
+  if (!needle) return matches;
+  for (let i = map.text.indexOf(needle); i !== -1; i = map.text.indexOf(needle, i + needle.length)) {
+    matches.push(i);
+  }
+  return matches;
+};
+
+/**
+ * Citation quotes come from the Markdown source; strip the syntax that doesn't survive rendering.
+ */
+const stripMarkdown = (text: string): string =>
+  text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~|]/g, '')
+    .replace(/…$/, '');
+
+/**
+ * Finds a citation quote in the rendered text, falling back to shorter and shorter
+ * prefixes when the rendering differs from the Markdown (tables, links, line breaks).
+ */
+const locateQuote = (map: TextMap, quote: string): Range | null => {
+  const words = normalizeNeedle(stripMarkdown(quote)).split(' ').filter(Boolean);
+  for (const count of [words.length, 12, 8, 5]) {
+    if (count > words.length) continue;
+    const needle = words.slice(0, count).join(' ');
+    const start = map.text.indexOf(needle);
+    if (start !== -1) return toRange(map, start, needle.length);
+  }
+  return null;
+};
+
+const supportsHighlights = (): boolean => typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+const setHighlight = (name: string, ranges: Range[]) => {
+  if (!supportsHighlights()) return;
+  if (ranges.length === 0) CSS.highlights.delete(name);
+  else CSS.highlights.set(name, new Highlight(...ranges));
+};
+
+const scrollToRange = (container: HTMLElement, range: Range) => {
+  const rect = range.getBoundingClientRect();
+  const box = container.getBoundingClientRect();
+  container.scrollTo({ top: container.scrollTop + rect.top - box.top - box.height / 3, behavior: 'smooth' });
+  if (!supportsHighlights()) {
+    // Without the highlight API, a selection is the next best way to show the passage.
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }
+};
+
+const ReaderPane: React.FC<ReaderPaneProps> = ({ sources, target, onAskAboutSelection, onClose }) => {
+  const pages = useMemo(() => {
+    const labels = labelSources(sources);
+    return sources.flatMap((source, i) =>
+      source.pages.map(page => ({ ...page, label: sources.length > 1 ? `${labels[i]} › ${page.title}` : page.title }))
+    );
+  }, [sources]);
+
+  const [pageUrl, setPageUrl] = useState(pages[0]?.url);
+  const [query, setQuery] = useState('');
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [matchCount, setMatchCount] = useState(0);
+  const [selection, setSelection] = useState<{ text: string; top: number; left: number } | null>(null);
+  const [width, setWidth] = useState(() => Number(localStorage.getItem(WIDTH_KEY)) || DEFAULT_WIDTH);
+  const paneRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translation, setTranslation] = useState<Translation | null>(null);
+  const answerLanguage = useMemo(getAnswerLanguage, []);
+
+  const page = pages.find(p => p.url === pageUrl) || pages[0];
+  const pageLanguage = useMemo(
+    () => page && (detectLanguage(page.content) || primaryLanguage(page.metadata?.language)),
+    [page]
+  );
+  const canTranslate = !!pageLanguage && pageLanguage !== answerLanguage;
+  const translationKey = page ? `${answerLanguage}:${page.url}` : '';
+  const shownTranslation = isTranslating && canTranslate && translation?.key === translationKey ? translation : null;
+  const isTranslated = shownTranslation?.text !== undefined;
+
+  // Switch to the cited page when a citation is clicked. Quotes are in the original, so
+  // the translation is closed to show them.
+  useEffect(() => {
+    if (target && pages.some(p => p.url === target.url)) {
+      setPageUrl(target.url);
+      setIsTranslating(false);
+    }
+  }, [target, pages]);
+
+  // Translate the page on request, once per page and language
+  useEffect(() => {
+    if (!isTranslating || !canTranslate || !page) return;
+    const cached = translations.get(translationKey);
+    if (cached !== undefined) {
+      setTranslation({ key: translationKey, text: cached });
+      return;
+    }
+
+    const controller = new AbortController();
+    setTranslation({ key: translationKey });
+    aiService.translatePage(page, answerLanguage, controller.signal)
+      .then(text => {
+        if (controller.signal.aborted) return;
+        translations.set(translationKey, text);
+        setTranslation({ key: translationKey, text });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error("Translation Error:", error);
+        setTranslation({ key: translationKey, failed: true });
+      });
+    return () => controller.abort();
+  }, [isTranslating, canTranslate, page, translationKey, answerLanguage]);
+
+  // Citation highlight
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content || !target?.quote.trim() || target.url !== page?.url) {
+      setHighlight(CITATION_HIGHLIGHT, []);
+      return;
+    }
+    const range = locateQuote(mapText(content), target.quote);
+    setHighlight(CITATION_HIGHLIGHT, range ? [range] : []);
+    if (range && scrollRef.current) scrollToRange(scrollRef.current, range);
+  }, [target, page, isTranslated]);
+
+  // Search highlights
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    const map = mapText(content);
+    const needle = normalizeNeedle(query);
+    const ranges = findAll(map, needle).map(start => toRange(map, start, needle.length));
+    setMatchCount(ranges.length);
+    setHighlight(SEARCH_HIGHLIGHT, ranges);
+
+    const current = ranges[Math.min(activeMatch, ranges.length - 1)];
+    setHighlight(CURRENT_HIGHLIGHT, current ? [current] : []);
+    if (current && scrollRef.current) scrollToRange(scrollRef.current, current);
+  }, [query, activeMatch, page, isTranslated]);
+
+  useEffect(() => () => {
+    [SEARCH_HIGHLIGHT, CURRENT_HIGHLIGHT, CITATION_HIGHLIGHT].forEach(name => setHighlight(name, []));
+  }, []);
+
+  const stepMatch = (delta: number) => {
+    if (matchCount === 0) return;
+    setActiveMatch(current => (current + delta + matchCount) % matchCount);
+  };
+
+  const handleMouseUp = () => {
+    const current = window.getSelection();
+    const text = current?.toString().trim();
+    if (!current || !text || !contentRef.current?.contains(current.anchorNode) || !paneRef.current) {
+      setSelection(null);
+      return;
+    }
+    const rect = current.getRangeAt(0).getBoundingClientRect();
+    const box = paneRef.current.getBoundingClientRect();
+    setSelection({ text, top: rect.bottom - box.top + 8, left: Math.max(8, rect.left - box.left) });
+  };
+
+  const handleAsk = () => {
+    if (!selection || !page) return;
+    onAskAboutSelection({ url: page.url, title: page.title, text: selection.text });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  const startResize = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = width;
+    const handle = e.currentTarget;
+    handle.setPointerCapture(e.pointerId);
+
+    const onMove = (event: PointerEvent) => {
+      setWidth(Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, startWidth + startX - event.clientX)));
+    };
+    const onUp = () => {
+      handle.removeEventListener('pointermove', onMove);
+      handle.removeEventListener('pointerup', onUp);
+      setWidth(current => {
+        localStorage.setItem(WIDTH_KEY, String(current));
+        return current;
+      });
+    };
+    handle.addEventListener('pointermove', onMove);
+    handle.addEventListener('pointerup', onUp);
+  };
+
+  if (!page) return null;
+
+  return (
+    <aside
+      ref={paneRef}
+      style={{ width }}
+      className="relative hidden md:flex flex-col shrink-0 border-l border-slate-100 dark:border-white/5 bg-white/60 dark:bg-white/[0.02] print:hidden"
+    >
+      {/* Resize Handle */}
+      <div
+        onPointerDown={startResize}
+        className="absolute left-0 top-0 bottom-0 w-1.5 -translate-x-1/2 cursor-col-resize hover:bg-primary-400/40 active:bg-primary-500/50 transition-colors z-10"
+        role="separator"
+        aria-orientation="vertical"
+        aria-label="Resize reader"
+      />
+
+      <div className="px-5 py-3 border-b border-slate-100 dark:border-white/5 space-y-2">
+        <div className="flex items-center gap-2">
+          {pages.length > 1 ? (
+            <select
+              value={page.url}
+              onChange={(e) => { setPageUrl(e.target.value); setActiveMatch(0); }}
+              className="flex-1 min-w-0 truncate bg-transparent text-sm font-medium text-slate-900 dark:text-white focus:outline-none"
+            >
+              {pages.map(p => <option key={p.url} value={p.url}>{p.label}</option>)}
+            </select>
+          ) : (
+            <h3 className="flex-1 min-w-0 truncate text-sm font-medium text-slate-900 dark:text-white">{page.title}</h3>
+          )}
+          {canTranslate && (
+            <button
+              onClick={() => setIsTranslating(value => !value)}
+              className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-[11px] font-medium transition-colors ${
+                isTranslating
+                  ? 'bg-primary-50 dark:bg-primary-500/10 text-primary-700 dark:text-primary-300'
+                  : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-white/10'
+              }`}
+              title={isTranslating ? `Show the original ${languageName(pageLanguage)}` : `Translate from ${languageName(pageLanguage)} into ${languageName(answerLanguage)}`}
+              aria-pressed={isTranslating}
+            >
+              <Languages size={12} />
+              {isTranslating ? 'Original' : 'Translate'}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+            aria-label="Close reader"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search size={12} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => { setQuery(e.target.value); setActiveMatch(0); }}
+              onKeyDown={(e) => e.key === 'Enter' && stepMatch(e.shiftKey ? -1 : 1)}
+              placeholder="Find in page..."
+              className="block w-full pl-8 pr-3 py-1.5 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-lg text-xs text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors"
+            />
+          </div>
+          {query.trim() && (
+            <span className="shrink-0 text-[10px] font-mono text-slate-400">
+              {matchCount === 0 ? '0/0' : `${Math.min(activeMatch, matchCount - 1) + 1}/${matchCount}`}
+            </span>
+          )}
+          <button onClick={() => stepMatch(-1)} disabled={matchCount === 0} className="p-1 rounded text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-40" aria-label="Previous match">
+            <ChevronUp size={14} />
+          </button>
+          <button onClick={() => stepMatch(1)} disabled={matchCount === 0} className="p-1 rounded text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-40" aria-label="Next match">
+            <ChevronDown size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} onMouseUp={handleMouseUp} onScroll={() => setSelection(null)} className="flex-1 overflow-y-auto px-5 py-4 scrollbar-hide">
+        {shownTranslation && (
+          <p className="mb-3 flex items-center gap-1.5 text-[11px] text-slate-400">
+            {shownTranslation.failed ? (
+              'The translation failed. Showing the original.'
+            ) : isTranslated ? (
+              `Machine translation from ${languageName(pageLanguage)}. Citations point to the original.`
+            ) : (
+              <><Loader2 size={12} className="animate-spin" /> Translating into {languageName(answerLanguage)}…</>
+            )}
+          </p>
+        )}
+        <div
+          ref={contentRef}
+          className="markdown-content font-sans prose prose-sm dark:prose-invert max-w-none prose-headings:font-serif prose-headings:font-medium prose-a:text-primary-600 dark:prose-a:text-primary-400"
+        >
+          <ReactMarkdown
+            components={{
+              a: ({ href, children }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => (
+                <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+              ),
+            }}
+          >
+            {isTranslated ? shownTranslation.text : page.content}
+          </ReactMarkdown>
+        </div>
+      </div>
+
+      {selection && (
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={handleAsk}
+          style={{ top: selection.top, left: selection.left }}
+          className="absolute z-20 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-medium shadow-lg animate-fade-up"
+        >
+          <TextQuote size={12} />
+          Ask about this selection
+        </button>
+      )}
+    </aside>
+  );
+};
+
+export default ReaderPane;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Code2, FileCode } from 'lucide-react';
+import { WebsiteData } from '../types';
+import { isWebUrl } from '../services/scraperService';
+
+interface RenderModeBadgeProps {
+  source: WebsiteData;
+  compact?: boolean; // Icon only, for source chips
+}
+
+/**
+ * Shows whether a web source was read from its static HTML or rendered in a headless browser.
+ */
+const RenderModeBadge: React.FC<RenderModeBadgeProps> = ({ source, compact }) => {
+  if (!isWebUrl(source.url)) return null;
+
+  const rendered = source.pages.filter(page => page.renderMode === 'rendered').length;
+  const title = rendered === 0
+    ? 'Read from the static HTML'
+    : rendered === source.pages.length
+      ? 'Rendered in a headless browser because the static HTML had too little text'
+      : `${rendered} of ${source.pages.length} pages were rendered in a headless browser`;
+
+  if (compact) {
+    return rendered > 0 ? <span title={title}><Code2 size={10} className="shrink-0 text-amber-500" /></span> : null;
+  }
+
+  return (
+    <span
+      className={`shrink-0 inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-sans font-medium uppercase tracking-wide ${
+        rendered > 0
+          ? 'bg-amber-100 text-amber-700 dark:bg-amber-500/15 dark:text-amber-300'
+          : 'bg-slate-100 text-slate-500 dark:bg-white/10 dark:text-slate-400'
+      }`}
+      title={title}
+    >
+      {rendered > 0 ? <Code2 size={10} /> : <FileCode size={10} />}
+      {rendered > 0 ? 'Rendered' : 'Static'}
+    </span>
+  );
+};
+
+export default RenderModeBadge;
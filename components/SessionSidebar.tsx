@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Search, Pencil, Trash2, Check, MessageSquare, Upload } from 'lucide-react';
+import { ChatSession } from '../types';
+import { sessionStore } from '../services/storageService';
+import { importSession, InvalidSessionExportError } from '../services/exportService';
+
+interface SessionSidebarProps {
+  activeSessionId: string | null;
+  onResume: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatRelative = (timestamp: number): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ activeSessionId, onResume, onDeleted, onClose }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const load = () => {
+      sessionStore.search(query)
+        .then(result => {
+          setSessions(result);
+          setLoadError(null);
+        })
+        .catch(() => setLoadError('Session history is unavailable in this browser.'));
+    };
+    load();
+    return sessionStore.subscribe(load);
+  }, [query]);
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const commitRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId) await sessionStore.rename(editingId, editTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: ChatSession) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    await sessionStore.delete(session.id);
+    onDeleted(session.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      onResume(await importSession(await file.text()));
+    } catch (error) {
+      setImportError(error instanceof InvalidSessionExportError
+        ? `Could not import ${file.name}: ${error.message}`
+        : `Could not import ${file.name}.`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex bg-black/20 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm h-full flex flex-col bg-white dark:bg-charcoal border-r border-slate-100 dark:border-white/5 shadow-2xl animate-fade-up"
+      >
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h2 className="font-serif text-2xl text-slate-900 dark:text-white">History</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+              title="Import a conversation exported as JSON"
+              aria-label="Import conversation"
+            >
+              <Upload size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+              aria-label="Close history"
+            >
+              <X size={18} />
+            </button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {importError && (
+          <p className="mx-6 mb-4 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-400">{importError}</p>
+        )}
+
+        <div className="px-6 pb-4">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search sessions..."
+              className="block w-full pl-9 pr-4 py-2.5 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-3 pb-6 scrollbar-hide">
+          {loadError && <p className="px-3 text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+          {!loadError && sessions.length === 0 && (
+            <p className="px-3 text-sm text-slate-400">{query ? 'No matching sessions.' : 'No saved sessions yet.'}</p>
+          )}
+
+          <ul className="space-y-1">
+            {sessions.map(session => (
+              <li key={session.id}>
+                {editingId === session.id ? (
+                  <form onSubmit={commitRename} className="flex items-center gap-2 px-3 py-2">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className="flex-1 px-3 py-1.5 bg-white dark:bg-white/5 border border-primary-400 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none"
+                    />
+                    <button type="submit" className="p-1.5 rounded-full text-primary-600 dark:text-primary-400 hover:bg-slate-100 dark:hover:bg-white/10" aria-label="Save name">
+                      <Check size={14} />
+                    </button>
+                  </form>
+                ) : (
+                  <div
+                    onClick={() => onResume(session.id)}
+                    className={`group flex items-start gap-3 px-3 py-3 rounded-xl cursor-pointer transition-colors ${
+                      session.id === activeSessionId
+                        ? 'bg-primary-50 dark:bg-primary-900/20'
+                        : 'hover:bg-slate-50 dark:hover:bg-white/5'
+                    }`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-slate-900 dark:text-gray-100 truncate">{session.title}</p>
+                      <p className="flex items-center gap-2 text-xs text-slate-400 mt-0.5">
+                        <span className="font-mono truncate">{session.hostname}</span>
+                        <span className="shrink-0">· {formatRelative(session.updatedAt)}</span>
+                        <span className="shrink-0 flex items-center gap-0.5"><MessageSquare size={10} />{session.messageCount}</span>
+                      </p>
+                    </div>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                        className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-white/10"
+                        aria-label="Rename session"
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                        className="p-1.5 rounded-full text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-white dark:hover:bg-white/10"
+                        aria-label="Delete session"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { getProviderSettings, saveProviderSettings } from '../services/llmProvider';
+import { ProviderId, ProviderSettings } from '../services/providers/types';
+import { getRenderSettings, saveRenderSettings } from '../services/scraperService';
+import { getSearchMode, saveSearchMode } from '../services/searchProvider';
+import { SearchMode } from '../services/search/types';
+import { getAnswerLanguage, languageName, LANGUAGES, saveAnswerLanguage } from '../services/languageService';
+import { RenderSettings } from '../types';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const inputClass = "block w-full px-4 py-2.5 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors";
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-slate-400 dark:text-slate-500">{hint}</span>}
+  </label>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<ProviderSettings>(getProviderSettings);
+  const [render, setRender] = useState<RenderSettings>(getRenderSettings);
+  const [searchMode, setSearchMode] = useState<SearchMode>(getSearchMode);
+  const [answerLanguage, setAnswerLanguage] = useState(getAnswerLanguage);
+
+  const setProvider = (provider: ProviderId) => setSettings({ ...settings, provider });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveProviderSettings(settings);
+    saveRenderSettings(render);
+    saveSearchMode(searchMode);
+    saveAnswerLanguage(answerLanguage);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm animate-fade-up" onClick={onClose}>
+      <form
+        onSubmit={handleSave}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto scrollbar-hide bg-white dark:bg-charcoal rounded-[2rem] shadow-2xl dark:shadow-black/60 border border-white/20 dark:border-white/5 p-6 md:p-8 space-y-6"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-serif text-2xl text-slate-900 dark:text-white">AI Provider</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+            aria-label="Close settings"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex p-1.5 gap-1.5 bg-slate-100/50 dark:bg-black/20 rounded-2xl">
+          {([['gemini', 'Google Gemini'], ['openai', 'OpenAI-compatible']] as [ProviderId, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setProvider(id)}
+              className={`flex-1 py-2.5 text-sm font-medium rounded-xl transition-all duration-300 ${
+                settings.provider === id
+                  ? 'bg-white dark:bg-white/10 text-slate-900 dark:text-white shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {settings.provider === 'gemini' ? (
+          <div className="space-y-4">
+            <Field label="API Key">
+              <input
+                type="password"
+                value={settings.gemini.apiKey}
+                onChange={(e) => setSettings({ ...settings, gemini: { ...settings.gemini, apiKey: e.target.value } })}
+                placeholder="AIza..."
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Model">
+              <input
+                type="text"
+                value={settings.gemini.model}
+                onChange={(e) => setSettings({ ...settings, gemini: { ...settings.gemini, model: e.target.value } })}
+                className={inputClass}
+              />
+            </Field>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Field label="Base URL" hint="Ollama: http://localhost:11434/v1 · llama.cpp: http://localhost:8080/v1">
+              <input
+                type="url"
+                value={settings.openai.baseUrl}
+                onChange={(e) => setSettings({ ...settings, openai: { ...settings.openai, baseUrl: e.target.value } })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Model">
+              <input
+                type="text"
+                value={settings.openai.model}
+                onChange={(e) => setSettings({ ...settings, openai: { ...settings.openai, model: e.target.value } })}
+                placeholder="llama3.1"
+                className={inputClass}
+              />
+            </Field>
+            <Field label="API Key" hint="Leave empty for local servers that don't require one.">
+              <input
+                type="password"
+                value={settings.openai.apiKey}
+                onChange={(e) => setSettings({ ...settings, openai: { ...settings.openai, apiKey: e.target.value } })}
+                className={inputClass}
+              />
+            </Field>
+          </div>
+        )}
+
+        <div className="space-y-4 pt-6 border-t border-slate-100 dark:border-white/5">
+          <h3 className="font-serif text-xl text-slate-900 dark:text-white">JavaScript Rendering</h3>
+          <Field label="Render pages" hint="Rendering loads the page in a headless browser on the fetch backend. It needs Playwright and Chromium installed there.">
+            <select
+              value={render.mode}
+              onChange={(e) => setRender({ ...render, mode: e.target.value as RenderSettings['mode'] })}
+              className={inputClass}
+            >
+              <option value="auto">When the static page has too little text</option>
+              <option value="always">Always</option>
+              <option value="never">Never</option>
+            </select>
+          </Field>
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Wait until">
+              <select
+                value={render.waitUntil}
+                onChange={(e) => setRender({ ...render, waitUntil: e.target.value as RenderSettings['waitUntil'] })}
+                className={inputClass}
+              >
+                <option value="networkidle">Network is idle</option>
+                <option value="load">Page has loaded</option>
+                <option value="domcontentloaded">HTML is parsed</option>
+              </select>
+            </Field>
+            <Field label="Extra delay (ms)">
+              <input
+                type="number"
+                min={0}
+                max={10000}
+                step={250}
+                value={render.delayMs}
+                onChange={(e) => setRender({ ...render, delayMs: Math.max(0, Math.min(10000, Number(e.target.value) || 0)) })}
+                className={inputClass}
+              />
+            </Field>
+          </div>
+          <Field label="Wait for element" hint="Optional CSS selector that appears once the content has rendered.">
+            <input
+              type="text"
+              value={render.waitForSelector}
+              onChange={(e) => setRender({ ...render, waitForSelector: e.target.value })}
+              placeholder="main article"
+              className={inputClass}
+            />
+          </Field>
+        </div>
+
+        <div className="space-y-4 pt-6 border-t border-slate-100 dark:border-white/5">
+          <h3 className="font-serif text-xl text-slate-900 dark:text-white">Discover Search</h3>
+          <Field label="Search with" hint="The search backend uses SearXNG, Brave or Bing, as configured on the server. Google Search needs a Gemini API key.">
+            <select value={searchMode} onChange={(e) => setSearchMode(e.target.value as SearchMode)} className={inputClass}>
+              <option value="auto">Search backend, or Google Search if none is configured</option>
+              <option value="backend">Search backend only</option>
+              <option value="gemini">Google Search via Gemini</option>
+            </select>
+          </Field>
+        </div>
+
+        <div className="space-y-4 pt-6 border-t border-slate-100 dark:border-white/5">
+          <h3 className="font-serif text-xl text-slate-900 dark:text-white">Language</h3>
+          <Field label="Answer in" hint="Answers and briefings are written in this language, whatever language the website is in. Quotes keep their original wording, followed by a translation.">
+            <select value={answerLanguage} onChange={(e) => setAnswerLanguage(e.target.value)} className={inputClass}>
+              {Array.from(new Set([answerLanguage, ...LANGUAGES]))
+                .sort((a, b) => languageName(a).localeCompare(languageName(b)))
+                .map(code => <option key={code} value={code}>{languageName(code)}</option>)}
+            </select>
+          </Field>
+        </div>
+
+        <p className="text-xs text-slate-400 dark:text-slate-500">
+          Settings are stored in this browser only.
+        </p>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="inline-flex items-center gap-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-6 py-3 rounded-full text-sm font-medium transition-all hover:scale-105 active:scale-95 shadow-md"
+          >
+            <Save size={16} />
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X, Plus, Loader2, Link as LinkIcon, FileText, AlertCircle } from 'lucide-react';
+import { WebsiteData } from '../types';
+import { isWebUrl, MAX_WORKSPACE_SOURCES, sourceLabel } from '../services/scraperService';
+import RenderModeBadge from './RenderModeBadge';
+
+interface SourceBarProps {
+  sources: WebsiteData[];
+  isAdding: boolean; // Whether the add-URL form is open
+  disabled?: boolean; // While an answer is being generated
+  onAdd: (url: string) => Promise<string | undefined>; // Resolves with an error message on failure
+  onRemove: (url: string) => void;
+  onCloseAdd: () => void;
+}
+
+const SourceBar: React.FC<SourceBarProps> = ({ sources, isAdding, disabled, onAdd, onRemove, onCloseAdd }) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    const failure = await onAdd(url.trim());
+    setIsLoading(false);
+    if (failure) {
+      setError(failure);
+    } else {
+      setUrl('');
+      onCloseAdd();
+    }
+  };
+
+  return (
+    <div className="px-4 md:px-6 py-3 border-b border-slate-100 dark:border-white/5 bg-white/30 dark:bg-white/[0.02] space-y-2 shrink-0">
+      {sources.length > 1 && (
+        <ul className="flex flex-wrap gap-2">
+          {sources.map(source => (
+            <li
+              key={source.url}
+              className="flex items-center gap-1.5 max-w-[16rem] pl-3 pr-1 py-1 rounded-full bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 text-xs"
+              title={source.metadata?.description || source.url}
+            >
+              {isWebUrl(source.url) ? (
+                <a
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 min-w-0 text-slate-600 dark:text-slate-300 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                >
+                  <LinkIcon size={10} className="shrink-0" />
+                  <span className="truncate">{source.title || sourceLabel(source.url)}</span>
+                  <RenderModeBadge source={source} compact />
+                </a>
+              ) : (
+                <span className="flex items-center gap-1.5 min-w-0 text-slate-600 dark:text-slate-300">
+                  <FileText size={10} className="shrink-0" />
+                  <span className="truncate">{source.title || sourceLabel(source.url)}</span>
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => onRemove(source.url)}
+                disabled={disabled}
+                className="p-1 rounded-full text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-slate-100 dark:hover:bg-white/10 disabled:opacity-40 transition-colors"
+                aria-label={`Remove ${source.title || sourceLabel(source.url)}`}
+              >
+                <X size={10} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 animate-fade-up print:hidden">
+          <input
+            autoFocus
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onCloseAdd()}
+            placeholder={`Add a website to compare (up to ${MAX_WORKSPACE_SOURCES} sources)...`}
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !url.trim()}
+            className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-sm font-medium disabled:opacity-50 transition-all"
+          >
+            {isLoading ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+            <span>{isLoading ? 'Reading...' : 'Add'}</span>
+          </button>
+          <button
+            type="button"
+            onClick={onCloseAdd}
+            className="p-2 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+            aria-label="Cancel"
+          >
+            <X size={14} />
+          </button>
+        </form>
+      )}
+
+      {isAdding && error && (
+        <p className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle size={12} />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SourceBar;
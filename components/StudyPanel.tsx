@@ -0,0 +1,460 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, GraduationCap, Play, Square, Loader2, Check, CircleX, Layers, Trash2, BookOpenText } from 'lucide-react';
+import { AnswerGrade, Flashcard, FlashcardRating, QuizQuestion, QuizQuestionKind, WebsiteData } from '../types';
+import { aiService } from '../services/aiService';
+import { addFlashcards, dueCards, flashcardStore, formatDelay, previewDelay, reviewCard } from '../services/studyService';
+import { sourceLanguages } from '../services/languageService';
+import { ProviderNotConfiguredError } from '../services/llmProvider';
+import { RetrievalIndex } from '../services/retrievalService';
+
+interface StudyPanelProps {
+  sources: WebsiteData[];
+  getIndex: () => Promise<RetrievalIndex>;
+  onShowInPage: (url: string, quote?: string) => void; // Opens the page in the reader
+  onClose: () => void;
+}
+
+type StudyTab = 'quiz' | 'cards';
+type QuizKindChoice = 'mixed' | QuizQuestionKind;
+
+interface QuizAnswer {
+  choice?: number; // Multiple choice
+  text?: string; // Short answer, as submitted
+  grade?: AnswerGrade;
+  isGrading?: boolean;
+  error?: string;
+}
+
+const inputClass = "block w-full px-3 py-2 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors";
+
+const primaryButtonClass = "flex items-center gap-2 px-4 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-sm font-medium hover:opacity-90 disabled:opacity-40 transition-opacity";
+
+const RATINGS: { rating: FlashcardRating; label: string }[] = [
+  { rating: 'again', label: 'Again' },
+  { rating: 'hard', label: 'Hard' },
+  { rating: 'good', label: 'Good' },
+  { rating: 'easy', label: 'Easy' },
+];
+
+const VERDICT_LABELS: Record<AnswerGrade['verdict'], string> = {
+  correct: 'Correct',
+  'partially-correct': 'Partly correct',
+  incorrect: 'Not quite',
+};
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ProviderNotConfiguredError ? error.message : fallback;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">{label}</span>
+    {children}
+  </label>
+);
+
+// The first sentence or so of an excerpt, enough for the reader to find it.
+const quoteOf = (text: string): string => text.split(/(?<=[.!?])\s/)[0].slice(0, 200);
+
+const StudyPanel: React.FC<StudyPanelProps> = ({ sources, getIndex, onShowInPage, onClose }) => {
+  const [tab, setTab] = useState<StudyTab>('quiz');
+  const [topic, setTopic] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Quiz
+  const [questionCount, setQuestionCount] = useState(5);
+  const [kindChoice, setKindChoice] = useState<QuizKindChoice>('mixed');
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  // Flashcards
+  const [deck, setDeck] = useState<Flashcard[]>(() => flashcardStore.list(sources));
+  const [cardCount, setCardCount] = useState(10);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Cards relearned a few minutes ago come due while the panel is open
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const due = dueCards(deck, now);
+  const current = due[0];
+  const nextDue = deck.length > 0 && !current ? Math.min(...deck.map(card => card.due)) : null;
+
+  const run = async (work: (signal: AbortSignal) => Promise<void>, fallback: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWorking(true);
+    setNotice(null);
+    try {
+      await work(controller.signal);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Study Error:", error);
+        setNotice(errorMessage(error, fallback));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsWorking(false);
+    }
+  };
+
+  const handleGenerateQuiz = () => run(async signal => {
+    setQuestions([]);
+    setAnswers({});
+    setDrafts({});
+    const quiz = await aiService.generateQuiz(await getIndex(), {
+      count: questionCount,
+      kinds: kindChoice === 'mixed' ? ['multiple-choice', 'short-answer'] : [kindChoice],
+      topic,
+      sourceLanguages: sourceLanguages(sources),
+    }, signal);
+    if (signal.aborted) return;
+    setQuestions(quiz);
+    if (quiz.length === 0) setNotice('No questions came back. Try again, or pick a different topic.');
+  }, 'Could not write a quiz.');
+
+  const updateAnswer = (id: string, patch: QuizAnswer) =>
+    setAnswers(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const handleCheck = async (question: QuizQuestion) => {
+    const text = drafts[question.id]?.trim();
+    if (!text) return;
+    updateAnswer(question.id, { text, isGrading: true, error: undefined });
+    try {
+      const grade = await aiService.gradeAnswer(question, text);
+      updateAnswer(question.id, { grade, isGrading: false });
+    } catch (error) {
+      console.error("Grading Error:", error);
+      updateAnswer(question.id, { isGrading: false, error: errorMessage(error, 'Could not grade the answer.') });
+    }
+  };
+
+  const handleAddCards = () => run(async signal => {
+    const added = await addFlashcards(await getIndex(), sources, {
+      count: cardCount,
+      topic,
+      sourceLanguages: sourceLanguages(sources),
+    }, signal);
+    if (signal.aborted) return;
+    setDeck(flashcardStore.list(sources));
+    setNow(Date.now());
+    setIsRevealed(false);
+    setNotice(added.length > 0 ? `Added ${added.length} card${added.length === 1 ? '' : 's'}.` : 'No new cards; the deck already covers this content.');
+  }, 'Could not write flashcards.');
+
+  const handleRate = (rating: FlashcardRating) => {
+    if (!current) return;
+    flashcardStore.update(reviewCard(current, rating));
+    setDeck(flashcardStore.list(sources));
+    setNow(Date.now());
+    setIsRevealed(false);
+  };
+
+  const handleDeleteCard = () => {
+    if (!current) return;
+    flashcardStore.delete(current.id);
+    setDeck(flashcardStore.list(sources));
+    setIsRevealed(false);
+  };
+
+  const showInPage = (url: string, quote?: string) => {
+    onShowInPage(url, quote);
+    onClose();
+  };
+
+  const answered = questions.filter(q => answers[q.id]?.choice !== undefined || answers[q.id]?.grade);
+  const score = answered.reduce((sum, q) => {
+    const answer = answers[q.id];
+    if (answer.choice !== undefined) return sum + (answer.choice === q.correctOption ? 1 : 0);
+    return sum + (answer.grade?.verdict === 'correct' ? 1 : answer.grade?.verdict === 'partially-correct' ? 0.5 : 0);
+  }, 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm animate-fade-up" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-charcoal rounded-[2rem] shadow-2xl dark:shadow-black/60 border border-white/20 dark:border-white/5 p-6 md:p-8 gap-6 overflow-y-auto scrollbar-hide"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 font-serif text-2xl text-slate-900 dark:text-white">
+            <GraduationCap size={20} className="text-primary-500" />
+            Study
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400 transition-colors"
+            aria-label="Close study mode"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex p-1.5 gap-1.5 bg-slate-100/50 dark:bg-black/20 rounded-2xl">
+          {([['quiz', 'Quiz'], ['cards', `Flashcards${due.length > 0 ? ` (${due.length} due)` : ''}`]] as [StudyTab, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => { setTab(id); setNotice(null); }}
+              disabled={isWorking}
+              className={`flex-1 py-2 rounded-xl text-sm font-medium transition-all ${
+                tab === id
+                  ? 'bg-white dark:bg-white/10 text-slate-900 dark:text-white shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Setup */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[12rem]">
+            <Field label="Topic">
+              <input
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="Optional, e.g. deployment process"
+                disabled={isWorking}
+                className={inputClass}
+              />
+            </Field>
+          </div>
+          {tab === 'quiz' ? (
+            <>
+              <div className="w-40">
+                <Field label="Questions">
+                  <select value={kindChoice} onChange={(e) => setKindChoice(e.target.value as QuizKindChoice)} disabled={isWorking} className={inputClass}>
+                    <option value="mixed">Mixed</option>
+                    <option value="multiple-choice">Multiple choice</option>
+                    <option value="short-answer">Short answer</option>
+                  </select>
+                </Field>
+              </div>
+              <div className="w-24">
+                <Field label="Count">
+                  <select value={questionCount} onChange={(e) => setQuestionCount(Number(e.target.value))} disabled={isWorking} className={inputClass}>
+                    {[5, 10, 15].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </Field>
+              </div>
+            </>
+          ) : (
+            <div className="w-24">
+              <Field label="Cards">
+                <select value={cardCount} onChange={(e) => setCardCount(Number(e.target.value))} disabled={isWorking} className={inputClass}>
+                  {[5, 10, 20].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </Field>
+            </div>
+          )}
+          {isWorking ? (
+            <button type="button" onClick={() => abortRef.current?.abort()} className={primaryButtonClass}>
+              <Square size={12} fill="currentColor" />
+              Stop
+            </button>
+          ) : tab === 'quiz' ? (
+            <button type="button" onClick={handleGenerateQuiz} className={primaryButtonClass}>
+              <Play size={14} />
+              {questions.length > 0 ? 'New quiz' : 'Write quiz'}
+            </button>
+          ) : (
+            <button type="button" onClick={handleAddCards} className={primaryButtonClass}>
+              <Layers size={14} />
+              Add cards
+            </button>
+          )}
+        </div>
+
+        {isWorking && (
+          <span className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+            <Loader2 size={14} className="animate-spin" />
+            {tab === 'quiz' ? 'Writing questions…' : 'Writing flashcards…'}
+          </span>
+        )}
+        {notice && !isWorking && <p className="text-sm text-slate-500 dark:text-slate-400">{notice}</p>}
+
+        {/* Quiz */}
+        {tab === 'quiz' && questions.length > 0 && (
+          <div className="space-y-4 pt-4 border-t border-slate-100 dark:border-white/5">
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {answered.length === 0
+                ? `${questions.length} questions`
+                : `${score} of ${answered.length} answered correctly · ${questions.length - answered.length} to go`}
+            </p>
+            {questions.map((question, i) => {
+              const answer = answers[question.id] || {};
+              const isAnswered = answer.choice !== undefined || !!answer.grade;
+              return (
+                <div key={question.id} className="space-y-3 p-4 rounded-2xl border border-slate-100 dark:border-white/5">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">
+                    <span className="text-slate-400 mr-2">{i + 1}.</span>
+                    {question.question}
+                  </p>
+
+                  {question.kind === 'multiple-choice' ? (
+                    <div className="grid gap-2">
+                      {question.options?.map((option, j) => {
+                        const isCorrect = j === question.correctOption;
+                        const isChosen = j === answer.choice;
+                        return (
+                          <button
+                            key={j}
+                            type="button"
+                            onClick={() => updateAnswer(question.id, { choice: j })}
+                            disabled={isAnswered}
+                            className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-left text-sm transition-colors ${
+                              isAnswered && isCorrect
+                                ? 'border-emerald-300 bg-emerald-50 text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-200'
+                                : isAnswered && isChosen
+                                  ? 'border-rose-300 bg-rose-50 text-rose-800 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-200'
+                                  : 'border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 disabled:hover:bg-transparent'
+                            }`}
+                          >
+                            {isAnswered && isCorrect && <Check size={14} className="shrink-0" />}
+                            {isAnswered && isChosen && !isCorrect && <CircleX size={14} className="shrink-0" />}
+                            {option}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <textarea
+                        value={drafts[question.id] || ''}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [question.id]: e.target.value }))}
+                        placeholder="Your answer"
+                        rows={2}
+                        disabled={answer.isGrading || !!answer.grade}
+                        className={`${inputClass} resize-none`}
+                      />
+                      {!answer.grade && (
+                        <button
+                          type="button"
+                          onClick={() => handleCheck(question)}
+                          disabled={answer.isGrading || !drafts[question.id]?.trim()}
+                          className="flex items-center gap-1.5 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4 disabled:opacity-40"
+                        >
+                          {answer.isGrading ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                          Check answer
+                        </button>
+                      )}
+                      {answer.error && <p className="text-sm text-rose-600 dark:text-rose-300">{answer.error}</p>}
+                    </div>
+                  )}
+
+                  {isAnswered && (
+                    <div className="space-y-1.5 text-sm text-slate-600 dark:text-slate-300">
+                      {answer.grade && (
+                        <p>
+                          <span className={`font-medium ${
+                            answer.grade.verdict === 'correct' ? 'text-emerald-600 dark:text-emerald-400'
+                              : answer.grade.verdict === 'partially-correct' ? 'text-amber-600 dark:text-amber-400'
+                              : 'text-rose-600 dark:text-rose-400'
+                          }`}>
+                            {VERDICT_LABELS[answer.grade.verdict]}.
+                          </span>{' '}
+                          {answer.grade.explanation}
+                        </p>
+                      )}
+                      {question.kind === 'short-answer' && answer.grade?.verdict !== 'correct' && (
+                        <p><span className="font-medium">Answer:</span> {question.answer}</p>
+                      )}
+                      {question.explanation && <p className="text-slate-500 dark:text-slate-400">{question.explanation}</p>}
+                      {question.reference && (
+                        <button
+                          type="button"
+                          onClick={() => showInPage(question.reference!.url, quoteOf(question.reference!.text))}
+                          className="hidden md:flex items-center gap-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4"
+                        >
+                          <BookOpenText size={12} />
+                          Show in {question.reference.title}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Flashcards */}
+        {tab === 'cards' && (
+          <div className="space-y-4 pt-4 border-t border-slate-100 dark:border-white/5">
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {deck.length === 0
+                ? 'No flashcards for this source yet. Add some to start a deck; it is kept in this browser for later sessions.'
+                : `${deck.length} card${deck.length === 1 ? '' : 's'} · ${due.length} due now`}
+            </p>
+
+            {current ? (
+              <div className="space-y-4 p-6 rounded-2xl border border-slate-100 dark:border-white/5">
+                <p className="font-serif text-xl text-slate-900 dark:text-white text-center">{current.front}</p>
+                {isRevealed ? (
+                  <>
+                    <p className="text-sm text-slate-700 dark:text-slate-200 text-center">{current.back}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {RATINGS.map(({ rating, label }) => (
+                        <button
+                          key={rating}
+                          type="button"
+                          onClick={() => handleRate(rating)}
+                          className="flex flex-col items-center gap-0.5 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 transition-colors"
+                        >
+                          {label}
+                          <span className="text-[10px] font-normal text-slate-400">{previewDelay(current, rating)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex justify-center">
+                    <button type="button" onClick={() => setIsRevealed(true)} className={primaryButtonClass}>
+                      Show answer
+                    </button>
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-3">
+                  {current.reference ? (
+                    <button
+                      type="button"
+                      onClick={() => showInPage(current.reference!.url)}
+                      className="hidden md:flex items-center gap-1.5 min-w-0 text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline underline-offset-4"
+                    >
+                      <BookOpenText size={12} className="shrink-0" />
+                      <span className="truncate">From {current.reference.title}</span>
+                    </button>
+                  ) : <span />}
+                  <button
+                    type="button"
+                    onClick={handleDeleteCard}
+                    className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-rose-600 transition-colors"
+                    title="Remove this card from the deck"
+                  >
+                    <Trash2 size={12} />
+                    Delete card
+                  </button>
+                </div>
+              </div>
+            ) : nextDue !== null && (
+              <p className="text-sm text-slate-700 dark:text-slate-200">
+                All caught up. The next card is due in {formatDelay(Math.max(0, nextDue - now))}.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudyPanel;
@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileText, Loader2, AlertCircle, ArrowRight, X } from 'lucide-react';
+
+interface UploadPanelProps {
+  onFilesSubmit: (files: File[]) => Promise<void>;
+  onTextSubmit: (text: string, title?: string) => Promise<void>;
+  isLoading: boolean;
+  error?: string;
+}
+
+const ACCEPTED_FILES = '.pdf,.txt,.md,.markdown,.json,.rss,.atom,.xml,.html,.htm,application/pdf,text/*,application/json';
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const UploadPanel: React.FC<UploadPanelProps> = ({ onFilesSubmit, onTextSubmit, isLoading, error }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [pastedText, setPastedText] = useState('');
+  const [pastedTitle, setPastedTitle] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = (list: FileList | null) => {
+    if (!list) return;
+    setFiles(prev => [...prev, ...Array.from(list)]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length > 0) {
+      onFilesSubmit(files);
+    } else if (pastedText.trim()) {
+      onTextSubmit(pastedText, pastedTitle);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 max-w-2xl mx-auto w-full">
+      {/* Drop Zone */}
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 px-6 py-8 rounded-2xl border-2 border-dashed cursor-pointer transition-colors ${
+          isDragging
+            ? 'border-primary-500 bg-primary-50/50 dark:bg-primary-900/10'
+            : 'border-slate-200 dark:border-white/10 hover:border-primary-300 dark:hover:border-primary-500/40'
+        }`}
+      >
+        <Upload size={24} className="text-slate-400" />
+        <p className="text-sm text-slate-600 dark:text-slate-300">Drop files here or click to browse</p>
+        <p className="text-xs text-slate-400">PDF, text, Markdown, JSON, RSS or HTML</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILES}
+          onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-2 animate-fade-up">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-3 px-4 py-2.5 rounded-xl bg-white dark:bg-white/5 border border-slate-100 dark:border-white/10 text-sm">
+              <FileText size={16} className="text-slate-400 shrink-0" />
+              <span className="truncate flex-1 text-slate-700 dark:text-slate-200">{file.name}</span>
+              <span className="text-xs font-mono text-slate-400">{formatSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 text-slate-400"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {files.length === 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 text-xs uppercase tracking-widest text-slate-400">
+            <div className="flex-1 h-px bg-slate-200 dark:bg-white/10" />
+            <span>or paste text</span>
+            <div className="flex-1 h-px bg-slate-200 dark:bg-white/10" />
+          </div>
+          <input
+            type="text"
+            value={pastedTitle}
+            onChange={(e) => setPastedTitle(e.target.value)}
+            placeholder="Title (optional)"
+            className="block w-full px-4 py-3 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors"
+          />
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder="Paste an article, notes, Markdown or HTML..."
+            rows={6}
+            className="block w-full px-4 py-3 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors resize-y font-mono text-sm"
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 py-3 px-4 rounded-lg animate-fade-up">
+          <AlertCircle size={18} />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <button
+          type="submit"
+          disabled={isLoading || (files.length === 0 && !pastedText.trim())}
+          className="group relative inline-flex items-center justify-center gap-3 bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-10 py-4 rounded-full font-medium transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 shadow-xl hover:shadow-2xl"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="animate-spin h-5 w-5" />
+              <span>Reading...</span>
+            </>
+          ) : (
+            <>
+              <span>Begin Analysis</span>
+              <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+            </>
+          )}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default UploadPanel;
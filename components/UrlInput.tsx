@@ -1,89 +1,182 @@
-import React, { useState } from 'react';
-import { Search, Globe, Loader2, AlertCircle, Sparkles, ArrowRight, ExternalLink } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, Globe, Loader2, AlertCircle, Sparkles, ArrowRight, ExternalLink, Network, Upload, Check, Layers, Plus, X } from 'lucide-react';
+import UploadPanel from './UploadPanel';
 import { aiService } from '../services/aiService';
-import { checkScrapability } from '../services/scraperService';
-import { SearchResultItem } from '../types';
+import { cacheDiscover, getCachedDiscover, getSearchFilter, saveSearchFilter, webSearch } from '../services/searchProvider';
+import { SearchFilter } from '../services/search/types';
+import { languageName, LANGUAGES, regionName, REGIONS } from '../services/languageService';
+import { ensureProtocol, probeUrl, MAX_WORKSPACE_SOURCES, sourceLabel } from '../services/scraperService';
+import { DEFAULT_CRAWL_OPTIONS, MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '../services/crawlerService';
+import { CrawlOptions, CrawlProgress, SearchResultItem, WebSearchResult } from '../types';
 
 interface UrlInputProps {
-  onUrlSubmit: (url: string) => Promise<void>;
+  onUrlSubmit: (url: string, crawlOptions?: CrawlOptions) => Promise<void>;
+  onSourcesSubmit: (urls: string[]) => Promise<void>; // Opens several sources as one comparison workspace
+  onFilesSubmit: (files: File[]) => Promise<void>;
+  onTextSubmit: (text: string, title?: string) => Promise<void>;
   isLoading: boolean;
+  crawlProgress?: CrawlProgress | null;
   error?: string;
+  topic?: string; // Discover topic from the address bar; searched on arrival
+  onTopicChange?: (topic: string | null) => void; // A search was run, or cleared
 }
 
-const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) => {
-  const [activeTab, setActiveTab] = useState<'url' | 'topic'>('url');
+const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, onSourcesSubmit, onFilesSubmit, onTextSubmit, isLoading, crawlProgress, error, topic: routeTopic, onTopicChange }) => {
+  const [activeTab, setActiveTab] = useState<'url' | 'topic' | 'upload'>(routeTopic ? 'topic' : 'url');
   
   // Direct URL state
   const [inputUrl, setInputUrl] = useState('');
+  const [crawlEnabled, setCrawlEnabled] = useState(false);
+  const [crawlOptions, setCrawlOptions] = useState<CrawlOptions>(DEFAULT_CRAWL_OPTIONS);
 
   // Topic Search state
   const [topic, setTopic] = useState('');
   const [isSearchingTopic, setIsSearchingTopic] = useState(false);
   const [loadingStatus, setLoadingStatus] = useState<string>('');
   const [searchResults, setSearchResults] = useState<SearchResultItem[] | null>(null);
+  const [searchEngine, setSearchEngine] = useState<string>('');
   const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchFilter, setSearchFilter] = useState<SearchFilter>(getSearchFilter);
+  const searchedTopicRef = useRef<string | null>(null); // Topic of the results shown or being fetched
+  const searchIdRef = useRef(0); // Bumped per search, so a superseded one leaves the state alone
+
+  // Comparison selection: Discover results plus any URLs added by hand
+  const [selectedUrls, setSelectedUrls] = useState<string[]>([]);
+  const [extraUrl, setExtraUrl] = useState('');
 
   const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputUrl.trim()) onUrlSubmit(inputUrl);
+    if (inputUrl.trim()) onUrlSubmit(inputUrl, crawlEnabled ? crawlOptions : undefined);
   };
 
-  const handleTopicSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!topic.trim()) return;
+  const stopSearch = () => {
+    searchIdRef.current++;
+    setIsSearchingTopic(false);
+    setLoadingStatus('');
+  };
+
+  const runSearch = async (query: string) => {
+    searchedTopicRef.current = query;
+    const searchId = ++searchIdRef.current;
+    const isCurrent = () => searchIdRef.current === searchId;
+    setSelectedUrls([]);
+
+    const filter = searchFilter;
+    const cached = getCachedDiscover(query, filter);
+    if (cached) {
+      setIsSearchingTopic(false);
+      setLoadingStatus('');
+      setSearchError(null);
+      setSearchResults(cached.results);
+      setSearchEngine(cached.engine);
+      return;
+    }
 
     setIsSearchingTopic(true);
     setSearchError(null);
     setSearchResults(null);
-    setLoadingStatus('Curating sources...');
+    setLoadingStatus('Searching the web...');
 
     try {
-      const rawResults = await aiService.searchWebsites(topic);
-      if (rawResults.length === 0) {
+      const { engine, results } = await webSearch(query, 12, undefined, filter);
+      if (!isCurrent()) return;
+      if (results.length === 0) {
         setSearchError("No relevant journals or sites found. Try a different topic.");
-        setIsSearchingTopic(false);
         return;
       }
 
+      // A partial fetch per result; whatever it reads is reused when the source is opened.
       setLoadingStatus('Verifying access...');
-      
-      const uniqueResults: SearchResultItem[] = [];
+      const probes = await Promise.all(results.map(result => probeUrl(result.url)));
+      if (!isCurrent()) return;
       const seenUrls = new Set<string>();
-
-      for (const item of rawResults) {
-        const normalized = item.url.trim().toLowerCase().replace(/\/$/, '');
-        if (!seenUrls.has(normalized)) {
-          seenUrls.add(normalized);
-          uniqueResults.push(item);
-        }
-      }
-
-      const verificationPromises = uniqueResults.map(async (item) => {
-        const isAccessible = await checkScrapability(item.url);
-        return isAccessible ? item : null;
+      const accessible: WebSearchResult[] = [];
+      results.forEach((result, i) => {
+        const probe = probes[i];
+        if (!probe.ok || seenUrls.has(probe.url)) return;
+        seenUrls.add(probe.url);
+        accessible.push({
+          title: probe.title || result.title, // Grounded results are titled with just the domain
+          url: probe.url, // Search engines may link through redirects
+          snippet: result.snippet || probe.description || '',
+        });
       });
 
-      const verifiedResults = (await Promise.all(verificationPromises))
-        .filter((item): item is SearchResultItem => item !== null);
-
-      if (verifiedResults.length === 0) {
+      if (accessible.length === 0) {
         setSearchError("Found sources, but they are protected. Try a more general inquiry.");
-      } else {
-        setSearchResults(verifiedResults);
+        return;
       }
 
+      setLoadingStatus('Curating sources...');
+      const ranked = await aiService.rankSearchResults(query, accessible);
+      cacheDiscover(query, { engine, results: ranked }, filter);
+      if (!isCurrent()) return;
+      setSearchResults(ranked);
+      setSearchEngine(engine);
+
     } catch (err: any) {
-      setSearchError(err.message || "Search unavailable at the moment.");
+      if (isCurrent()) setSearchError(err.message || "Search unavailable at the moment.");
     } finally {
-      setIsSearchingTopic(false);
-      setLoadingStatus('');
+      if (isCurrent()) {
+        setIsSearchingTopic(false);
+        setLoadingStatus('');
+      }
     }
   };
 
+  const handleTopicSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = topic.trim();
+    if (!query) return;
+    runSearch(query);
+    onTopicChange?.(query);
+  };
+
+  // Follow the address bar: search a linked topic, or clear the results when it is left
+  useEffect(() => {
+    if (routeTopic && routeTopic !== searchedTopicRef.current) {
+      setActiveTab('topic');
+      setTopic(routeTopic);
+      runSearch(routeTopic);
+    } else if (!routeTopic && searchedTopicRef.current) {
+      searchedTopicRef.current = null;
+      stopSearch();
+      setSearchResults(null);
+      setSearchError(null);
+      setTopic('');
+      setSelectedUrls([]);
+    }
+  }, [routeTopic]);
+
+  const updateSearchFilter = (patch: SearchFilter) => {
+    const next = { ...searchFilter, ...patch };
+    setSearchFilter(next);
+    saveSearchFilter(next);
+  };
+
   const resetSearch = () => {
+    searchedTopicRef.current = null;
+    stopSearch();
     setSearchResults(null);
     setSearchError(null);
     setTopic('');
+    setSelectedUrls([]);
+    onTopicChange?.(null);
+  };
+
+  const toggleSelected = (url: string) => {
+    setSelectedUrls(prev => {
+      if (prev.includes(url)) return prev.filter(u => u !== url);
+      return prev.length < MAX_WORKSPACE_SOURCES ? [...prev, url] : prev;
+    });
+  };
+
+  const handleAddExtraUrl = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = ensureProtocol(extraUrl);
+    if (!extraUrl.trim() || selectedUrls.includes(url) || selectedUrls.length >= MAX_WORKSPACE_SOURCES) return;
+    setSelectedUrls(prev => [...prev, url]);
+    setExtraUrl('');
   };
 
   return (
@@ -127,6 +220,17 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
             <Sparkles size={16} />
             <span>Discover</span>
           </button>
+          <button
+            onClick={() => setActiveTab('upload')}
+            className={`flex-1 py-3 text-sm font-medium rounded-xl flex items-center justify-center gap-2 transition-all duration-300 ${
+              activeTab === 'upload'
+                ? 'bg-white dark:bg-white/10 text-slate-900 dark:text-white shadow-sm'
+                : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+            }`}
+          >
+            <Upload size={16} />
+            <span>Upload</span>
+          </button>
         </div>
 
         <div className="p-6 md:p-10 min-h-[300px] flex flex-col justify-center">
@@ -143,6 +247,60 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
                 />
               </div>
 
+              {/* Crawl Options */}
+              <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-slate-500 dark:text-slate-400">
+                <label className="flex items-center gap-2 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={crawlEnabled}
+                    onChange={(e) => setCrawlEnabled(e.target.checked)}
+                    disabled={isLoading}
+                    className="accent-primary-600"
+                  />
+                  <Network size={14} />
+                  <span>Crawl linked pages</span>
+                </label>
+                {crawlEnabled && (
+                  <>
+                    <label className="flex items-center gap-2">
+                      <span>Depth</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_CRAWL_DEPTH}
+                        value={crawlOptions.maxDepth}
+                        onChange={(e) => setCrawlOptions({ ...crawlOptions, maxDepth: Math.max(1, Math.min(MAX_CRAWL_DEPTH, Number(e.target.value) || 1)) })}
+                        disabled={isLoading}
+                        className="w-14 px-2 py-1 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-lg text-slate-900 dark:text-white text-center"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <span>Max pages</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_CRAWL_PAGES}
+                        value={crawlOptions.maxPages}
+                        onChange={(e) => setCrawlOptions({ ...crawlOptions, maxPages: Math.max(1, Math.min(MAX_CRAWL_PAGES, Number(e.target.value) || 1)) })}
+                        disabled={isLoading}
+                        className="w-16 px-2 py-1 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-lg text-slate-900 dark:text-white text-center"
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
+
+              {isLoading && crawlProgress && (
+                <div className="text-center text-xs font-mono text-slate-500 dark:text-slate-400 animate-fade-up space-y-1">
+                  <p>
+                    {crawlProgress.found} found · {crawlProgress.fetched} fetched · {crawlProgress.skipped} skipped · {crawlProgress.failed} failed
+                  </p>
+                  {crawlProgress.currentUrl && (
+                    <p className="truncate opacity-60">{crawlProgress.currentUrl}</p>
+                  )}
+                </div>
+              )}
+
               {error && (
                 <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 py-3 px-4 rounded-lg animate-fade-up">
                   <AlertCircle size={18} />
@@ -159,7 +317,7 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
                   {isLoading ? (
                     <>
                       <Loader2 className="animate-spin h-5 w-5" />
-                      <span>Reading...</span>
+                      <span>{crawlEnabled ? 'Crawling...' : 'Reading...'}</span>
                     </>
                   ) : (
                     <>
@@ -170,6 +328,13 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
                 </button>
               </div>
             </form>
+          ) : activeTab === 'upload' ? (
+            <UploadPanel
+              onFilesSubmit={onFilesSubmit}
+              onTextSubmit={onTextSubmit}
+              isLoading={isLoading}
+              error={error}
+            />
           ) : (
             <div className="space-y-6 w-full">
               {!searchResults ? (
@@ -186,6 +351,32 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
                     <p className="text-center text-slate-400 text-sm mt-3">Try "History of Bauhaus", "Vegan Ramen Recipes", or "Latest AI News"</p>
                   </div>
 
+                  <div className="flex items-center justify-center gap-3 text-sm text-slate-500 dark:text-slate-400">
+                    <select
+                      value={searchFilter.language || ''}
+                      onChange={(e) => updateSearchFilter({ language: e.target.value || undefined })}
+                      className="bg-transparent focus:outline-none hover:text-slate-900 dark:hover:text-white cursor-pointer"
+                      aria-label="Language of results"
+                    >
+                      <option value="">Any language</option>
+                      {[...LANGUAGES]
+                        .sort((a, b) => languageName(a).localeCompare(languageName(b)))
+                        .map(code => <option key={code} value={code}>{languageName(code)}</option>)}
+                    </select>
+                    <span className="text-slate-300 dark:text-slate-600">·</span>
+                    <select
+                      value={searchFilter.region || ''}
+                      onChange={(e) => updateSearchFilter({ region: e.target.value || undefined })}
+                      className="bg-transparent focus:outline-none hover:text-slate-900 dark:hover:text-white cursor-pointer"
+                      aria-label="Region of results"
+                    >
+                      <option value="">Any region</option>
+                      {[...REGIONS]
+                        .sort((a, b) => regionName(a).localeCompare(regionName(b)))
+                        .map(code => <option key={code} value={code}>{regionName(code)}</option>)}
+                    </select>
+                  </div>
+
                   {searchError && (
                     <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 py-3 px-4 rounded-lg animate-fade-up">
                       <AlertCircle size={18} />
@@ -216,7 +407,16 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
               ) : (
                 <div className="animate-fade-up w-full">
                   <div className="flex items-center justify-between mb-6 px-2">
-                    <h3 className="font-serif text-2xl text-slate-900 dark:text-white">Curated Selection</h3>
+                    <div>
+                      <h3 className="font-serif text-2xl text-slate-900 dark:text-white">Curated Selection</h3>
+                      {searchEngine && (
+                        <p className="text-xs text-slate-400 mt-1">
+                          Results from {searchEngine}
+                          {searchFilter.language && ` · ${languageName(searchFilter.language)}`}
+                          {searchFilter.region && ` · ${regionName(searchFilter.region)}`}
+                        </p>
+                      )}
+                    </div>
                     <button 
                       onClick={resetSearch}
                       className="text-sm text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white transition-colors underline decoration-slate-300 underline-offset-4"
@@ -229,10 +429,27 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
                     {searchResults.map((site, index) => (
                       <div 
                         key={index} 
-                        className="group relative bg-white dark:bg-white/5 border border-slate-100 dark:border-white/10 hover:border-primary-200 dark:hover:border-primary-500/30 p-5 rounded-2xl transition-all hover:shadow-lg dark:hover:shadow-primary-900/20 cursor-pointer flex flex-col justify-between h-full"
+                        className={`group relative bg-white dark:bg-white/5 border p-5 rounded-2xl transition-all hover:shadow-lg dark:hover:shadow-primary-900/20 cursor-pointer flex flex-col justify-between h-full ${
+                          selectedUrls.includes(site.url)
+                            ? 'border-primary-400 dark:border-primary-500/60'
+                            : 'border-slate-100 dark:border-white/10 hover:border-primary-200 dark:hover:border-primary-500/30'
+                        }`}
                         onClick={() => onUrlSubmit(site.url)}
                       >
-                        <div>
+                        <button
+                          type="button"
+                          onClick={(e) => { e.stopPropagation(); toggleSelected(site.url); }}
+                          className={`absolute top-4 right-4 w-6 h-6 rounded-md border flex items-center justify-center transition-colors ${
+                            selectedUrls.includes(site.url)
+                              ? 'bg-primary-600 border-primary-600 text-white'
+                              : 'border-slate-300 dark:border-white/20 text-transparent hover:border-primary-400'
+                          }`}
+                          aria-label={selectedUrls.includes(site.url) ? `Deselect ${site.title}` : `Select ${site.title} for comparison`}
+                          aria-pressed={selectedUrls.includes(site.url)}
+                        >
+                          <Check size={14} />
+                        </button>
+                        <div className="pr-8">
                           <h4 className="font-serif text-lg text-slate-900 dark:text-gray-100 mb-2 line-clamp-1 group-hover:text-primary-600 dark:group-hover:text-primary-300 transition-colors">
                             {site.title}
                           </h4>
@@ -251,6 +468,70 @@ const UrlInput: React.FC<UrlInputProps> = ({ onUrlSubmit, isLoading, error }) =>
                       </div>
                     ))}
                   </div>
+
+                  {/* Comparison Workspace */}
+                  <div className="mt-6 p-4 rounded-2xl bg-slate-50 dark:bg-black/20 border border-slate-100 dark:border-white/5 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <p className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                        <Layers size={16} className="text-primary-500" />
+                        {selectedUrls.length === 0
+                          ? 'Select sources to compare them in one conversation.'
+                          : `${selectedUrls.length} of up to ${MAX_WORKSPACE_SOURCES} sources selected`}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => onSourcesSubmit(selectedUrls)}
+                        disabled={isLoading || selectedUrls.length < 2}
+                        className="inline-flex items-center gap-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-5 py-2.5 rounded-full text-sm font-medium transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
+                      >
+                        {isLoading ? <Loader2 className="animate-spin w-4 h-4" /> : <Layers className="w-4 h-4" />}
+                        <span>{isLoading ? 'Reading sources...' : 'Compare Sources'}</span>
+                      </button>
+                    </div>
+
+                    {selectedUrls.some(url => !searchResults.some(site => site.url === url)) && (
+                      <ul className="flex flex-wrap gap-2">
+                        {selectedUrls.filter(url => !searchResults.some(site => site.url === url)).map(url => (
+                          <li key={url} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 text-xs font-mono text-slate-500 dark:text-slate-400">
+                            <span className="truncate max-w-[12rem]">{sourceLabel(url)}</span>
+                            <button
+                              type="button"
+                              onClick={() => toggleSelected(url)}
+                              className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-white/10"
+                              aria-label={`Remove ${url}`}
+                            >
+                              <X size={10} />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <form onSubmit={handleAddExtraUrl} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={extraUrl}
+                        onChange={(e) => setExtraUrl(e.target.value)}
+                        placeholder="Add another URL..."
+                        className="flex-1 px-4 py-2 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!extraUrl.trim() || selectedUrls.length >= MAX_WORKSPACE_SOURCES}
+                        className="p-2.5 rounded-xl bg-white dark:bg-white/10 border border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:text-primary-600 disabled:opacity-50 transition-colors"
+                        aria-label="Add URL to comparison"
+                      >
+                        <Plus size={16} />
+                      </button>
+                    </form>
+
+                    {error && (
+                      <div className="flex items-center gap-2 text-red-600 dark:text-red-400 text-sm">
+                        <AlertCircle size={16} />
+                        <span>{error}</span>
+                      </div>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { TokenUsage, UsageBudget } from '../types';
+import { formatTokens, isOverBudget, totalTokens } from '../services/usageService';
+
+interface UsageMeterProps {
+  usage: TokenUsage; // Whole session
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+}
+
+const inputClass = "block w-full px-3 py-2 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-primary-500 dark:focus:border-primary-400 transition-colors";
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ usage, budget, onBudgetChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const used = totalTokens(usage);
+  const approx = usage.estimated ? '~' : '';
+  const share = budget.maxTokens > 0 ? Math.min(1, used / budget.maxTokens) : 0;
+  const isOver = isOverBudget(usage, budget);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-2 text-xs font-medium tracking-wide uppercase transition-colors ${
+          isOver ? 'text-rose-600 dark:text-rose-400' : 'text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400'
+        }`}
+        title="Tokens used in this session"
+        aria-expanded={isOpen}
+      >
+        <Gauge size={12} />
+        <span className="hidden md:inline tabular-nums">
+          {approx}{formatTokens(used)}{budget.maxTokens > 0 ? ` / ${formatTokens(budget.maxTokens)}` : ' tokens'}
+        </span>
+        {budget.maxTokens > 0 && (
+          <span className="hidden md:block w-12 h-1 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden">
+            <span
+              className={`block h-full rounded-full ${isOver ? 'bg-rose-500' : share > 0.8 ? 'bg-amber-500' : 'bg-primary-500'}`}
+              style={{ width: `${share * 100}%` }}
+            />
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-3 z-20 w-72 p-4 space-y-4 rounded-xl bg-white dark:bg-charcoal border border-slate-100 dark:border-white/10 shadow-xl animate-fade-up">
+            <dl className="grid grid-cols-2 gap-y-1 text-sm">
+              <dt className="text-slate-500 dark:text-slate-400">Prompt</dt>
+              <dd className="text-right tabular-nums text-slate-800 dark:text-slate-100">{approx}{usage.promptTokens.toLocaleString()}</dd>
+              <dt className="text-slate-500 dark:text-slate-400">Output</dt>
+              <dd className="text-right tabular-nums text-slate-800 dark:text-slate-100">{approx}{usage.outputTokens.toLocaleString()}</dd>
+            </dl>
+            {usage.estimated && (
+              <p className="text-xs text-slate-400">The model server doesn't report usage, so some counts are estimated from the text length.</p>
+            )}
+
+            <div className="space-y-2 pt-3 border-t border-slate-100 dark:border-white/5">
+              <label className="block space-y-1.5">
+                <span className="text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">Session budget (tokens)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={10000}
+                  value={budget.maxTokens || ''}
+                  onChange={(e) => onBudgetChange({ ...budget, maxTokens: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  placeholder="No budget"
+                  className={inputClass}
+                />
+              </label>
+              <label className="block space-y-1.5">
+                <span className="text-xs font-medium tracking-wide uppercase text-slate-500 dark:text-slate-400">When it runs out</span>
+                <select
+                  value={budget.onExceeded}
+                  onChange={(e) => onBudgetChange({ ...budget, onExceeded: e.target.value as UsageBudget['onExceeded'] })}
+                  disabled={budget.maxTokens === 0}
+                  className={inputClass}
+                >
+                  <option value="block">Stop answering</option>
+                  <option value="trim">Keep answering with less history</option>
+                </select>
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsageMeter;
@@ -0,0 +1,53 @@
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCassetteHandler } from './cassetteHandler';
+
+describe('createCassetteHandler', () => {
+  let dir: string;
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+    const handler = createCassetteHandler(dir);
+    server = http.createServer((req, res) => { handler(req, res); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const post = (name: string, body: string) => fetch(`${base}/${name}`, { method: 'POST', body });
+
+  it('saves a cassette under its name', async () => {
+    const response = await post('demo', JSON.stringify({ version: 1, entries: [] }));
+    expect(response.status).toBe(204);
+    expect(JSON.parse(await fs.readFile(path.join(dir, 'demo.json'), 'utf8'))).toEqual({ version: 1, entries: [] });
+  });
+
+  it('rejects malformed percent-encoding in the name without crashing', async () => {
+    const response = await post('%E0%A4%A', JSON.stringify({ version: 1, entries: [] }));
+    expect(response.status).toBe(400);
+    expect((await post('after', JSON.stringify({ version: 1, entries: [] }))).status).toBe(204);
+  });
+
+  it('rejects names that could leave the directory', async () => {
+    expect((await post('..%2Fescape', '{}')).status).toBe(400);
+  });
+
+  it('rejects bodies over the size limit', async () => {
+    const response = await post('huge', 'x'.repeat(21 * 1024 * 1024));
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects anything that is not a cassette', async () => {
+    expect((await post('other', JSON.stringify({ hello: 'world' }))).status).toBe(400);
+  });
+});
@@ -0,0 +1,74 @@
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { sendError } from './fetchHandler';
+
+/**
+ * Saves recordings made in TRANSPORT_MODE=record (see services/transport/cassette.ts).
+ * Only the dev server mounts this, and only while recording.
+ */
+
+const NAME_PATTERN = /^[\w-]{1,64}$/;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Cassettes can be at most ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      reject(new BodyTooLargeError());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new BodyTooLargeError());
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+/**
+ * Handles POST /api/cassettes/<name> by writing the cassette in the body to
+ * <dir>/<name>.json. Mounted as connect middleware, so req.url starts after the prefix.
+ */
+export const createCassetteHandler = (dir: string) =>
+  async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'Method not allowed.');
+      return;
+    }
+
+    // Nobody awaits this handler, so nothing may escape the try.
+    try {
+      // Checked as sent: valid names need no percent-decoding, so malformed escapes are just invalid.
+      const name = new URL(req.url || '/', 'http://localhost').pathname.slice(1);
+      if (!NAME_PATTERN.test(name)) {
+        sendError(res, 400, 'Cassette names may only contain letters, digits, "-" and "_".');
+        return;
+      }
+
+      const cassette = JSON.parse(await readBody(req));
+      if (cassette?.version !== 1 || !Array.isArray(cassette.entries)) {
+        sendError(res, 400, 'Not a cassette.');
+        return;
+      }
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, `${name}.json`), `${JSON.stringify(cassette, null, 2)}\n`);
+      res.statusCode = 204;
+      res.end();
+    } catch (error: any) {
+      sendError(res, error instanceof BodyTooLargeError ? 413 : 400, error?.message || 'Could not save the cassette.');
+    }
+  };
@@ -0,0 +1,84 @@
+export interface FetchConfig {
+  allowlist: string[]; // Host patterns; when non-empty, only these hosts may be fetched
+  denylist: string[]; // Host patterns that are always refused
+  maxBytes: number; // Largest (decompressed) body we will relay
+  timeoutMs: number;
+  maxRedirects: number;
+  allowPrivateNetworks: boolean; // Only for trusted local setups; disables SSRF protection
+}
+
+const parseList = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads fetch backend settings from an env-like record (process.env or Vite's loadEnv).
+ */
+export const loadFetchConfig = (env: Record<string, string | undefined>): FetchConfig => ({
+  allowlist: parseList(env.FETCH_ALLOWLIST),
+  denylist: parseList(env.FETCH_DENYLIST),
+  maxBytes: parseNumber(env.FETCH_MAX_BYTES, 5 * 1024 * 1024),
+  timeoutMs: parseNumber(env.FETCH_TIMEOUT_MS, 15000),
+  maxRedirects: parseNumber(env.FETCH_MAX_REDIRECTS, 5),
+  allowPrivateNetworks: env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true',
+});
+
+export interface RenderConfig {
+  enabled: boolean; // Headless-browser rendering for pages that need JavaScript
+  timeoutMs: number; // Budget for navigation plus any wait conditions
+  maxDelayMs: number; // Cap on the extra settle time a client may ask for
+  maxConcurrent: number; // Each render holds a browser context open
+}
+
+/**
+ * Reads render backend settings. Rendering only works once Playwright and its Chromium
+ * build are installed; without them /api/render answers 501.
+ */
+export const loadRenderConfig = (env: Record<string, string | undefined>): RenderConfig => ({
+  enabled: env.RENDER_ENABLED !== 'false',
+  timeoutMs: parseNumber(env.RENDER_TIMEOUT_MS, 30000),
+  maxDelayMs: parseNumber(env.RENDER_MAX_DELAY_MS, 10000),
+  maxConcurrent: parseNumber(env.RENDER_MAX_CONCURRENT, 2),
+});
+
+export type SearchEngine = 'searxng' | 'brave' | 'bing';
+
+export interface SearchConfig {
+  engine: SearchEngine | null; // null when no search backend is configured
+  searxngUrl: string; // Base URL of a SearXNG instance with the JSON format enabled
+  braveApiKey: string;
+  bingApiKey: string;
+  bingEndpoint: string; // Any Bing Web Search v7-compatible endpoint
+  timeoutMs: number;
+}
+
+/**
+ * Reads web search settings. SEARCH_ENGINE picks the engine; otherwise the first one
+ * with credentials wins.
+ */
+export const loadSearchConfig = (env: Record<string, string | undefined>): SearchConfig => {
+  const config: SearchConfig = {
+    engine: null,
+    searxngUrl: (env.SEARXNG_URL || '').replace(/\/+$/, ''),
+    braveApiKey: env.BRAVE_SEARCH_API_KEY || '',
+    bingApiKey: env.BING_SEARCH_API_KEY || '',
+    bingEndpoint: env.BING_SEARCH_ENDPOINT || 'https://api.bing.microsoft.com/v7.0/search',
+    timeoutMs: parseNumber(env.SEARCH_TIMEOUT_MS, 10000),
+  };
+
+  const available: SearchEngine[] = [
+    ...(config.searxngUrl ? ['searxng' as const] : []),
+    ...(config.braveApiKey ? ['brave' as const] : []),
+    ...(config.bingApiKey ? ['bing' as const] : []),
+  ];
+  const requested = env.SEARCH_ENGINE as SearchEngine | undefined;
+  config.engine = requested && available.includes(requested) ? requested : available[0] || null;
+  return config;
+};
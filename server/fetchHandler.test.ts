@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './fetchHandler';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+  ])('blocks IPv4 %s', ip => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it.each([
+    '::',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    'fe80::1%eth0',
+    'ff02::1',
+  ])('blocks IPv6 %s', ip => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it.each([
+    ['IPv4-mapped, dotted', '::ffff:127.0.0.1'],
+    ['IPv4-mapped, hex', '::ffff:7f00:1'],
+    ['IPv4-compatible', '::7f00:1'],
+    ['IPv4-compatible, dotted', '::10.0.0.1'],
+    ['SIIT', '::ffff:0:7f00:1'],
+    ['NAT64', '64:ff9b::a9fe:a9fe'],
+    ['6to4', '2002:7f00:1::'],
+    ['6to4 with a suffix', '2002:c0a8:101::1'],
+    ['Teredo server', '2001:0:a00:1::'],
+    ['Teredo client', '2001:0:4136:e378:8000:63bf:80ff:fffe'],
+  ])('blocks private IPv4 embedded in IPv6 (%s)', (_, ip) => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it.each([
+    '8.8.8.8',
+    '93.184.216.34',
+    '2606:4700:4700::1111',
+    '::ffff:8.8.8.8',
+    '64:ff9b::808:808',
+    '2002:808:808::',
+  ])('allows public address %s', ip => {
+    expect(isPrivateAddress(ip)).toBe(false);
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+    expect(isPrivateAddress('')).toBe(true);
+  });
+});
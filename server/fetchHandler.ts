@@ -0,0 +1,381 @@
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import { Readable } from 'node:stream';
+import { FetchConfig } from './config';
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; SiteScout/1.0; +https://github.com/AlbertCJC/talk-with-site)';
+
+// Request headers we pass through from the browser so that conditional requests work.
+const FORWARDED_REQUEST_HEADERS = ['if-none-match', 'if-modified-since', 'accept-language'];
+// Response headers we relay back to the browser.
+const RELAYED_RESPONSE_HEADERS = ['etag', 'last-modified', 'content-language'];
+
+// How much of a page a probe reads: enough for the <head> and the start of the content.
+const PROBE_BYTES = 64 * 1024;
+
+export class FetchError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+interface UpstreamResponse {
+  url: string;
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  truncated?: boolean; // Set when a partial fetch stopped early
+}
+
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'], // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], // Link-local, incl. cloud metadata endpoints
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'], // Multicast
+  ['240.0.0.0', 4, 'ipv4'], // Reserved and broadcast
+  ['::', 128, 'ipv6'], // Unspecified
+  ['::1', 128, 'ipv6'], // Loopback
+  ['64:ff9b:1::', 48, 'ipv6'], // Local-use NAT64
+  ['100::', 64, 'ipv6'], // Discard-only
+  ['fc00::', 7, 'ipv6'], // Unique local
+  ['fe80::', 10, 'ipv6'], // Link-local
+  ['ff00::', 8, 'ipv6'], // Multicast
+];
+
+// IPv4 rules also match IPv4-mapped IPv6 addresses (::ffff:a.b.c.d).
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [base, bits, family] of PRIVATE_RANGES) PRIVATE_ADDRESSES.addSubnet(base, bits, family);
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with a dotted IPv4 tail converted.
+ */
+const ipv6Groups = (ip: string): number[] => {
+  let address = ip;
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    address = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = address.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const left = parse(head);
+  const right = parse(tail);
+  return tail === undefined ? left : [...left, ...Array(8 - left.length - right.length).fill(0), ...right];
+};
+
+const toIpv4 = (high: number, low: number): string => `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+
+/**
+ * IPv4 addresses carried inside an IPv6 address by the transition mechanisms that route
+ * to them: IPv4-compatible, IPv4-mapped (also in the SIIT ::ffff:0:a.b.c.d form), NAT64,
+ * 6to4 and Teredo (server and client).
+ */
+const embeddedIpv4 = (groups: number[]): string[] => {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+  const embedded: string[] = [];
+  if (zeros(0, 5) && (g5 === 0 || g5 === 0xffff)) embedded.push(toIpv4(g6, g7));
+  if (zeros(0, 4) && g4 === 0xffff && g5 === 0) embedded.push(toIpv4(g6, g7));
+  if (g0 === 0x64 && g1 === 0xff9b && zeros(2, 6)) embedded.push(toIpv4(g6, g7));
+  if (g0 === 0x2002) embedded.push(toIpv4(g1, g2));
+  if (g0 === 0x2001 && g1 === 0) embedded.push(toIpv4(g2, g3), toIpv4(g6 ^ 0xffff, g7 ^ 0xffff));
+  return embedded;
+};
+
+/**
+ * True for loopback, private, link-local, multicast and other non-public addresses,
+ * including IPv6 addresses that embed one of them.
+ */
+export const isPrivateAddress = (ip: string): boolean => {
+  if (net.isIPv4(ip)) return PRIVATE_ADDRESSES.check(ip, 'ipv4');
+
+  const address = ip.replace(/%.*$/, ''); // Zone index, e.g. fe80::1%eth0
+  if (net.isIPv6(address)) {
+    return PRIVATE_ADDRESSES.check(address, 'ipv6')
+      || embeddedIpv4(ipv6Groups(address.toLowerCase())).some(v4 => PRIVATE_ADDRESSES.check(v4, 'ipv4'));
+  }
+
+  return true;
+};
+
+const matchesHost = (pattern: string, host: string): boolean => {
+  if (pattern.startsWith('*.')) return host.endsWith(pattern.slice(1));
+  return host === pattern || host.endsWith(`.${pattern}`);
+};
+
+/**
+ * Applies the protocol, allow/deny list and literal-IP rules to a URL.
+ */
+export const checkUrl = (url: URL, config: FetchConfig) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError(400, 'Only http and https URLs can be fetched.');
+  }
+  if (url.username || url.password) {
+    throw new FetchError(400, 'URLs with credentials are not allowed.');
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (config.denylist.some(pattern => matchesHost(pattern, host))) {
+    throw new FetchError(403, `Fetching ${host} is blocked by the server's deny list.`);
+  }
+  if (config.allowlist.length > 0 && !config.allowlist.some(pattern => matchesHost(pattern, host))) {
+    throw new FetchError(403, `${host} is not on the server's allow list.`);
+  }
+  if (!config.allowPrivateNetworks && net.isIP(host) && isPrivateAddress(host)) {
+    throw new FetchError(403, 'Fetching private network addresses is not allowed.');
+  }
+};
+
+/**
+ * DNS lookup that refuses to connect to private addresses. Checking at connect time
+ * (rather than resolving once up front) closes the DNS-rebinding gap.
+ */
+export const createSafeLookup = (config: FetchConfig): net.LookupFunction =>
+  (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0);
+
+      const list = addresses as dns.LookupAddress[];
+      if (!config.allowPrivateNetworks && list.some(entry => isPrivateAddress(entry.address))) {
+        return callback(new FetchError(403, 'Fetching private network addresses is not allowed.'), '', 0);
+      }
+
+      if ((options as dns.LookupOptions).all) {
+        (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+      } else {
+        callback(null, list[0].address, list[0].family);
+      }
+    });
+  };
+
+const decode = (response: http.IncomingMessage): Readable => {
+  switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+};
+
+const requestOnce = (
+  url: URL,
+  headers: Record<string, string>,
+  config: FetchConfig,
+  partialBytes?: number
+): Promise<UpstreamResponse> =>
+  new Promise((resolve, reject) => {
+    const transport = url.protocol === 'https:' ? https : http;
+    const request = transport.get(url, {
+      headers: {
+        'user-agent': USER_AGENT,
+        'accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf,text/plain,*/*;q=0.8',
+        'accept-encoding': 'gzip, deflate, br',
+        ...headers,
+      },
+      lookup: createSafeLookup(config),
+    }, response => {
+      const status = response.statusCode || 502;
+
+      // Redirects and 304s carry no body we care about.
+      if (status >= 300 && status < 400) {
+        response.resume();
+        resolve({ url: url.toString(), status, headers: response.headers, body: Buffer.alloc(0) });
+        return;
+      }
+
+      const declared = Number(response.headers['content-length']);
+      if (!partialBytes && declared > config.maxBytes) {
+        response.destroy();
+        reject(new FetchError(413, `The resource is larger than the ${config.maxBytes} byte limit.`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      const body = decode(response);
+
+      body.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (partialBytes && received >= partialBytes) {
+          // Enough for a probe; stop downloading the rest.
+          chunks.push(chunk);
+          response.destroy();
+          body.destroy();
+          resolve({ url: url.toString(), status, headers: response.headers, body: Buffer.concat(chunks).subarray(0, partialBytes), truncated: true });
+          return;
+        }
+        if (received > config.maxBytes) {
+          response.destroy();
+          body.destroy();
+          reject(new FetchError(413, `The resource is larger than the ${config.maxBytes} byte limit.`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      body.on('end', () => resolve({ url: url.toString(), status, headers: response.headers, body: Buffer.concat(chunks) }));
+      body.on('error', error => reject(new FetchError(502, `Failed to read the response: ${error.message}`)));
+    });
+
+    // A total deadline, not an idle timeout, so slow-drip responses can't hold us open.
+    const timer = setTimeout(() => {
+      const error = new FetchError(504, `The site did not respond within ${config.timeoutMs / 1000}s.`);
+      reject(error);
+      request.destroy(error);
+    }, config.timeoutMs);
+    request.on('close', () => clearTimeout(timer));
+    request.on('error', error => {
+      reject(error instanceof FetchError ? error : new FetchError(502, `Failed to fetch: ${error.message}`));
+    });
+  });
+
+/**
+ * Fetches a URL, validating every hop of the redirect chain against the same rules.
+ * With partialBytes, only that much of the body is read.
+ */
+export const fetchUpstream = async (
+  target: string,
+  headers: Record<string, string>,
+  config: FetchConfig,
+  partialBytes?: number
+): Promise<UpstreamResponse> => {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new FetchError(400, 'Invalid URL.');
+  }
+
+  for (let hop = 0; hop <= config.maxRedirects; hop++) {
+    checkUrl(url, config);
+    const response = await requestOnce(url, headers, config, partialBytes);
+    const location = response.headers.location;
+
+    if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+      url = new URL(location, url);
+      continue;
+    }
+    return response;
+  }
+
+  throw new FetchError(508, `Too many redirects (more than ${config.maxRedirects}).`);
+};
+
+/**
+ * Works out what a body really is. Servers often send a generic or wrong Content-Type,
+ * so the header is checked against the first bytes of the body and the URL extension.
+ */
+export const detectContentType = (header: string | undefined, body: Buffer, url: string): string => {
+  const declared = (header || '').split(';')[0].trim().toLowerCase();
+  const head = body.subarray(0, 512).toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  const path = new URL(url).pathname.toLowerCase();
+
+  if (body.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return 'text/html';
+  if (head.startsWith('<?xml') || head.startsWith('<rss') || head.startsWith('<feed')) {
+    if (head.includes('<rss')) return 'application/rss+xml';
+    if (head.includes('<feed')) return 'application/atom+xml';
+    if (declared) return declared;
+    return 'application/xml';
+  }
+
+  const generic = !declared || declared === 'application/octet-stream' || declared === 'text/plain';
+  if (generic) {
+    if (path.endsWith('.md') || path.endsWith('.markdown')) return 'text/markdown';
+    if (path.endsWith('.json') || head.startsWith('{') || head.startsWith('[')) {
+      try {
+        JSON.parse(body.toString('utf8'));
+        return 'application/json';
+      } catch {
+        // Not JSON after all
+      }
+    }
+    if (path.endsWith('.txt')) return 'text/plain';
+  }
+
+  return declared || 'application/octet-stream';
+};
+
+export const sendError = (res: http.ServerResponse, status: number, message: string) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: message }));
+};
+
+/**
+ * Handles GET /api/fetch?url=... Works as a plain Node request listener and as
+ * connect middleware (Vite dev server). With &probe=1 only the start of the body is
+ * fetched, and X-Truncated tells whether that was all of it.
+ */
+export const createFetchHandler = (config: FetchConfig) =>
+  async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method !== 'GET') {
+      sendError(res, 405, 'Method not allowed.');
+      return;
+    }
+
+    const params = new URL(req.url || '', 'http://localhost').searchParams;
+    const target = params.get('url');
+    const isProbe = params.get('probe') === '1';
+    if (!target) {
+      sendError(res, 400, 'Missing "url" query parameter.');
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    }
+
+    try {
+      const upstream = await fetchUpstream(target, headers, config, isProbe ? PROBE_BYTES : undefined);
+
+      res.setHeader('X-Final-Url', upstream.url);
+      res.setHeader('X-Upstream-Status', String(upstream.status));
+      res.setHeader('Cache-Control', 'no-store');
+      if (isProbe) res.setHeader('X-Truncated', String(Boolean(upstream.truncated)));
+      for (const name of RELAYED_RESPONSE_HEADERS) {
+        const value = upstream.headers[name];
+        if (typeof value === 'string') res.setHeader(name, value);
+      }
+
+      if (upstream.status === 304) {
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+
+      if (upstream.status >= 400) {
+        sendError(res, upstream.status, `The site responded with ${upstream.status}.`);
+        return;
+      }
+
+      const contentType = detectContentType(upstream.headers['content-type'], upstream.body, upstream.url);
+      const charset = /charset=([^;]+)/i.exec(upstream.headers['content-type'] || '')?.[1];
+      res.statusCode = 200;
+      res.setHeader('Content-Type', charset ? `${contentType}; charset=${charset}` : contentType);
+      res.setHeader('Content-Length', String(upstream.body.length));
+      res.end(upstream.body);
+
+    } catch (error: any) {
+      if (error instanceof FetchError) {
+        sendError(res, error.status, error.message);
+      } else {
+        sendError(res, 500, error?.message || 'Unexpected error while fetching.');
+      }
+    }
+  };
@@ -0,0 +1,88 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadFetchConfig, loadRenderConfig, loadSearchConfig } from './config';
+import { createFetchHandler } from './fetchHandler';
+import { closeBrowser, createRenderHandler } from './renderHandler';
+import { createSearchHandler } from './searchHandler';
+
+/**
+ * Standalone server: exposes /api/fetch, /api/render and /api/search and serves the production build from dist/.
+ * Run with `npm run build && npm run server`.
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.map': 'application/json',
+};
+
+const fetchConfig = loadFetchConfig(process.env);
+const handleFetch = createFetchHandler(fetchConfig);
+const handleRender = createRenderHandler(fetchConfig, loadRenderConfig(process.env));
+const handleSearch = createSearchHandler(loadSearchConfig(process.env));
+
+const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+  } catch {
+    res.statusCode = 400;
+    res.end('Malformed URL.');
+    return;
+  }
+  let filePath = path.join(DIST_DIR, pathname);
+
+  // Never serve anything outside dist/, and fall back to index.html for client-side routes.
+  const relative = path.relative(DIST_DIR, filePath);
+  const isInside = relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+  if (!isInside || !fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+    filePath = path.join(DIST_DIR, 'index.html');
+  }
+
+  if (!fs.existsSync(filePath)) {
+    res.statusCode = 404;
+    res.end('Not found. Run `npm run build` first to serve the app.');
+    return;
+  }
+
+  res.setHeader('Content-Type', MIME_TYPES[path.extname(filePath)] || 'application/octet-stream');
+  fs.createReadStream(filePath).pipe(res);
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url?.startsWith('/api/fetch')) {
+    handleFetch(req, res);
+    return;
+  }
+  if (req.url?.startsWith('/api/render')) {
+    handleRender(req, res);
+    return;
+  }
+  if (req.url?.startsWith('/api/search')) {
+    handleSearch(req, res);
+    return;
+  }
+  serveStatic(req, res);
+});
+
+server.listen(PORT, () => {
+  console.log(`SiteScout server listening on http://localhost:${PORT}`);
+});
+
+// Don't leave a headless browser behind.
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    server.close();
+    closeBrowser().finally(() => process.exit(0));
+  });
+}
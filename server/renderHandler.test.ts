@@ -0,0 +1,161 @@
+import http from 'node:http';
+import dns from 'node:dns';
+import net, { AddressInfo } from 'node:net';
+import { chromium } from 'playwright';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadFetchConfig, loadRenderConfig } from './config';
+import { closeBrowser, createRenderHandler, startGuardedProxy } from './renderHandler';
+
+// No browser is installed in CI, so Playwright is replaced by a stub that records
+// what the handler sets up before it navigates.
+const calls: string[] = [];
+const webSocketRoutes: { pattern: unknown; handler: (ws: { close: () => void }) => void }[] = [];
+
+vi.mock('playwright', () => {
+  const page = {
+    goto: vi.fn(async () => {
+      calls.push('goto');
+      return { status: () => 200 };
+    }),
+    url: () => 'http://93.184.216.34/',
+    content: async () => '<html><body>Rendered</body></html>',
+    waitForSelector: vi.fn(),
+    waitForTimeout: vi.fn(),
+  };
+  const context = {
+    route: vi.fn(async () => { calls.push('route'); }),
+    routeWebSocket: vi.fn(async (pattern: unknown, handler: (ws: { close: () => void }) => void) => {
+      calls.push('routeWebSocket');
+      webSocketRoutes.push({ pattern, handler });
+    }),
+    newPage: async () => page,
+    close: async () => undefined,
+  };
+  const browser = { newContext: async () => context, close: async () => undefined };
+  return { chromium: { launch: vi.fn(async () => browser) } };
+});
+
+describe('createRenderHandler', () => {
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    const handler = createRenderHandler(loadFetchConfig({}), loadRenderConfig({}));
+    server = http.createServer((req, res) => { handler(req, res); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await closeBrowser();
+  });
+
+  it('closes every WebSocket the page opens before navigating', async () => {
+    const response = await fetch(`${base}/?url=${encodeURIComponent('http://93.184.216.34/')}&waitUntil=load`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('Rendered');
+
+    expect(calls.indexOf('routeWebSocket')).toBeGreaterThan(-1);
+    expect(calls.indexOf('routeWebSocket')).toBeLessThan(calls.indexOf('goto'));
+
+    const [{ pattern, handler }] = webSocketRoutes;
+    expect(pattern).toBe('**');
+    const ws = { close: vi.fn() };
+    handler(ws);
+    expect(ws.close).toHaveBeenCalled();
+  });
+
+  it('sends the browser through the guarded proxy', () => {
+    const [[options]] = vi.mocked(chromium.launch).mock.calls;
+    expect(options?.proxy?.server).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+  });
+
+  it('refuses private addresses before rendering', async () => {
+    const response = await fetch(`${base}/?url=${encodeURIComponent('http://127.0.0.1:9/')}`);
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('startGuardedProxy', () => {
+  const proxies: http.Server[] = [];
+
+  const start = async (allowPrivateNetworks = false) => {
+    const proxy = await startGuardedProxy({ ...loadFetchConfig({}), allowPrivateNetworks });
+    proxies.push(proxy);
+    return (proxy.address() as AddressInfo).port;
+  };
+
+  // Resolves connect() with the status line and, once tunnelled, the socket.
+  const connect = (proxyPort: number, target: string): Promise<{ status: number; socket: net.Socket }> =>
+    new Promise((resolve, reject) => {
+      http.request({ host: '127.0.0.1', port: proxyPort, method: 'CONNECT', path: target })
+        .on('connect', (response, socket) => resolve({ status: response.statusCode || 0, socket }))
+        .on('error', reject)
+        .end();
+    });
+
+  const get = (proxyPort: number, url: string): Promise<{ status: number; body: string }> =>
+    new Promise((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port: proxyPort, path: url, headers: { host: new URL(url).host } }, response => {
+        let body = '';
+        response.on('data', chunk => (body += chunk));
+        response.on('end', () => resolve({ status: response.statusCode || 0, body }));
+      }).on('error', reject);
+    });
+
+  // A host that passed the request guard with a public address now resolves to loopback.
+  const rebind = () => {
+    const lookup = dns.lookup;
+    vi.spyOn(dns, 'lookup').mockImplementation(((hostname: string, options: unknown, callback: (...args: unknown[]) => void) =>
+      hostname === 'rebind.test'
+        ? callback(null, [{ address: '127.0.0.1', family: 4 }])
+        : (lookup as (...args: unknown[]) => void)(hostname, options, callback)) as typeof dns.lookup);
+  };
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await Promise.all(proxies.splice(0).map(proxy => new Promise(resolve => {
+      proxy.close(resolve);
+      proxy.closeAllConnections();
+    })));
+  });
+
+  it('refuses to tunnel to a private address', async () => {
+    const { status, socket } = await connect(await start(), '127.0.0.1:22');
+    socket.destroy();
+    expect(status).toBe(403);
+  });
+
+  it('checks the address the host resolves to when connecting', async () => {
+    rebind();
+    const port = await start();
+    const tunnel = await connect(port, 'rebind.test:443');
+    tunnel.socket.destroy();
+    expect(tunnel.status).toBe(403);
+    expect((await get(port, 'http://rebind.test/')).status).toBe(403);
+  });
+
+  it('relays requests and tunnels when private networks are allowed', async () => {
+    const upstream = http.createServer((_, res) => res.end('hello'));
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    const upstreamPort = (upstream.address() as AddressInfo).port;
+
+    try {
+      const port = await start(true);
+      expect(await get(port, `http://127.0.0.1:${upstreamPort}/`)).toEqual({ status: 200, body: 'hello' });
+
+      const { status, socket } = await connect(port, `127.0.0.1:${upstreamPort}`);
+      expect(status).toBe(200);
+      const reply = await new Promise<string>(resolve => {
+        socket.once('data', chunk => resolve(chunk.toString()));
+        socket.write('GET / HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n');
+      });
+      socket.destroy();
+      expect(reply).toMatch(/^HTTP\/1\.1 200/);
+    } finally {
+      upstream.closeAllConnections();
+      await new Promise(resolve => upstream.close(resolve));
+    }
+  });
+});
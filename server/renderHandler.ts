@@ -0,0 +1,311 @@
+import http from 'node:http';
+import dns from 'node:dns';
+import net from 'node:net';
+import { Duplex } from 'node:stream';
+import type { Browser, BrowserContext } from 'playwright';
+import { FetchConfig, RenderConfig } from './config';
+import { checkUrl, createSafeLookup, FetchError, isPrivateAddress, sendError } from './fetchHandler';
+
+/**
+ * Renders JavaScript-only pages in headless Chromium and returns the resulting HTML,
+ * for sites whose static HTML is an empty application shell.
+ */
+
+export type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle';
+
+const WAIT_UNTIL: WaitUntil[] = ['load', 'domcontentloaded', 'networkidle'];
+
+// Nothing the extractor reads; skipping them makes renders much faster.
+const BLOCKED_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+
+let browserPromise: Promise<Browser> | null = null;
+let proxyServer: http.Server | null = null;
+
+const statusOf = (error: unknown): number => (error instanceof FetchError ? error.status : 502);
+
+/**
+ * Forward proxy that every connection of the headless browser goes through. Chromium
+ * would otherwise resolve hosts itself, so a DNS-rebinding host could show the request
+ * guard a public address and the browser a private one; here each connection is made
+ * with the fetch backend's safe lookup, which checks the address actually used.
+ */
+export const startGuardedProxy = async (config: FetchConfig): Promise<http.Server> => {
+  const lookup = createSafeLookup(config);
+
+  // Plain http:// requests arrive with an absolute URL.
+  const server = http.createServer((req, res) => {
+    let url: URL;
+    try {
+      url = new URL(req.url || '');
+      checkUrl(url, config);
+    } catch (error) {
+      sendError(res, error instanceof FetchError ? error.status : 400, error instanceof Error ? error.message : 'Invalid URL.');
+      return;
+    }
+
+    const headers = { ...req.headers };
+    delete headers['proxy-connection'];
+    delete headers['proxy-authorization'];
+    const upstream = http.request(url, { method: req.method, headers, lookup }, response => {
+      res.writeHead(response.statusCode || 502, response.headers);
+      response.pipe(res);
+    });
+    upstream.on('error', error => {
+      if (res.headersSent) res.destroy();
+      else sendError(res, statusOf(error), error.message);
+    });
+    req.pipe(upstream);
+  });
+
+  // https:// and WebSocket traffic is tunnelled with CONNECT host:port.
+  server.on('connect', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    const refuse = (status: number) => socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status] || ''}\r\n\r\n`);
+    let url: URL;
+    try {
+      url = new URL(`https://${req.url}`);
+      checkUrl(url, config);
+    } catch (error) {
+      refuse(error instanceof FetchError ? error.status : 400);
+      return;
+    }
+
+    let connected = false;
+    const upstream = net.connect({
+      host: url.hostname.replace(/^\[|\]$/g, ''),
+      port: Number(url.port) || 443,
+      lookup,
+    });
+    upstream.on('connect', () => {
+      connected = true;
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', error => {
+      if (connected) socket.destroy();
+      else refuse(statusOf(error));
+    });
+    socket.on('error', () => upstream.destroy());
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+/**
+ * Launches one shared browser on first use, behind the guarded proxy. Playwright is
+ * imported lazily so the server runs without it; rendering is then reported as unavailable.
+ */
+const getBrowser = (config: FetchConfig): Promise<Browser> =>
+  (browserPromise ??= import('playwright')
+    .then(async ({ chromium }) => {
+      proxyServer = await startGuardedProxy(config);
+      const { port } = proxyServer.address() as net.AddressInfo;
+      // Playwright sends loopback traffic through the proxy too, so localhost gets no exemption.
+      return chromium.launch({ proxy: { server: `http://127.0.0.1:${port}` } });
+    })
+    .catch(error => {
+      browserPromise = null;
+      proxyServer?.close();
+      proxyServer = null;
+      throw new FetchError(
+        501,
+        `Headless rendering is unavailable (${error.message.split('\n')[0]}). Install it with "npm install playwright && npx playwright install chromium".`
+      );
+    }));
+
+export const closeBrowser = async (): Promise<void> => {
+  const pending = browserPromise;
+  const proxy = proxyServer;
+  browserPromise = null;
+  proxyServer = null;
+  await pending?.then(browser => browser.close()).catch(() => undefined);
+  proxy?.close();
+  proxy?.closeAllConnections();
+};
+
+/**
+ * Applies the fetch backend's rules to every request the page makes, so a rendered page
+ * can't be used to reach private addresses, and refuses them with a readable error. The
+ * host is resolved here before the browser connects, so this check alone could be fooled
+ * by DNS rebinding; the guarded proxy is what holds at connect time. The browser follows
+ * redirects on its own, so the final URL is checked again after navigation.
+ */
+const createRequestGuard = (config: FetchConfig) => {
+  const verdicts = new Map<string, Promise<void>>();
+
+  const checkHost = (host: string): Promise<void> => {
+    if (config.allowPrivateNetworks || net.isIP(host)) return Promise.resolve(); // Literal IPs are covered by checkUrl
+    let verdict = verdicts.get(host);
+    if (!verdict) {
+      verdict = dns.promises.lookup(host, { all: true }).then(
+        addresses => {
+          if (addresses.some(entry => isPrivateAddress(entry.address))) {
+            throw new FetchError(403, 'Fetching private network addresses is not allowed.');
+          }
+        },
+        (error: Error) => {
+          throw new FetchError(502, `Failed to fetch: ${error.message}`);
+        }
+      );
+      verdicts.set(host, verdict);
+    }
+    return verdict;
+  };
+
+  // Throws a FetchError explaining why the URL may not be loaded.
+  return async (target: string): Promise<void> => {
+    const url = new URL(target);
+    if (url.protocol === 'data:' || url.protocol === 'blob:') return;
+    checkUrl(url, config);
+    await checkHost(url.hostname.toLowerCase().replace(/^\[|\]$/g, ''));
+  };
+};
+
+/**
+ * Limits how many pages render at once; the rest wait their turn.
+ */
+const createLimiter = (max: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    while (active >= max) await new Promise<void>(resolve => waiting.push(resolve));
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+};
+
+interface RenderRequest {
+  url: string;
+  waitUntil: WaitUntil;
+  waitForSelector?: string; // Wait until this element exists, e.g. "main article"
+  delayMs: number; // Extra settle time after the other conditions
+}
+
+const isTimeout = (error: unknown): boolean => error instanceof Error && error.name === 'TimeoutError';
+
+const renderPage = async (
+  request: RenderRequest,
+  fetchConfig: FetchConfig,
+  renderConfig: RenderConfig
+): Promise<{ url: string; html: string }> => {
+  const deadline = Date.now() + renderConfig.timeoutMs;
+  const remaining = () => Math.max(1, deadline - Date.now());
+  const check = createRequestGuard(fetchConfig);
+  await check(request.url);
+
+  const browser = await getBrowser(fetchConfig);
+  let context: BrowserContext | null = null;
+  try {
+    context = await browser.newContext({ serviceWorkers: 'block', acceptDownloads: false });
+    await context.route('**/*', async route => {
+      const routed = route.request();
+      const allowed = !BLOCKED_RESOURCE_TYPES.has(routed.resourceType())
+        && await check(routed.url()).then(() => true, () => false);
+      if (!allowed) {
+        await route.abort('blockedbyclient');
+        return;
+      }
+      await route.continue();
+    });
+    // WebSockets don't go through route(), so they would skip the guard; nothing we extract needs them.
+    await context.routeWebSocket('**', ws => ws.close());
+
+    const page = await context.newPage();
+    try {
+      const response = await page.goto(request.url, { waitUntil: request.waitUntil, timeout: remaining() });
+      if (response && response.status() >= 400) {
+        throw new FetchError(response.status(), `The site responded with ${response.status()}.`);
+      }
+    } catch (error) {
+      // Busy pages may never go network-idle; whatever rendered so far is still useful.
+      if (!isTimeout(error) || page.url() === 'about:blank') throw error;
+    }
+
+    if (request.waitForSelector) {
+      await page.waitForSelector(request.waitForSelector, { state: 'attached', timeout: remaining() }).catch(error => {
+        if (!isTimeout(error)) throw new FetchError(400, `Invalid wait selector: ${request.waitForSelector}`);
+      });
+    }
+    const delay = Math.min(request.delayMs, renderConfig.maxDelayMs, deadline - Date.now());
+    if (delay > 0) await page.waitForTimeout(delay);
+
+    const finalUrl = page.url();
+    await check(finalUrl);
+
+    const html = await page.content();
+    if (Buffer.byteLength(html) > fetchConfig.maxBytes) {
+      throw new FetchError(413, `The rendered page is larger than the ${fetchConfig.maxBytes} byte limit.`);
+    }
+    return { url: finalUrl, html };
+  } finally {
+    await context?.close().catch(() => undefined);
+  }
+};
+
+/**
+ * Handles GET /api/render?url=...&waitUntil=...&waitFor=...&delay=... and answers with the
+ * rendered HTML, like /api/fetch does for static pages.
+ */
+export const createRenderHandler = (fetchConfig: FetchConfig, renderConfig: RenderConfig) => {
+  const limit = createLimiter(renderConfig.maxConcurrent);
+
+  return async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method !== 'GET') {
+      sendError(res, 405, 'Method not allowed.');
+      return;
+    }
+    if (!renderConfig.enabled) {
+      sendError(res, 501, 'Headless rendering is disabled on this server.');
+      return;
+    }
+
+    const params = new URL(req.url || '', 'http://localhost').searchParams;
+    const target = params.get('url');
+    if (!target) {
+      sendError(res, 400, 'Missing "url" query parameter.');
+      return;
+    }
+
+    try {
+      new URL(target);
+    } catch {
+      sendError(res, 400, 'Invalid URL.');
+      return;
+    }
+
+    const waitUntil = params.get('waitUntil') as WaitUntil | null;
+    const request: RenderRequest = {
+      url: target,
+      waitUntil: waitUntil && WAIT_UNTIL.includes(waitUntil) ? waitUntil : 'networkidle',
+      waitForSelector: params.get('waitFor')?.trim() || undefined,
+      delayMs: Math.max(0, Number(params.get('delay')) || 0),
+    };
+
+    try {
+      const { url, html } = await limit(() => renderPage(request, fetchConfig, renderConfig));
+      const body = Buffer.from(html, 'utf8');
+      res.statusCode = 200;
+      res.setHeader('X-Final-Url', url);
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Length', String(body.length));
+      res.end(body);
+    } catch (error: any) {
+      if (error instanceof FetchError) {
+        sendError(res, error.status, error.message);
+      } else if (isTimeout(error)) {
+        sendError(res, 504, `The page did not finish rendering within ${renderConfig.timeoutMs / 1000}s.`);
+      } else {
+        sendError(res, 502, `Failed to render: ${error?.message?.split('\n')[0] || 'unknown error'}`);
+      }
+    }
+  };
+};
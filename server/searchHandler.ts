@@ -0,0 +1,166 @@
+import http from 'node:http';
+import { SearchConfig, SearchEngine } from './config';
+import { FetchError, sendError } from './fetchHandler';
+
+/**
+ * Web search for Discover, backed by a SearXNG instance or a Brave/Bing-style search API.
+ * Runs server-side so API keys never reach the browser.
+ */
+
+export interface SearchHit {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * Optional language (ISO 639-1) and region (ISO 3166-1 alpha-2, uppercase) to search in.
+ */
+export interface SearchFilter {
+  language?: string;
+  region?: string;
+}
+
+const ENGINE_LABELS: Record<SearchEngine, string> = {
+  searxng: 'SearXNG',
+  brave: 'Brave Search',
+  bing: 'Bing',
+};
+
+const MAX_COUNT = 20;
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}$/i;
+const REGION_PATTERN = /^[a-z]{2}$/i;
+
+// Brave and Bing mark query terms in snippets with HTML.
+const stripTags = (text: string): string =>
+  text.replace(/<[^>]+>/g, '').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+
+// The parts of each engine's response we read. Values come from a third party, so
+// every field is converted to a string rather than trusted to be one.
+interface SearxngResponse {
+  results?: { title?: unknown; url?: unknown; content?: unknown }[];
+}
+
+interface BraveResponse {
+  web?: { results?: { title?: unknown; url?: unknown; description?: unknown }[] };
+}
+
+interface BingResponse {
+  webPages?: { value?: { name?: unknown; url?: unknown; snippet?: unknown }[] };
+}
+
+const getJson = async <T>(url: string, headers: Record<string, string>, config: SearchConfig): Promise<T> => {
+  const response = await fetch(url, {
+    headers: { accept: 'application/json', ...headers },
+    signal: AbortSignal.timeout(config.timeoutMs),
+  });
+  if (!response.ok) {
+    throw new FetchError(502, `The search engine responded with ${response.status}.`);
+  }
+  return response.json();
+};
+
+const searchSearxng = async (query: string, count: number, filter: SearchFilter, config: SearchConfig): Promise<SearchHit[]> => {
+  const params = new URLSearchParams({ q: query, format: 'json' });
+  // SearXNG takes a locale; a region alone can't be expressed.
+  if (filter.language) params.set('language', filter.region ? `${filter.language}-${filter.region}` : filter.language);
+  const data = await getJson<SearxngResponse>(`${config.searxngUrl}/search?${params}`, {}, config);
+  return (data.results || []).slice(0, count).map(item => ({
+    title: String(item.title || ''),
+    url: String(item.url || ''),
+    snippet: stripTags(String(item.content || '')),
+  }));
+};
+
+const searchBrave = async (query: string, count: number, filter: SearchFilter, config: SearchConfig): Promise<SearchHit[]> => {
+  const params = new URLSearchParams({ q: query, count: String(count) });
+  if (filter.language) params.set('search_lang', filter.language);
+  if (filter.region) params.set('country', filter.region);
+  const data = await getJson<BraveResponse>(
+    `https://api.search.brave.com/res/v1/web/search?${params}`,
+    { 'x-subscription-token': config.braveApiKey },
+    config
+  );
+  return (data.web?.results || []).map(item => ({
+    title: stripTags(String(item.title || '')),
+    url: String(item.url || ''),
+    snippet: stripTags(String(item.description || '')),
+  }));
+};
+
+const searchBing = async (query: string, count: number, filter: SearchFilter, config: SearchConfig): Promise<SearchHit[]> => {
+  const params = new URLSearchParams({ q: query, count: String(count), responseFilter: 'Webpages' });
+  // A market needs both parts; otherwise the language and country are passed separately.
+  if (filter.language && filter.region) params.set('mkt', `${filter.language}-${filter.region}`);
+  else if (filter.region) params.set('cc', filter.region);
+  if (filter.language) params.set('setLang', filter.language);
+  const data = await getJson<BingResponse>(
+    `${config.bingEndpoint}?${params}`,
+    { 'ocp-apim-subscription-key': config.bingApiKey },
+    config
+  );
+  return (data.webPages?.value || []).map(item => ({
+    title: stripTags(String(item.name || '')),
+    url: String(item.url || ''),
+    snippet: stripTags(String(item.snippet || '')),
+  }));
+};
+
+const ENGINES: Record<SearchEngine, (query: string, count: number, filter: SearchFilter, config: SearchConfig) => Promise<SearchHit[]>> = {
+  searxng: searchSearxng,
+  brave: searchBrave,
+  bing: searchBing,
+};
+
+/**
+ * Handles GET /api/search?q=...&count=...[&lang=...][&region=...] and answers with { engine, results }.
+ * Answers 501 when no engine is configured, so the app can fall back to another provider.
+ */
+export const createSearchHandler = (config: SearchConfig) =>
+  async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method !== 'GET') {
+      sendError(res, 405, 'Method not allowed.');
+      return;
+    }
+    if (!config.engine) {
+      sendError(res, 501, 'No web search engine is configured on this server.');
+      return;
+    }
+
+    const params = new URL(req.url || '', 'http://localhost').searchParams;
+    const query = params.get('q')?.trim();
+    if (!query) {
+      sendError(res, 400, 'Missing "q" query parameter.');
+      return;
+    }
+    const count = Math.min(MAX_COUNT, Math.max(1, Number(params.get('count')) || 10));
+
+    const language = params.get('lang')?.trim();
+    const region = params.get('region')?.trim();
+    if ((language && !LANGUAGE_PATTERN.test(language)) || (region && !REGION_PATTERN.test(region))) {
+      sendError(res, 400, '"lang" must be a language code like "de", and "region" a country code like "AT".');
+      return;
+    }
+    const filter: SearchFilter = {
+      language: language?.toLowerCase() || undefined,
+      region: region?.toUpperCase() || undefined,
+    };
+
+    try {
+      const results = (await ENGINES[config.engine](query, count, filter, config))
+        .filter(hit => /^https?:\/\//i.test(hit.url));
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(JSON.stringify({ engine: ENGINE_LABELS[config.engine], results }));
+    } catch (error: any) {
+      if (error instanceof FetchError) {
+        sendError(res, error.status, error.message);
+      } else if (error?.name === 'TimeoutError') {
+        sendError(res, 504, `The search engine did not respond within ${config.timeoutMs / 1000}s.`);
+      } else {
+        sendError(res, 502, `Search failed: ${error?.message || 'unknown error'}`);
+      }
+    }
+  };
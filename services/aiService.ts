@@ -1,102 +1,685 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ChatMessage, SearchResultItem } from "../types";
+import { AnswerGrade, AnswerVerdict, Briefing, ChatMessage, ChatResponse, ContentChunk, ContextCoverage, ExtractedValue, ExtractionField, ExtractionTemplate, QuizQuestion, QuizQuestionKind, SearchResultItem, StudyReference, TokenUsage, WebSearchResult, WebsitePage } from "../types";
+import { RetrievalIndex, retrieveContext } from "./retrievalService";
+import { resolveCitations, stripFootnotes } from "./citationService";
+import { getProvider, ProviderNotConfiguredError } from "./llmProvider";
+import { ChatTurn, JsonSchema } from "./providers/types";
+import { sourceLabel } from "./scraperService";
+import { fenceUntrusted, UNTRUSTED_CONTENT_RULE } from "./injectionService";
+import { getAnswerLanguage, languageName } from "./languageService";
 
-// Note: process.env.API_KEY is polyfilled by Vite. See vite.config.ts.
-if (!process.env.API_KEY) {
-  throw new Error("Google API Key is missing. Please set VITE_API_KEY in your .env file.");
+/**
+ * Formats retrieved chunks as labelled excerpts so the model knows which page each came
+ * from. In a multi-source workspace, excerpts are grouped under a heading per source.
+ */
+const formatExcerpts = (chunks: ContentChunk[]): string => {
+  let currentSource: string | undefined;
+  return chunks
+    .map(chunk => {
+      const location = chunk.heading ? `${chunk.title} › ${chunk.heading}` : chunk.title;
+      const excerpt = `[${chunk.id}] ${location} (${chunk.url})\n${chunk.text}`;
+      if (!chunk.source || chunk.source === currentSource) return excerpt;
+      currentSource = chunk.source;
+      return `## Source: ${chunk.source}\n\n${excerpt}`;
+    })
+    .join('\n\n');
+};
+
+/**
+ * Extra instructions when the materials come from several sources the user wants to compare.
+ */
+const COMPARISON_INSTRUCTION = `The study materials come from several sources, grouped under "## Source:" headings. The user is comparing them. Attribute every claim to its source by name, e.g. "Acme (acme.com) charges $20 per month [c4], while Globex (globex.io) offers a free tier [c12]." Point out where the sources agree, where they differ, and where a source says nothing on the subject. Never merge facts from different sources into one unattributed statement.
+`;
+
+/**
+ * Builds the retrieval query from the latest user turn, plus the one before it so
+ * that short follow-ups ("what about pricing?") keep their subject.
+ */
+const buildRetrievalQuery = (messages: ChatMessage[]): string =>
+  messages
+    .filter(m => m.role === 'user')
+    .slice(-2)
+    .map(m => m.content)
+    .join(' ');
+
+/**
+ * Extra instructions when the user asked about a passage selected in the reader.
+ */
+const FOCUS_INSTRUCTION = `The user selected the passage [c0] in the reader and is asking about it. Answer with respect to that passage first, and use the other excerpts only for surrounding context.
+`;
+
+/**
+ * Extra instructions when the user asked about the changes between two snapshots.
+ */
+const CHANGES_INSTRUCTION = `Excerpt [c0] lists what changed on the website between two snapshots: lines starting with "+" were added and lines starting with "-" were removed, grouped by page and section. Answer from that list, cite it as [c0], and summarise the changes that matter rather than repeating every line. The other excerpts show the current version of the website.
+`;
+
+/**
+ * Prefixes a user turn with the passage it was about, so follow-ups keep their subject.
+ * Diffs are too long to repeat in every turn, so those are referred to by title.
+ */
+const withFocus = (message: ChatMessage): string => {
+  if (!message.focus) return message.content;
+  return message.focus.kind === 'changes'
+    ? `About ${message.focus.title}:\n\n${message.content}`
+    : `About this passage: "${message.focus.text}"\n\n${message.content}`;
+};
+
+/**
+ * Tells the model which language to answer in, and how to quote material written in
+ * another one. `sourceLanguages` are the detected languages of the content, if known.
+ */
+const languageInstruction = (sourceLanguages: string[] = []): string => {
+  const answer = getAnswerLanguage();
+  const name = languageName(answer);
+  const foreign = Array.from(new Set(sourceLanguages.filter(code => code !== answer))).map(languageName);
+  return `Always write your answer in ${name}, whatever language the materials or the question are in.${
+    foreign.length > 0 ? ` The materials are written in ${foreign.join(' and ')}.` : ''
+  } When you quote a passage that is not in ${name}, keep the quote in its original language and follow it with a ${name} translation in parentheses, e.g. "Versand ist kostenlos" (Shipping is free) [c3].`;
+};
+
+export interface ChatOptions {
+  maxHistoryMessages?: number; // Send only this many of the latest messages, to save tokens
+  sourceLanguages?: string[]; // Detected languages of the sources, see languageService
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const contentLength = (chunks: ContentChunk[]): number => chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+
+// Roughly four characters per token, for servers that report no usage.
+const estimateTokens = (chars: number): number => Math.ceil(chars / 4);
+
+/**
+ * Retrieves the excerpts for the latest question and assembles the system instruction
+ * and conversation contents shared by the blocking and streaming chat calls, along with
+ * how much of the content made it into the prompt. The excerpts are page text, so they
+ * travel fenced alongside the latest question instead of inside the system instruction.
+ */
+const buildChatRequest = async (index: RetrievalIndex, messages: ChatMessage[], options: ChatOptions = {}) => {
+  const focus = [...messages].reverse().find(m => m.role === 'user')?.focus;
+  const retrieved = await retrieveContext(index, [buildRetrievalQuery(messages), focus?.text].filter(Boolean).join(' '));
+
+  // A selected passage or diff goes first, as excerpt c0 (chunk ids start at c1).
+  const isChanges = focus?.kind === 'changes';
+  const excerpts: ContentChunk[] = focus
+    ? [{ id: 'c0', url: focus.url, title: focus.title, heading: isChanges ? 'Changes between snapshots' : 'Selected passage', text: focus.text }, ...retrieved]
+    : retrieved;
+  const isComparison = new Set(excerpts.map(chunk => chunk.source).filter(Boolean)).size > 1;
+
+  const systemInstruction = `You are a specialized website assistant. Your goal is to answer questions and discuss topics based *only* on the provided study materials. Do not use any external knowledge. If the answer is not in the materials, say "I can't find that information in the provided text." Be friendly and concise.
+
+The study materials are the excerpts of the website most relevant to the current question. They are attached to the user's latest message. Each excerpt starts with its id in square brackets, the page title and the page URL.
+
+${UNTRUSTED_CONTENT_RULE}
+
+Cite your sources: after every sentence that uses information from an excerpt, add the excerpt id in square brackets, e.g. "The plan costs $20 per month [c4]." Use several ids when a sentence draws on several excerpts, e.g. [c2, c7]. Only cite ids that appear in the study materials.
+
+${languageInstruction(options.sourceLanguages)}
+${isComparison ? `\n${COMPARISON_INSTRUCTION}` : ''}${focus ? `\n${isChanges ? CHANGES_INSTRUCTION : FOCUS_INSTRUCTION}` : ''}`;
+
+  // The last message in the history is the current user prompt.
+  const history = messages.filter(m => (m.role === 'user' || m.role === 'model') && m.status !== 'error');
+  const kept = options.maxHistoryMessages ? history.slice(-options.maxHistoryMessages) : history;
+  const contents: ChatTurn[] = kept.map(m => ({
+    role: m.role as ChatTurn['role'],
+    text: stripFootnotes(withFocus(m))
+  }));
+  const latest = contents[contents.length - 1];
+  if (latest?.role === 'user') latest.context = `Study materials:\n${fenceUntrusted(formatExcerpts(excerpts))}`;
+
+  const all = index.all();
+  const context: ContextCoverage = {
+    excerpts: retrieved.length,
+    totalExcerpts: all.length,
+    chars: contentLength(retrieved),
+    totalChars: contentLength(all),
+    ...(kept.length < history.length ? { trimmedMessages: history.length - kept.length } : {}),
+  };
+
+  return { excerpts, systemInstruction, contents, context };
+};
+
+/**
+ * Collects the usage a provider reports for a request, or estimates it from the text sent
+ * and received when the server reports none.
+ */
+const trackUsage = (system: string, contents: ChatTurn[]) => {
+  let reported: TokenUsage | null = null;
+  return {
+    onUsage: (usage: TokenUsage) => { reported = usage; },
+    result: (output: string): TokenUsage => reported || {
+      promptTokens: estimateTokens(system.length + contents.reduce((sum, turn) => sum + turn.text.length + (turn.context?.length || 0), 0)),
+      outputTokens: estimateTokens(output.length),
+      estimated: true,
+    },
+  };
+};
+
+// Opening excerpts the briefing is written from; enough to cover a typical page.
+const BRIEFING_EXCERPTS = 12;
+
+// Discover shows at most this many sources.
+const MAX_DISCOVER_RESULTS = 8;
+
+const BRIEFING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tldr: { type: 'string', description: 'Two or three sentences summarizing the content.' },
+    keyPoints: { type: 'array', items: { type: 'string' }, description: 'The 3-6 most important points, one sentence each.' },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          kind: { type: 'string', description: 'person, organization, product, place or other' }
+        },
+        required: ['name', 'kind']
+      }
+    },
+    dates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string' },
+          event: { type: 'string' }
+        },
+        required: ['date', 'event']
+      }
+    },
+    suggestedQuestions: { type: 'array', items: { type: 'string' }, description: '4-6 follow-up questions the content can answer.' }
+  },
+  required: ['tldr', 'keyPoints', 'entities', 'dates', 'suggestedQuestions']
+};
+
+// Pages are sent whole for extraction, up to this many characters.
+const MAX_EXTRACTION_CHARS = 40000;
+
+// Pages are translated in parts of up to this many characters, split between paragraphs.
+const TRANSLATION_PART_CHARS = 8000;
+
+const splitForTranslation = (content: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (const block of content.split(/\n{2,}/)) {
+    if (current && current.length + block.length > TRANSLATION_PART_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Quizzes and flashcards are written from this many excerpts.
+const STUDY_EXCERPTS = 12;
+
+export interface StudyOptions {
+  count: number;
+  topic?: string; // Focus on this instead of the whole content
+  sourceLanguages?: string[]; // Detected languages of the sources, see languageService
+}
+
+export interface QuizOptions extends StudyOptions {
+  kinds: QuizQuestionKind[];
+}
+
+/**
+ * The excerpts to study from: the ones about the topic, or else a spread over the whole
+ * content so questions don't all come from the opening.
+ */
+const studyExcerpts = async (index: RetrievalIndex, topic?: string): Promise<ContentChunk[]> => {
+  if (topic?.trim()) return retrieveContext(index, topic, STUDY_EXCERPTS);
+  const all = index.all();
+  if (all.length <= STUDY_EXCERPTS) return all;
+  const step = all.length / STUDY_EXCERPTS;
+  return Array.from({ length: STUDY_EXCERPTS }, (_, i) => all[Math.floor(i * step)]);
+};
+
+const studyReference = (excerpts: ContentChunk[], id: unknown): StudyReference | undefined => {
+  const chunk = excerpts.find(c => c.id === String(id || '').replace(/[[\]]/g, '').trim());
+  return chunk && { url: chunk.url, title: chunk.title, text: chunk.text };
+};
+
+// Models tend to put the right option first. Fisher-Yates, so every order is equally likely.
+const shuffleOptions = (options: string[], correct: number): { options: string[]; correctOption: number } => {
+  const order = options.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return { options: order.map(i => options[i]), correctOption: order.indexOf(correct) };
+};
+
+const QUIZ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['multiple-choice', 'short-answer'] },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' }, description: 'Three to five options for multiple choice; empty for short answer.' },
+          correctOption: { type: 'integer', description: 'Index of the correct option; 0 for short answer.' },
+          answer: { type: 'string', description: 'The correct answer as the content gives it.' },
+          explanation: { type: 'string', description: 'One or two sentences on why, from the content.' },
+          excerptId: { type: 'string', description: 'Id of the excerpt the question is based on, e.g. c3.' }
+        },
+        required: ['kind', 'question', 'options', 'correctOption', 'answer', 'explanation', 'excerptId']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+const FLASHCARD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string', description: 'A question or term.' },
+          back: { type: 'string', description: 'The answer or definition, in one or two sentences.' },
+          excerptId: { type: 'string', description: 'Id of the excerpt the card is based on, e.g. c3.' }
+        },
+        required: ['front', 'back', 'excerptId']
+      }
+    }
+  },
+  required: ['cards']
+};
+
+const GRADE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['correct', 'partially-correct', 'incorrect'] },
+    explanation: { type: 'string', description: "Addressed to the learner: what was right or missing, according to the source." }
+  },
+  required: ['verdict', 'explanation']
+};
+
+const VERDICTS: AnswerVerdict[] = ['correct', 'partially-correct', 'incorrect'];
+
+const FIELD_SCHEMAS: Record<ExtractionField['type'], JsonSchema> = {
+  text: { type: 'string' },
+  number: { type: 'number' },
+  boolean: { type: 'boolean' },
+  list: { type: 'array', items: { type: 'string' } },
+};
+
+/**
+ * Fields are optional in the schema, so a value the page doesn't give can be left out
+ * instead of invented.
+ */
+const extractionSchema = (template: ExtractionTemplate): JsonSchema => ({
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: Object.fromEntries(template.fields.map(field => [
+          field.name,
+          { ...FIELD_SCHEMAS[field.type], description: field.description || undefined },
+        ])),
+      },
+    },
+  },
+  required: ['items'],
+});
+
+/**
+ * Coerces a model-returned value to the field's type; anything unusable becomes null.
+ */
+const coerceValue = (value: unknown, type: ExtractionField['type']): ExtractedValue => {
+  if (value === undefined || value === null || value === '') return null;
+  switch (type) {
+    case 'number': {
+      const digits = String(value).replace(/[^\d.eE+-]/g, '');
+      const number = typeof value === 'number' ? value : digits ? Number(digits) : NaN;
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const answer = String(value).trim().toLowerCase();
+      return answer === 'true' || answer === 'yes' ? true : answer === 'false' || answer === 'no' ? false : null;
+    }
+    case 'list':
+      return (Array.isArray(value) ? value : [value]).map(item => String(item).trim()).filter(Boolean);
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value).trim();
+  }
+};
 
 export const aiService = {
   /**
-   * Searches for websites related to a topic using the Gemini API.
+   * Re-ranks real search results for a topic and describes each in a sentence. The model
+   * only picks from the results by index, so it can't introduce URLs of its own. Without
+   * a working model the results keep the engine's order and snippets.
    */
-  async searchWebsites(topic: string): Promise<SearchResultItem[]> {
+  async rankSearchResults(topic: string, results: WebSearchResult[]): Promise<SearchResultItem[]> {
+    const fallback = results.slice(0, MAX_DISCOVER_RESULTS).map(result => ({
+      title: result.title || sourceLabel(result.url),
+      url: result.url,
+      description: result.snippet,
+    }));
+    if (results.length === 0) return [];
+
+    const listing = results
+      .map((result, i) => `[${i}] ${result.title}\n${result.url}\n${result.snippet || '(no snippet)'}`)
+      .join('\n\n');
+
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `You are a helpful research assistant. Find 6-8 high-quality, distinct websites related to the user's topic: "${topic}".`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              websites: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    title: { type: Type.STRING },
-                    url: { type: Type.STRING },
-                    description: { type: Type.STRING }
-                  },
-                  required: ["title", "url", "description"]
-                }
+      const parsed = await getProvider().generateJson<{ results?: { index: number; description: string }[] }>(
+        {
+          system: UNTRUSTED_CONTENT_RULE,
+          contents: `You are a helpful research assistant. Below are web search results for the topic "${topic}". Pick up to ${MAX_DISCOVER_RESULTS} of the most useful, distinct results, best first, and describe each in one sentence based only on its title and snippet.
+
+${fenceUntrusted(listing)}`,
+          temperature: 0.3
+        },
+        {
+          type: 'object',
+          properties: {
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer', description: 'The number in square brackets.' },
+                  description: { type: 'string' }
+                },
+                required: ['index', 'description']
               }
-            },
-            required: ["websites"]
+            }
           },
-          temperature: 0.7
+          required: ['results']
         }
-      });
+      );
 
-      const jsonStr = response.text.trim();
-      const parsed = JSON.parse(jsonStr);
-      return parsed.websites || [];
+      const seen = new Set<number>();
+      const ranked = (parsed.results || [])
+        .filter(item => {
+          if (!Number.isInteger(item.index) || !results[item.index] || seen.has(item.index)) return false;
+          seen.add(item.index);
+          return true;
+        })
+        .slice(0, MAX_DISCOVER_RESULTS)
+        .map(item => ({
+          title: results[item.index].title || sourceLabel(results[item.index].url),
+          url: results[item.index].url,
+          description: item.description || results[item.index].snippet,
+        }));
+      return ranked.length > 0 ? ranked : fallback;
 
     } catch (error) {
-      console.error("Gemini Search Error:", error);
-      throw new Error("Failed to find sources. The AI may be unavailable or the topic too restrictive.");
+      if (!(error instanceof ProviderNotConfiguredError)) console.error("Ranking Error:", error);
+      return fallback;
     }
   },
 
   /**
-   * Generates a chat response based on the provided website context and message history using Gemini.
+   * Writes a structured briefing of the indexed content: TL;DR, key points, entities,
+   * dates and suggested follow-up questions.
    */
-  async getChatResponse(context: string, messages: ChatMessage[]): Promise<string> {
-    const truncatedContext = context.slice(0, 100000); 
+  async generateBriefing(index: RetrievalIndex, signal?: AbortSignal, sourceLanguages?: string[]): Promise<Briefing> {
+    // An empty query retrieves the opening excerpts (of every source, in a workspace).
+    const excerpts = await retrieveContext(index, '', BRIEFING_EXCERPTS);
+    const isComparison = new Set(excerpts.map(chunk => chunk.source).filter(Boolean)).size > 1;
 
-    const systemInstruction = `You are a specialized website assistant. Your goal is to answer questions and discuss topics based *only* on the provided study materials. Do not use any external knowledge. If the answer is not in the materials, say "I can't find that information in the provided text." Be friendly and concise.
+    const briefing = await getProvider().generateJson<Partial<Briefing>>(
+      {
+        system: `You write briefings of web content for a reader who has not seen it yet. Use *only* the provided excerpts and never add outside knowledge. Leave a list empty rather than invent entries.${
+          isComparison ? ' The excerpts come from several sources; the TL;DR and key points should say how the sources relate and differ.' : ''
+        }\n\n${languageInstruction(sourceLanguages)} Give entity names as the content writes them.\n\n${UNTRUSTED_CONTENT_RULE}`,
+        contents: `Write a briefing of this content.\n\n${fenceUntrusted(formatExcerpts(excerpts))}`,
+        temperature: 0.3,
+        signal,
+      },
+      BRIEFING_SCHEMA
+    );
 
-Here are the study materials:
----
-${truncatedContext}
----
-`;
+    return {
+      tldr: briefing.tldr || '',
+      keyPoints: briefing.keyPoints || [],
+      entities: briefing.entities || [],
+      dates: briefing.dates || [],
+      suggestedQuestions: (briefing.suggestedQuestions || []).slice(0, 6),
+    };
+  },
 
-    const history = messages
-      .filter(m => m.role === 'user' || m.role === 'model')
-      .map(m => ({
-        role: m.role,
-        parts: [{ text: m.content }]
-      }));
-    
-    // The last message in the history is the current user prompt.
-    const contents = history;
+  /**
+   * Generates a chat response grounded in the chunks of the site index that are most
+   * relevant to the latest question.
+   */
+  async getChatResponse(index: RetrievalIndex, messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const provider = getProvider();
+    const { excerpts, systemInstruction, contents, context } = await buildChatRequest(index, messages, options);
+    const usage = trackUsage(systemInstruction, contents);
 
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: contents,
-        config: {
-          systemInstruction: systemInstruction,
-          temperature: 0.6,
-        }
+      const resultText = await provider.generateText({
+        system: systemInstruction,
+        contents,
+        temperature: 0.6,
+        onUsage: usage.onUsage,
       });
-      
-      const resultText = response.text;
-      
-      if (!resultText) {
-        throw new Error("Received an empty response from the Gemini API.");
-      }
-      
-      return resultText;
+
+      return { ...resolveCitations(resultText, excerpts), usage: usage.result(resultText), context };
 
     } catch (error: any) {
-      console.error("Gemini API Error:", error);
+      console.error("Chat API Error:", error);
       // Re-throw the original error to be handled by the UI component
       throw error;
     }
+  },
+
+  /**
+   * Pulls the template's fields off one page. Resolves with one record, or with every
+   * item found for templates with `multiple` (possibly none).
+   */
+  async extractRecords(page: WebsitePage, template: ExtractionTemplate, signal?: AbortSignal): Promise<Record<string, ExtractedValue>[]> {
+    const fieldList = template.fields
+      .map(field => `- ${field.name} (${field.type})${field.description ? `: ${field.description}` : ''}`)
+      .join('\n');
+    const content = page.content.length > MAX_EXTRACTION_CHARS
+      ? `${page.content.slice(0, MAX_EXTRACTION_CHARS)}\n\n[Content truncated]`
+      : page.content;
+
+    const parsed = await getProvider().generateJson<{ items?: Record<string, unknown>[] }>(
+      {
+        system: `You extract structured data from web pages. Use *only* the page content and never add outside knowledge. Leave out any field the page doesn't state rather than guessing. Copy names and values as written, but give numbers without units or currency symbols.\n\n${UNTRUSTED_CONTENT_RULE}`,
+        contents: `${template.multiple
+          ? 'Find every item on this page and extract these fields for each one.'
+          : 'This page describes one item. Extract these fields for it and return exactly one item.'}
+
+Fields:
+${fieldList}
+
+Page: ${page.title} (${page.url})
+${fenceUntrusted(content)}`,
+        temperature: 0.1,
+        signal,
+      },
+      extractionSchema(template)
+    );
+
+    const items = (parsed.items || []).filter(item => item && typeof item === 'object');
+    const records = items.map(item =>
+      Object.fromEntries(template.fields.map(field => [field.name, coerceValue(item[field.name], field.type)]))
+    );
+    return template.multiple ? records : records.slice(0, 1);
+  },
+
+  /**
+   * Writes quiz questions grounded in the content. Questions that don't hold together
+   * (a multiple-choice question without a valid correct option, say) are dropped, so
+   * fewer than asked may come back.
+   */
+  async generateQuiz(index: RetrievalIndex, options: QuizOptions, signal?: AbortSignal): Promise<QuizQuestion[]> {
+    const excerpts = await studyExcerpts(index, options.topic);
+    const kinds = options.kinds.length > 0 ? options.kinds : (['multiple-choice', 'short-answer'] as QuizQuestionKind[]);
+    const kindRule = kinds.length > 1
+      ? 'Mix multiple-choice and short-answer questions.'
+      : `Write only ${kinds[0]} questions.`;
+
+    const parsed = await getProvider().generateJson<{ questions?: Record<string, unknown>[] }>(
+      {
+        system: `You write quizzes that help people learn web content, e.g. internal documentation during onboarding. Base every question on *only* the provided excerpts and never add outside knowledge. Ask about facts, procedures and reasons that matter, not trivia such as page titles. ${kindRule} Multiple-choice questions have one correct option and plausible wrong ones. Short-answer questions can be answered in a sentence.
+
+${languageInstruction(options.sourceLanguages)}
+
+${UNTRUSTED_CONTENT_RULE}`,
+        contents: `Write ${options.count} quiz questions${options.topic?.trim() ? ` about "${options.topic.trim()}"` : ''} on this content.\n\n${fenceUntrusted(formatExcerpts(excerpts))}`,
+        temperature: 0.5,
+        signal,
+      },
+      QUIZ_SCHEMA
+    );
+
+    return (parsed.questions || [])
+      .map((item): QuizQuestion | null => {
+        const kind = item.kind as QuizQuestionKind;
+        const question = String(item.question || '').trim();
+        const answer = String(item.answer || '').trim();
+        if (!kinds.includes(kind) || !question) return null;
+        const base = { id: crypto.randomUUID(), kind, question, explanation: String(item.explanation || '').trim(), reference: studyReference(excerpts, item.excerptId) };
+        if (kind === 'short-answer') return answer ? { ...base, answer } : null;
+
+        const choices = Array.isArray(item.options) ? item.options.map(option => String(option).trim()).filter(Boolean) : [];
+        const correct = Number(item.correctOption);
+        if (choices.length < 2 || !Number.isInteger(correct) || !choices[correct]) return null;
+        return { ...base, ...shuffleOptions(choices, correct), answer: answer || choices[correct] };
+      })
+      .filter((question): question is QuizQuestion => !!question)
+      .slice(0, options.count);
+  },
+
+  /**
+   * Grades a free-text answer against the expected answer and the passage the question
+   * came from, judging meaning rather than wording.
+   */
+  async gradeAnswer(question: QuizQuestion, response: string, signal?: AbortSignal): Promise<AnswerGrade> {
+    const grade = await getProvider().generateJson<Partial<AnswerGrade>>(
+      {
+        system: `You grade a learner's answer to a quiz question against the source it was written from. Judge by meaning, not wording: accept synonyms, paraphrases and small spelling mistakes. An answer is partially correct when it gets some but not all of the expected points, and incorrect when it is wrong or doesn't answer the question. Explain in one to three sentences, addressing the learner as "you", and say what the source says.
+
+${languageInstruction()}
+
+${UNTRUSTED_CONTENT_RULE}`,
+        contents: `Question: ${question.question}
+Expected answer: ${question.answer}
+${question.reference ? `\nSource, from ${question.reference.title}:\n${fenceUntrusted(question.reference.text)}\n` : ''}
+Learner's answer: ${response.trim()}`,
+        temperature: 0.1,
+        signal,
+      },
+      GRADE_SCHEMA
+    );
+
+    return {
+      verdict: VERDICTS.includes(grade.verdict as AnswerVerdict) ? grade.verdict as AnswerVerdict : 'incorrect',
+      explanation: grade.explanation || '',
+    };
+  },
+
+  /**
+   * Writes flashcards from the content, skipping the questions in `existing` so a deck
+   * can grow without duplicates.
+   */
+  async generateFlashcards(index: RetrievalIndex, options: StudyOptions, existing: string[] = [], signal?: AbortSignal): Promise<{ front: string; back: string; reference?: StudyReference }[]> {
+    const excerpts = await studyExcerpts(index, options.topic);
+    const avoid = existing.length > 0
+      ? `\n\nThe deck already has these cards; don't repeat them:\n${existing.map(front => `- ${front}`).join('\n')}`
+      : '';
+
+    const parsed = await getProvider().generateJson<{ cards?: Record<string, unknown>[] }>(
+      {
+        system: `You write flashcards that help people remember web content, e.g. internal documentation during onboarding. Base every card on *only* the provided excerpts and never add outside knowledge. Each card tests one fact, term or step: a short question or term on the front, and a short answer on the back.
+
+${languageInstruction(options.sourceLanguages)}
+
+${UNTRUSTED_CONTENT_RULE}`,
+        contents: `Write ${options.count} flashcards${options.topic?.trim() ? ` about "${options.topic.trim()}"` : ''} from this content.${avoid}\n\n${fenceUntrusted(formatExcerpts(excerpts))}`,
+        temperature: 0.5,
+        signal,
+      },
+      FLASHCARD_SCHEMA
+    );
+
+    return (parsed.cards || [])
+      .map(card => ({ front: String(card.front || '').trim(), back: String(card.back || '').trim(), reference: studyReference(excerpts, card.excerptId) }))
+      .filter(card => card.front && card.back)
+      .slice(0, options.count);
+  },
+
+  /**
+   * Translates a page's Markdown into the given language (ISO 639-1), part by part, keeping
+   * its formatting and links.
+   */
+  async translatePage(page: WebsitePage, language: string, signal?: AbortSignal): Promise<string> {
+    const name = languageName(language);
+    const translated: string[] = [];
+
+    for (const part of splitForTranslation(page.content)) {
+      if (signal?.aborted) break;
+      const text = await getProvider().generateText({
+        system: `You translate web pages into ${name}. Translate all of the text faithfully and keep the Markdown formatting, link URLs, code and numbers unchanged. Reply with the translation only, without comments or the fence tags.\n\n${UNTRUSTED_CONTENT_RULE}`,
+        contents: `Translate this part of the page "${page.title}" into ${name}.\n\n${fenceUntrusted(part)}`,
+        temperature: 0.2,
+        signal,
+      });
+      translated.push(text.replace(/<\/?website_content>/g, '').trim());
+    }
+
+    return translated.join('\n\n');
+  },
+
+  /**
+   * Streaming variant of getChatResponse. Calls onUpdate with the answer so far after
+   * every chunk. Aborting the signal ends the stream and resolves with the partial answer.
+   */
+  async streamChatResponse(
+    index: RetrievalIndex,
+    messages: ChatMessage[],
+    onUpdate: (partial: ChatResponse) => void,
+    signal?: AbortSignal,
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const provider = getProvider();
+    const { excerpts, systemInstruction, contents, context } = await buildChatRequest(index, messages, options);
+    const usage = trackUsage(systemInstruction, contents);
+    let resultText = '';
+
+    try {
+      const stream = provider.streamText({
+        system: systemInstruction,
+        contents,
+        temperature: 0.6,
+        signal,
+        onUsage: usage.onUsage,
+      });
+
+      for await (const text of stream) {
+        if (signal?.aborted) break;
+        resultText += text;
+        onUpdate(resolveCitations(resultText, excerpts));
+      }
+    } catch (error: any) {
+      if (!signal?.aborted) {
+        console.error("Chat API Error:", error);
+        throw error;
+      }
+    }
+
+    if (!resultText && !signal?.aborted) {
+      throw new Error("Received an empty response from the model.");
+    }
+
+    return { ...resolveCitations(resultText, excerpts), usage: usage.result(resultText), context };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,60 @@
+import { ChatBranches, ChatMessage } from '../types';
+
+/**
+ * Conversation branches: the thread shown is a plain list of messages, and wherever a
+ * question was edited or an answer regenerated, the first message of the shown version
+ * carries the other versions of the conversation from that point on.
+ */
+
+const withoutBranches = ({ branches, ...message }: ChatMessage): ChatMessage => message;
+
+const withBranches = (message: ChatMessage, branches: ChatBranches): ChatMessage => {
+  const bare = withoutBranches(message);
+  return branches.before.length + branches.after.length > 0 ? { ...bare, branches } : bare;
+};
+
+/**
+ * Replaces the conversation from `index` on with a new version. The replaced version is
+ * kept, and the new one becomes the latest. Returns the thread up to the fork and the
+ * branches the new version's first message must carry.
+ */
+export const forkAt = (messages: ChatMessage[], index: number): { head: ChatMessage[]; branches: ChatBranches } => {
+  const tail = messages.slice(index);
+  const existing = messages[index]?.branches;
+  const before = tail.length > 0
+    ? [...(existing?.before || []), [withoutBranches(tail[0]), ...tail.slice(1)], ...(existing?.after || [])]
+    : [];
+  return { head: messages.slice(0, index), branches: { before, after: [] } };
+};
+
+/**
+ * Shows the previous (-1) or next (+1) version of the conversation from `index` on.
+ */
+export const switchBranch = (messages: ChatMessage[], index: number, direction: -1 | 1): ChatMessage[] => {
+  const branches = messages[index]?.branches;
+  if (!branches) return messages;
+
+  const current = [withoutBranches(messages[index]), ...messages.slice(index + 1)];
+  const before = [...branches.before];
+  const after = [...branches.after];
+  let target: ChatMessage[] | undefined;
+  if (direction < 0) {
+    target = before.pop();
+    if (target) after.unshift(current);
+  } else {
+    target = after.shift();
+    if (target) before.push(current);
+  }
+  if (!target) return messages;
+
+  return [...messages.slice(0, index), withBranches(target[0], { before, after }), ...target.slice(1)];
+};
+
+/**
+ * Which version of the conversation a message starts, e.g. 2 of 3, if there are several.
+ */
+export const branchPosition = (message: ChatMessage): { current: number; total: number } | null => {
+  if (!message.branches) return null;
+  const { before, after } = message.branches;
+  return { current: before.length + 1, total: before.length + after.length + 1 };
+};
@@ -0,0 +1,117 @@
+import { Citation, ContentChunk } from '../types';
+import { tokenize } from './retrievalService';
+
+// Matches the model's inline markers, e.g. [c3] or [c3, c7]
+const MARKER_PATTERN = /\[(c\d+(?:\s*,\s*c\d+)*)\]/g;
+// Matches the footnote links we rewrite markers into
+const FOOTNOTE_PATTERN = /\s?\[(\d+)\]\(#cite-\d+\)/g;
+
+const MAX_QUOTE_LENGTH = 300;
+
+export const CITE_HREF_PREFIX = '#cite-';
+
+const splitSentences = (text: string): string[] =>
+  (text.replace(/^#{1,6}\s+/gm, '').match(/[^.!?\n]+[.!?]*/g) || [])
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+/**
+ * Picks the sentence of the chunk that best supports the claim the marker is attached to.
+ */
+const pickQuote = (chunk: ContentChunk, claim: string): string => {
+  const sentences = splitSentences(chunk.text);
+  if (sentences.length === 0) return chunk.text.slice(0, MAX_QUOTE_LENGTH);
+
+  const claimTerms = new Set(tokenize(claim));
+  let best = sentences[0];
+  let bestScore = -1;
+
+  for (const sentence of sentences) {
+    const score = tokenize(sentence).filter(t => claimTerms.has(t)).length;
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+
+  return best.length > MAX_QUOTE_LENGTH ? `${best.slice(0, MAX_QUOTE_LENGTH).trim()}…` : best;
+};
+
+/**
+ * Returns the sentence of the answer that ends at the given offset.
+ */
+const claimBefore = (text: string, offset: number): string => {
+  const preceding = text.slice(0, offset);
+  const sentences = preceding.split(/(?<=[.!?\n])\s+/);
+  return sentences[sentences.length - 1] || preceding.slice(-200);
+};
+
+/**
+ * Turns the model's [cN] chunk markers into numbered footnote links and resolves each
+ * cited chunk to a structured citation with a supporting quote. Markers that name
+ * chunks the model was never shown are dropped.
+ */
+export const resolveCitations = (
+  text: string,
+  chunks: ContentChunk[]
+): { text: string; citations: Citation[] } => {
+  const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+  const citations: Citation[] = [];
+  const numberById = new Map<string, number>();
+
+  const rewritten = text.replace(MARKER_PATTERN, (_match, ids: string, offset: number) => {
+    const claim = claimBefore(text, offset);
+    const footnotes: string[] = [];
+
+    for (const id of ids.split(',').map(s => s.trim())) {
+      const chunk = byId.get(id);
+      if (!chunk) continue;
+
+      let number = numberById.get(id);
+      if (number === undefined) {
+        number = citations.length + 1;
+        numberById.set(id, number);
+        citations.push({
+          index: number,
+          chunkId: id,
+          url: chunk.url,
+          title: chunk.heading ? `${chunk.title} › ${chunk.heading}` : chunk.title,
+          quote: pickQuote(chunk, claim),
+          source: chunk.source,
+        });
+      }
+      footnotes.push(`[${number}](${CITE_HREF_PREFIX}${number})`);
+    }
+
+    return footnotes.join('');
+  });
+
+  return { text: rewritten, citations };
+};
+
+/**
+ * Removes footnote links so earlier answers don't carry stale markers back into the prompt.
+ */
+export const stripFootnotes = (text: string): string => text.replace(FOOTNOTE_PATTERN, '');
+
+/**
+ * Links to the cited page with a text fragment (#:~:text=) so supporting browsers
+ * scroll to and highlight the quoted passage.
+ */
+export const buildTextFragmentUrl = (url: string, quote: string): string => {
+  const truncated = quote.endsWith('…');
+  const words = quote.replace(/…$/, '').replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+  // A truncated quote may end mid-word, which would never match the page.
+  if (truncated && words.length > 1) words.pop();
+  if (words.length === 0) return url;
+
+  // Text fragments reserve '-', which encodeURIComponent leaves alone.
+  const encode = (s: string) => encodeURIComponent(s).replace(/-/g, '%2D');
+  const clean = words.join(' ');
+  const fragment = words.length > 10
+    ? `${encode(words.slice(0, 4).join(' '))},${encode(words.slice(-4).join(' '))}`
+    : encode(clean);
+
+  const base = url.split('#')[0];
+  return `${base}#:~:text=${fragment}`;
+};
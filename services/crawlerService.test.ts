@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, parseRobots } from './crawlerService';
+
+const allowed = (robots: string, path: string): boolean =>
+  isAllowedByRobots(parseRobots(robots), `https://example.com${path}`);
+
+describe('parseRobots', () => {
+  it('uses the group naming our user agent over the wildcard group', () => {
+    const robots = 'User-agent: *\nDisallow: /\n\nUser-agent: SiteScout\nDisallow: /private';
+    expect(allowed(robots, '/docs')).toBe(true);
+    expect(allowed(robots, '/private/page')).toBe(false);
+  });
+
+  it('only takes a group naming our whole user agent as ours', () => {
+    const robots = 'User-agent: s\nDisallow: /\n\nUser-agent: scout\nDisallow: /\n\nUser-agent: *\nDisallow: /admin';
+    expect(allowed(robots, '/docs')).toBe(true);
+    expect(allowed(robots, '/admin')).toBe(false);
+  });
+
+  it('falls back to the wildcard group', () => {
+    const robots = 'User-agent: Googlebot\nDisallow: /\n\nUser-agent: *\nDisallow: /admin';
+    expect(allowed(robots, '/admin')).toBe(false);
+    expect(allowed(robots, '/')).toBe(true);
+  });
+
+  it('shares rules between consecutive user agents of a group', () => {
+    expect(allowed('User-agent: other\nUser-agent: sitescout\nDisallow: /tmp', '/tmp/x')).toBe(false);
+  });
+
+  it('ignores comments and an empty Disallow', () => {
+    expect(allowed('User-agent: * # everyone\nDisallow:\n# Disallow: /', '/anything')).toBe(true);
+  });
+
+  it('supports wildcards and end anchors', () => {
+    const robots = 'User-agent: *\nDisallow: /*.pdf$\nDisallow: /search?';
+    expect(allowed(robots, '/files/report.pdf')).toBe(false);
+    expect(allowed(robots, '/files/report.pdf.html')).toBe(true);
+    expect(allowed(robots, '/search?q=x')).toBe(false);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  it('lets the longest matching rule win', () => {
+    const robots = 'User-agent: *\nDisallow: /docs\nAllow: /docs/public';
+    expect(allowed(robots, '/docs/internal')).toBe(false);
+    expect(allowed(robots, '/docs/public/intro')).toBe(true);
+  });
+
+  it('prefers Allow on a tie', () => {
+    expect(allowed('User-agent: *\nDisallow: /page\nAllow: /page', '/page')).toBe(true);
+  });
+
+  it('allows everything without rules', () => {
+    expect(isAllowedByRobots([], 'https://example.com/private')).toBe(true);
+  });
+});
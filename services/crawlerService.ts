@@ -0,0 +1,197 @@
+import { CrawlOptions, CrawlProgress, ScrapeResult, WebsitePage } from '../types';
+import { buildWebsiteData, ensureProtocol, fetchRaw, getRenderSettings, loadPage, LoadOptions, normalizeUrl } from './scraperService';
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 2,
+  maxPages: 15,
+};
+
+// Upper limits for a crawl, wherever its options come from (the form or a shared link).
+export const MAX_CRAWL_DEPTH = 5;
+export const MAX_CRAWL_PAGES = 100;
+
+const USER_AGENT_TOKEN = 'sitescout';
+const CONCURRENCY = 3;
+
+// Links to files we can't read, or to site plumbing like feeds and sitemaps, are not worth a round trip.
+const SKIPPED_EXTENSIONS = /\.(zip|gz|tar|rar|7z|png|jpe?g|gif|webp|svg|ico|mp3|mp4|webm|mov|avi|woff2?|ttf|css|js|json|xml|rss|exe|dmg|apk)$/i;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+/**
+ * Parses robots.txt and returns the rules that apply to us: the group naming our
+ * user agent if there is one, otherwise the `*` group.
+ */
+export const parseRobots = (text: string): RobotsRule[] => {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current || (field !== 'allow' && field !== 'disallow')) continue;
+    // An empty Disallow means "allow everything"
+    if (!value) continue;
+
+    const escaped = value
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\\\$$/, '$'); // A trailing $ anchors the end of the path
+    current.rules.push({
+      allow: field === 'allow',
+      pattern: new RegExp(`^${escaped}`),
+      length: value.length,
+    });
+  }
+
+  // Agents were lowercased above, so this matches our token case-insensitively.
+  const ours = groups.find(g => g.agents.includes(USER_AGENT_TOKEN));
+  const wildcard = groups.find(g => g.agents.includes('*'));
+  return (ours || wildcard)?.rules || [];
+};
+
+/**
+ * Applies robots rules to a URL. The longest matching rule wins; on a tie, Allow wins.
+ */
+export const isAllowedByRobots = (rules: RobotsRule[], url: string): boolean => {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let best: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    if (!rule.pattern.test(path)) continue;
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+};
+
+const fetchRobotsRules = async (origin: string): Promise<RobotsRule[]> => {
+  try {
+    return parseRobots(await fetchRaw(`${origin}/robots.txt`));
+  } catch {
+    // No robots.txt (or it is unreachable) means no restrictions.
+    return [];
+  }
+};
+
+/**
+ * Crawls same-origin links breadth-first from the entry URL, up to the configured
+ * depth and page limits, and returns every readable page as one multi-document site.
+ */
+export const crawlWebsite = async (
+  url: string,
+  options: CrawlOptions = DEFAULT_CRAWL_OPTIONS,
+  onProgress?: (progress: CrawlProgress) => void,
+  loadOptions: LoadOptions = {}
+): Promise<ScrapeResult> => {
+  try {
+    const startUrl = normalizeUrl(ensureProtocol(url));
+    const origin = new URL(startUrl).origin;
+    const robotsRules = await fetchRobotsRules(origin);
+
+    if (!isAllowedByRobots(robotsRules, startUrl)) {
+      throw new Error("This site's robots.txt does not allow crawling that page.");
+    }
+
+    const seen = new Set<string>([startUrl]);
+    const seenCanonical = new Set<string>();
+    const pages: WebsitePage[] = [];
+    const renderSettings = getRenderSettings(); // Read once, not per page
+    const progress: CrawlProgress = { found: 1, fetched: 0, skipped: 0, failed: 0 };
+    let attempted = 0;
+
+    const report = (currentUrl?: string) => onProgress?.({ ...progress, currentUrl });
+
+    const collectLinks = (links: string[], into: string[]) => {
+      for (const link of links) {
+        let normalized: string;
+        try {
+          normalized = normalizeUrl(link);
+        } catch {
+          continue;
+        }
+        const parsed = new URL(normalized);
+        if (parsed.origin !== origin) continue;
+        if (SKIPPED_EXTENSIONS.test(parsed.pathname)) continue;
+        if (seen.has(normalized)) continue;
+        seen.add(normalized);
+        if (!isAllowedByRobots(robotsRules, normalized)) continue;
+        into.push(normalized);
+        progress.found++;
+      }
+    };
+
+    const crawlPage = async (pageUrl: string, nextFrontier: string[] | null) => {
+      report(pageUrl);
+      try {
+        const { url: finalUrl, ...parsed } = await loadPage(pageUrl, renderSettings, loadOptions);
+        const canonical = normalizeUrl(parsed.canonicalUrl);
+
+        // Several URLs may serve the same document; keep only the first copy.
+        // Redirects may also have taken us off-site.
+        if (new URL(finalUrl).origin !== origin || seenCanonical.has(canonical) || parsed.page.content.length < 50) {
+          progress.skipped++;
+        } else {
+          seenCanonical.add(canonical);
+          seen.add(canonical);
+          pages.push(parsed.page);
+          progress.fetched++;
+          if (nextFrontier) collectLinks(parsed.links, nextFrontier);
+        }
+      } catch {
+        progress.failed++;
+      }
+      report();
+    };
+
+    // Breadth-first, one depth level at a time, a few pages in parallel.
+    let frontier = [startUrl];
+    for (let depth = 0; depth <= options.maxDepth && frontier.length > 0; depth++) {
+      const nextFrontier: string[] | null = depth < options.maxDepth ? [] : null;
+
+      for (let i = 0; i < frontier.length && attempted < options.maxPages; i += CONCURRENCY) {
+        const batch = frontier.slice(i, i + CONCURRENCY).slice(0, options.maxPages - attempted);
+        attempted += batch.length;
+        await Promise.all(batch.map(pageUrl => crawlPage(pageUrl, nextFrontier)));
+      }
+
+      frontier = nextFrontier || [];
+    }
+
+    if (pages.length === 0) {
+      throw new Error('Could not extract meaningful text content. The site might be SPA-only or blocking scrapers.');
+    }
+
+    return { success: true, data: { ...buildWebsiteData(startUrl, pages), crawlOptions: options } };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Failed to crawl website. Please try a different URL.'
+    };
+  }
+};
@@ -0,0 +1,176 @@
+import { ExtractedValue, ExtractionField, ExtractionRow, ExtractionTemplate, WebsitePage } from '../types';
+import { aiService } from './aiService';
+
+/**
+ * Structured extraction: pulls a user-defined set of fields off each page of a source
+ * and lays the results out as rows for a table, CSV or JSON.
+ */
+
+const TEMPLATES_KEY = 'extractionTemplates';
+
+export const BUILT_IN_TEMPLATES: ExtractionTemplate[] = [
+  {
+    id: 'builtin-product',
+    name: 'Product',
+    multiple: false,
+    builtIn: true,
+    fields: [
+      { name: 'name', type: 'text', description: 'Product name' },
+      { name: 'price', type: 'number', description: 'Current price, without currency symbol' },
+      { name: 'currency', type: 'text', description: 'ISO currency code, e.g. USD' },
+      { name: 'brand', type: 'text', description: '' },
+      { name: 'in_stock', type: 'boolean', description: 'Whether the product can be ordered now' },
+      { name: 'specs', type: 'list', description: 'Key specifications, one per entry, e.g. "Weight: 1.2 kg"' },
+    ],
+  },
+  {
+    id: 'builtin-job',
+    name: 'Job postings',
+    multiple: true,
+    builtIn: true,
+    fields: [
+      { name: 'title', type: 'text', description: 'Job title' },
+      { name: 'company', type: 'text', description: '' },
+      { name: 'location', type: 'text', description: 'City and country, or "Remote"' },
+      { name: 'salary', type: 'text', description: 'Salary or range as written, including currency and period' },
+      { name: 'employment_type', type: 'text', description: 'e.g. full-time, part-time, contract' },
+    ],
+  },
+];
+
+export class InvalidTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTemplateError';
+  }
+}
+
+/**
+ * Field names become JSON keys and CSV headers, so they must be present and unique.
+ * Throws InvalidTemplateError explaining the first problem found.
+ */
+export const validateFields = (fields: ExtractionField[]): void => {
+  if (fields.length === 0) throw new InvalidTemplateError('Add at least one field.');
+  const seen = new Set<string>();
+  for (const field of fields) {
+    const name = field.name.trim();
+    if (!name) throw new InvalidTemplateError('Every field needs a name.');
+    if (seen.has(name.toLowerCase())) throw new InvalidTemplateError(`There are two fields named "${name}".`);
+    seen.add(name.toLowerCase());
+  }
+};
+
+const savedTemplates = (): ExtractionTemplate[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeTemplates = (templates: ExtractionTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const templateStore = {
+  /**
+   * Built-in templates first, then the user's own by name.
+   */
+  list(): ExtractionTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...savedTemplates().sort((a, b) => a.name.localeCompare(b.name))];
+  },
+
+  /**
+   * Saves a template under its name, replacing a saved template of the same name.
+   * Returns the stored template.
+   */
+  save(name: string, fields: ExtractionField[], multiple: boolean): ExtractionTemplate {
+    const trimmed = name.trim();
+    if (!trimmed) throw new InvalidTemplateError('Give the template a name.');
+    validateFields(fields);
+
+    const existing = savedTemplates();
+    const replaced = existing.find(t => t.name.toLowerCase() === trimmed.toLowerCase());
+    const template: ExtractionTemplate = {
+      id: replaced?.id || crypto.randomUUID(),
+      name: trimmed,
+      fields: fields.map(field => ({ ...field, name: field.name.trim(), description: field.description.trim() })),
+      multiple,
+    };
+    storeTemplates([...existing.filter(t => t !== replaced), template]);
+    return template;
+  },
+
+  delete(id: string): void {
+    storeTemplates(savedTemplates().filter(t => t.id !== id));
+  },
+};
+
+export interface ExtractionProgress {
+  done: number;
+  total: number;
+  currentUrl?: string;
+}
+
+/**
+ * Runs a template against each page in turn. A page that fails gets an error row
+ * instead of ending the run; aborting the signal stops after the current page.
+ */
+export const extractFromPages = async (
+  pages: WebsitePage[],
+  template: ExtractionTemplate,
+  onProgress?: (progress: ExtractionProgress, rows: ExtractionRow[]) => void,
+  signal?: AbortSignal
+): Promise<ExtractionRow[]> => {
+  validateFields(template.fields);
+  const rows: ExtractionRow[] = [];
+  const emptyValues = () => Object.fromEntries(template.fields.map(field => [field.name, null]));
+
+  for (let i = 0; i < pages.length && !signal?.aborted; i++) {
+    const page = pages[i];
+    onProgress?.({ done: i, total: pages.length, currentUrl: page.url }, rows);
+    try {
+      const records = await aiService.extractRecords(page, template, signal);
+      // A single-item page always gets its row, so the table shows which pages had nothing.
+      const values = records.length > 0 || template.multiple ? records : [emptyValues()];
+      rows.push(...values.map(record => ({ url: page.url, pageTitle: page.title, values: record })));
+    } catch (error) {
+      if (signal?.aborted) break;
+      rows.push({ url: page.url, pageTitle: page.title, values: {}, error: error instanceof Error ? error.message : 'Extraction failed.' });
+    }
+  }
+
+  onProgress?.({ done: pages.length, total: pages.length }, rows);
+  return rows;
+};
+
+/**
+ * Formats a value for a table cell or CSV field. Lists are joined with semicolons.
+ */
+export const formatValue = (value: ExtractedValue | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+};
+
+const csvField = (text: string): string => (/[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+export const rowsToCsv = (rows: ExtractionRow[], fields: ExtractionField[]): string => {
+  const header = ['page_url', 'page_title', ...fields.map(field => field.name), 'error'];
+  const lines = rows.map(row => [
+    row.url,
+    row.pageTitle,
+    ...fields.map(field => formatValue(row.values[field.name])),
+    row.error || '',
+  ]);
+  return [header, ...lines].map(line => line.map(csvField).join(',')).join('\r\n');
+};
+
+export const rowsToJson = (rows: ExtractionRow[], template: ExtractionTemplate): string =>
+  JSON.stringify({
+    template: { name: template.name, fields: template.fields, multiple: template.multiple },
+    extractedAt: new Date().toISOString(),
+    rows,
+  }, null, 2);
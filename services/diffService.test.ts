@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { countChanges, diffWebsites, formatDiff, hasChanges, parseSections } from './diffService';
+import { WebsiteData, WebsitePage } from '../types';
+
+const page = (url: string, content: string): WebsitePage => ({ url, title: url, content });
+
+const site = (timestamp: number, pages: WebsitePage[]): WebsiteData => ({
+  url: 'https://example.com/',
+  title: 'Example',
+  content: pages.map(p => p.content).join('\n\n'),
+  pages,
+  timestamp,
+});
+
+describe('parseSections', () => {
+  it('keys sections by heading path', () => {
+    const sections = parseSections('Intro text.\n\n# Pricing\n\nPlans.\n\n## Enterprise\n\nCall us.\n\n# FAQ\n\nAsk.');
+    expect([...sections.keys()]).toEqual(['', 'Pricing', 'Pricing › Enterprise', 'FAQ']);
+    expect(sections.get('Pricing › Enterprise')?.blocks).toEqual(['Call us.']);
+  });
+
+  it('numbers repeated headings', () => {
+    const sections = parseSections('# Details\n\nOne.\n\n# Details\n\nTwo.');
+    expect([...sections.keys()]).toEqual(['Details', 'Details (2)']);
+  });
+
+  it('normalizes whitespace within blocks', () => {
+    expect(parseSections('Some   text\nacross lines.').get('')?.blocks).toEqual(['Some text across lines.']);
+  });
+});
+
+describe('diffWebsites', () => {
+  it('reports added, removed and changed sections', () => {
+    const before = site(1, [page('https://example.com/', '# A\n\nSame.\n\nOld.\n\n# B\n\nGone.')]);
+    const after = site(2, [page('https://example.com/', '# A\n\nSame.\n\nNew.\n\n# C\n\nFresh.')]);
+    const [changed] = diffWebsites(before, after).pages;
+    expect(changed.status).toBe('changed');
+    expect(changed.sections).toEqual([
+      { heading: 'A', status: 'changed', added: ['New.'], removed: ['Old.'] },
+      { heading: 'C', status: 'added', added: ['Fresh.'], removed: [] },
+      { heading: 'B', status: 'removed', added: [], removed: ['Gone.'] },
+    ]);
+  });
+
+  it('ignores reordered paragraphs', () => {
+    const before = site(1, [page('https://example.com/', 'One.\n\nTwo.')]);
+    const after = site(2, [page('https://example.com/', 'Two.\n\nOne.')]);
+    expect(diffWebsites(before, after).pages).toEqual([]);
+  });
+
+  it('reports added and removed pages', () => {
+    const before = site(1, [page('https://example.com/old', 'Old page.')]);
+    const after = site(2, [page('https://example.com/new', 'New page.')]);
+    const diff = diffWebsites(before, after);
+    expect(diff.pages.map(p => [p.url, p.status])).toEqual([
+      ['https://example.com/new', 'added'],
+      ['https://example.com/old', 'removed'],
+    ]);
+    expect(countChanges(diff)).toEqual({ pages: 2, sections: 2 });
+  });
+});
+
+describe('formatDiff', () => {
+  it('says when nothing changed', () => {
+    const same = site(1, [page('https://example.com/', 'Text.')]);
+    expect(formatDiff(diffWebsites(same, same))).toMatch(/^No changes to https:\/\/example\.com\//);
+  });
+
+  it('lists added and removed paragraphs per section', () => {
+    const before = site(1, [page('https://example.com/', 'Old.')]);
+    const after = site(2, [page('https://example.com/', 'New.')]);
+    const text = formatDiff(diffWebsites(before, after));
+    expect(text).toContain('Section changed: (introduction)');
+    expect(text).toContain('    + New.');
+    expect(text).toContain('    - Old.');
+  });
+});
+
+describe('hasChanges', () => {
+  it('is true only when some section changed', () => {
+    const before = site(1, [page('https://example.com/', 'Same.')]);
+    expect(hasChanges(diffWebsites(before, site(2, [page('https://example.com/', 'Same.')])))).toBe(false);
+    expect(hasChanges(diffWebsites(before, site(2, [page('https://example.com/', 'Different.')])))).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { PageDiff, SectionDiff, SiteDiff, WebsiteData, WebsitePage } from '../types';
+
+/**
+ * Structural diff between two scrapes of a source: pages are matched by URL and
+ * sections by their heading path, and paragraphs within a section are compared as
+ * a set, so reordering alone doesn't count as a change.
+ */
+
+// Keeps the diff that goes into the prompt within a sensible budget.
+const MAX_BLOCK_LENGTH = 600;
+const MAX_FORMATTED_LENGTH = 12000;
+
+interface Section {
+  heading: string;
+  blocks: string[];
+}
+
+const normalizeBlock = (block: string): string => block.replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits a page's Markdown into sections keyed by heading path, e.g. "Pricing › Enterprise".
+ */
+export const parseSections = (markdown: string): Map<string, Section> => {
+  const sections = new Map<string, Section>();
+  const stack: { level: number; text: string }[] = [];
+  let current: Section = { heading: '', blocks: [] };
+
+  const commit = () => {
+    if (current.blocks.length === 0 && !current.heading) return;
+    // Repeated headings ("Details" under every product) get a counter to stay distinct.
+    let key = current.heading;
+    for (let n = 2; sections.has(key); n++) key = `${current.heading} (${n})`;
+    sections.set(key, { ...current, heading: key });
+  };
+
+  for (const block of markdown.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.+)$/m);
+    if (heading && trimmed.startsWith('#')) {
+      commit();
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, text: heading[2].trim() });
+      current = { heading: stack.map(h => h.text).join(' › '), blocks: [] };
+      // Text in the same block as the heading belongs to its section.
+      const rest = trimmed.replace(heading[0], '').trim();
+      if (rest) current.blocks.push(normalizeBlock(rest));
+      continue;
+    }
+    current.blocks.push(normalizeBlock(trimmed));
+  }
+  commit();
+
+  return sections;
+};
+
+const diffPage = (before: WebsitePage | undefined, after: WebsitePage | undefined): PageDiff | null => {
+  const page = (after || before)!;
+  const beforeSections = before ? parseSections(before.content) : new Map<string, Section>();
+  const afterSections = after ? parseSections(after.content) : new Map<string, Section>();
+  const sections: SectionDiff[] = [];
+
+  for (const [heading, section] of afterSections) {
+    const old = beforeSections.get(heading);
+    if (!old) {
+      sections.push({ heading, status: 'added', added: section.blocks, removed: [] });
+      continue;
+    }
+    const oldBlocks = new Set(old.blocks);
+    const newBlocks = new Set(section.blocks);
+    const added = section.blocks.filter(b => !oldBlocks.has(b));
+    const removed = old.blocks.filter(b => !newBlocks.has(b));
+    if (added.length > 0 || removed.length > 0) sections.push({ heading, status: 'changed', added, removed });
+  }
+  for (const [heading, section] of beforeSections) {
+    if (!afterSections.has(heading)) sections.push({ heading, status: 'removed', added: [], removed: section.blocks });
+  }
+
+  if (sections.length === 0) return null;
+  return {
+    url: page.url,
+    title: page.title,
+    status: !before ? 'added' : !after ? 'removed' : 'changed',
+    sections,
+  };
+};
+
+/**
+ * Compares two scrapes of the same source. Only pages that changed are included.
+ */
+export const diffWebsites = (older: WebsiteData, newer: WebsiteData): SiteDiff => {
+  const beforePages = new Map(older.pages.map(page => [page.url, page]));
+  const afterPages = new Map(newer.pages.map(page => [page.url, page]));
+  const urls = [...afterPages.keys(), ...[...beforePages.keys()].filter(url => !afterPages.has(url))];
+
+  return {
+    url: newer.url,
+    from: older.timestamp,
+    to: newer.timestamp,
+    pages: urls
+      .map(url => diffPage(beforePages.get(url), afterPages.get(url)))
+      .filter((diff): diff is PageDiff => diff !== null),
+  };
+};
+
+export const countChanges = (diff: SiteDiff): { pages: number; sections: number } => ({
+  pages: diff.pages.length,
+  sections: diff.pages.reduce((sum, page) => sum + page.sections.length, 0),
+});
+
+/**
+ * Whether a diff counts as a change: the one rule for storing a new snapshot, telling
+ * the user and replacing the source.
+ */
+export const hasChanges = (diff: SiteDiff): boolean => countChanges(diff).sections > 0;
+
+const clip = (text: string): string =>
+  text.length > MAX_BLOCK_LENGTH ? `${text.slice(0, MAX_BLOCK_LENGTH)}…` : text;
+
+/**
+ * Renders a diff as plain text for the model: one block per changed section with its
+ * added and removed paragraphs.
+ */
+export const formatDiff = (diff: SiteDiff): string => {
+  const when = (timestamp: number) => new Date(timestamp).toLocaleString();
+  if (diff.pages.length === 0) {
+    return `No changes to ${diff.url} between ${when(diff.from)} and ${when(diff.to)}.`;
+  }
+
+  const lines = [`Changes to ${diff.url} between ${when(diff.from)} and ${when(diff.to)}:`];
+  for (const page of diff.pages) {
+    lines.push('', `Page ${page.status}: ${page.title} (${page.url})`);
+    for (const section of page.sections) {
+      lines.push(`  Section ${section.status}: ${section.heading || '(introduction)'}`);
+      section.added.forEach(block => lines.push(`    + ${clip(block)}`));
+      section.removed.forEach(block => lines.push(`    - ${clip(block)}`));
+    }
+  }
+
+  const text = lines.join('\n');
+  return text.length > MAX_FORMATTED_LENGTH ? `${text.slice(0, MAX_FORMATTED_LENGTH)}\n…(more changes omitted)` : text;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidSessionExportError, parseSessionExport, toJson } from './exportService';
+import { Briefing, ChatMessage, WebsiteData } from '../types';
+
+const source: WebsiteData = {
+  url: 'https://example.com/',
+  title: 'Example',
+  content: 'Example content.',
+  pages: [{ url: 'https://example.com/', title: 'Example', content: 'Example content.', metadata: { language: 'en' } }],
+  metadata: { language: 'en', author: 'Ada' },
+  timestamp: 1700000000000,
+};
+
+const answer = (url: string): ChatMessage => ({
+  id: '2',
+  role: 'model',
+  content: 'It is an example [1].',
+  timestamp: 1700000001000,
+  citations: [{ index: 1, chunkId: 'c1', url, title: 'Example', quote: 'Example content.' }],
+});
+
+const exported = (overrides: Record<string, unknown> = {}): string =>
+  JSON.stringify({ ...JSON.parse(toJson('Example', [source], [answer('https://example.com/')])), ...overrides });
+
+describe('parseSessionExport', () => {
+  it('reads back what toJson writes', () => {
+    const data = parseSessionExport(toJson('Example', [source], [answer('https://example.com/')]));
+    expect(data.title).toBe('Example');
+    expect(data.sources[0].metadata).toEqual({ language: 'en', author: 'Ada' });
+    expect(data.messages[0].citations?.[0].url).toBe('https://example.com/');
+  });
+
+  it('rejects files that are not session exports', () => {
+    expect(() => parseSessionExport('not json')).toThrow(InvalidSessionExportError);
+    expect(() => parseSessionExport(JSON.stringify({ format: 'other' }))).toThrow(/not a SiteScout/);
+  });
+
+  it.each([0, -1, 0.5])('rejects version %s', version => {
+    expect(() => parseSessionExport(exported({ version }))).toThrow(/version/);
+  });
+
+  it('rejects exports from a newer format', () => {
+    expect(() => parseSessionExport(exported({ version: 99 }))).toThrow(/newer version/);
+  });
+
+  it('rejects metadata fields that are not strings', () => {
+    const sources = [{ ...source, metadata: { language: 5 } }];
+    expect(() => parseSessionExport(exported({ sources }))).toThrow('sources[0].metadata.language must be a string.');
+    const pages = [{ ...source.pages[0], metadata: { author: {} } }];
+    expect(() => parseSessionExport(exported({ sources: [{ ...source, pages }] }))).toThrow('sources[0].pages[0].metadata.author must be a string.');
+  });
+
+  it('drops unknown metadata fields', () => {
+    const data = parseSessionExport(exported({ sources: [{ ...source, metadata: { siteName: 'Ex', tracking: 'x' } }] }));
+    expect(data.sources[0].metadata).toEqual({ siteName: 'Ex' });
+  });
+
+  it('rejects citations to anything but the web or an exported page', () => {
+    expect(() => parseSessionExport(exported({ messages: [answer('javascript:alert(1)')] }))).toThrow(/citations\[0\]\.url/);
+  });
+
+  it('round-trips crawl options and the briefing', () => {
+    const crawled = { ...source, crawlOptions: { maxDepth: 2, maxPages: 15 } };
+    const briefing: Briefing = {
+      tldr: 'An example.',
+      keyPoints: ['It exists.'],
+      entities: [{ name: 'Ada', kind: 'person' }],
+      dates: [{ date: '2024', event: 'Launched' }],
+      suggestedQuestions: ['What is it?'],
+    };
+    const data = parseSessionExport(toJson('Example', [crawled], [], briefing));
+    expect(data.sources[0].crawlOptions).toEqual({ maxDepth: 2, maxPages: 15 });
+    expect(data.briefing).toEqual(briefing);
+  });
+
+  it('caps imported crawl options and rejects malformed ones', () => {
+    const capped = parseSessionExport(exported({ sources: [{ ...source, crawlOptions: { maxDepth: 50, maxPages: 100000 } }] }));
+    expect(capped.sources[0].crawlOptions).toEqual({ maxDepth: 5, maxPages: 100 });
+    expect(() => parseSessionExport(exported({ sources: [{ ...source, crawlOptions: { maxDepth: 1.5, maxPages: 10 } }] })))
+      .toThrow('sources[0].crawlOptions.maxDepth must be a positive whole number.');
+  });
+
+  it('rejects a malformed briefing', () => {
+    expect(() => parseSessionExport(exported({ briefing: { tldr: 'x', keyPoints: [1] } }))).toThrow('briefing.keyPoints[0] must be a string.');
+  });
+
+  it('accepts citations to exported local pages', () => {
+    const upload = { ...source, url: 'upload:notes.md', pages: [{ ...source.pages[0], url: 'upload:notes.md' }] };
+    const data = parseSessionExport(exported({ sources: [upload], messages: [answer('upload:notes.md')] }));
+    expect(data.messages[0].citations?.[0].url).toBe('upload:notes.md');
+  });
+});
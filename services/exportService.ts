@@ -0,0 +1,448 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { Briefing, ChatBranches, ChatMessage, Citation, ContentWarning, ContextCoverage, CrawlOptions, FocusedPassage, PageMetadata, SessionExport, TokenUsage, WebsiteData, WebsitePage } from '../types';
+import { CITE_HREF_PREFIX } from './citationService';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from './crawlerService';
+import { pageWarnings } from './injectionService';
+import { isWebUrl, sourceLabel } from './scraperService';
+import { sessionStore } from './storageService';
+
+/**
+ * Exports a conversation as Markdown, a self-contained HTML page, or versioned JSON
+ * that can be imported again to restore the session.
+ */
+
+export const SESSION_EXPORT_VERSION = 1;
+
+export class InvalidSessionExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSessionExportError';
+  }
+}
+
+const CITE_LINK_PATTERN = /\[(\d+)\]\(#cite-\d+\)/g;
+
+const speakerOf = (message: ChatMessage): string => (message.role === 'user' ? 'You' : 'SiteScout');
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+// Diffs are long; the export names them instead of quoting them.
+const focusSummary = (focus: FocusedPassage): string => (focus.kind === 'changes' ? focus.title : focus.text);
+
+const describeCitation = (citation: Citation): string =>
+  [citation.source, citation.title].filter(Boolean).join(' · ');
+
+export const exportFileName = (title: string, extension: string): string => {
+  const slug = title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+};
+
+export const toMarkdown = (title: string, sources: WebsiteData[], messages: ChatMessage[]): string => {
+  const lines: string[] = [
+    `# ${title}`,
+    '',
+    `*Exported from SiteScout on ${formatTime(Date.now())}*`,
+    '',
+    '## Sources',
+    '',
+    ...sources.map(source =>
+      isWebUrl(source.url) ? `- [${source.title || source.url}](${source.url})` : `- ${source.title} (${sourceLabel(source.url)})`
+    ),
+    '',
+    '## Conversation',
+  ];
+
+  messages.forEach((message, position) => {
+    lines.push('');
+    if (message.role === 'system' || message.status === 'error') {
+      lines.push(`*${message.content.trim()}*`);
+      return;
+    }
+
+    // Footnote labels must be unique across the whole document, not just the message.
+    const footnote = (n: string) => `[^${position + 1}-${n}]`;
+    lines.push(`**${speakerOf(message)}** · ${formatTime(message.timestamp)}`, '');
+    if (message.focus) lines.push(`> ${focusSummary(message.focus).replace(/\s+/g, ' ')}`, '');
+    lines.push(message.content.replace(CITE_LINK_PATTERN, (_match, n: string) => footnote(n)).trim());
+    if (message.status === 'stopped') lines.push('', '*(Stopped generating.)*');
+
+    const citations = message.citations || [];
+    if (citations.length > 0) lines.push('');
+    for (const citation of citations) {
+      const where = isWebUrl(citation.url) ? ` <${citation.url}>` : '';
+      lines.push(`${footnote(String(citation.index))}: ${describeCitation(citation)} — "${citation.quote}"${where}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderMarkdown = (markdown: string, footnoteId: (n: string) => string): string =>
+  renderToStaticMarkup(
+    React.createElement(ReactMarkdown, {
+      components: {
+        a: ({ href, children }: React.AnchorHTMLAttributes<HTMLAnchorElement>) =>
+          href?.startsWith(CITE_HREF_PREFIX)
+            ? React.createElement('sup', null, React.createElement('a', { href: `#${footnoteId(href.slice(CITE_HREF_PREFIX.length))}` }, children))
+            : React.createElement('a', { href, target: '_blank', rel: 'noopener noreferrer' }, children),
+      },
+    }, markdown)
+  );
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.6; }
+  h1 { font-family: Georgia, serif; font-weight: 500; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.85rem; }
+  .sources { font-size: 0.9rem; }
+  .message { border: 1px solid #e2e8f0; border-radius: 12px; padding: 0.75rem 1.25rem; margin: 1rem 0; break-inside: avoid; }
+  .message.user { background: #f8fafc; }
+  .message.system { border: none; text-align: center; color: #64748b; font-size: 0.85rem; padding: 0; }
+  .speaker { font-weight: 600; font-size: 0.85rem; color: #475569; }
+  .speaker time { font-weight: 400; color: #94a3b8; margin-left: 0.5rem; }
+  .footnotes { font-size: 0.8rem; color: #475569; border-top: 1px solid #e2e8f0; padding-top: 0.5rem; }
+  .footnotes blockquote { margin: 0.25rem 0; font-style: italic; }
+  a { color: #6d28d9; }
+  pre { background: #f1f5f9; padding: 0.75rem; border-radius: 8px; overflow-x: auto; }
+  table { border-collapse: collapse; } td, th { border: 1px solid #e2e8f0; padding: 0.25rem 0.5rem; }
+`;
+
+export const toHtml = (title: string, sources: WebsiteData[], messages: ChatMessage[]): string => {
+  const sourceItems = sources
+    .map(source => {
+      const name = escapeHtml(source.title || source.url);
+      return isWebUrl(source.url)
+        ? `<li><a href="${escapeHtml(source.url)}">${name}</a></li>`
+        : `<li>${name} (${escapeHtml(sourceLabel(source.url))})</li>`;
+    })
+    .join('\n');
+
+  const messageBlocks = messages
+    .map((message, position) => {
+      if (message.role === 'system' || message.status === 'error') {
+        return `<div class="message system">${renderMarkdown(message.content, n => n)}</div>`;
+      }
+
+      const footnoteId = (n: string) => `m${position + 1}-fn${n}`;
+      const citations = (message.citations || [])
+        .map(citation => {
+          const label = escapeHtml(describeCitation(citation));
+          const link = isWebUrl(citation.url) ? `<a href="${escapeHtml(citation.url)}">${label}</a>` : label;
+          return `<li id="${footnoteId(String(citation.index))}" value="${citation.index}">${link}<blockquote>"${escapeHtml(citation.quote)}"</blockquote></li>`;
+        })
+        .join('\n');
+
+      return `<div class="message ${message.role}">
+<p class="speaker">${speakerOf(message)}<time>${escapeHtml(formatTime(message.timestamp))}</time></p>
+${message.focus ? `<blockquote>${escapeHtml(focusSummary(message.focus))}</blockquote>` : ''}
+${renderMarkdown(message.content, footnoteId)}
+${message.status === 'stopped' ? '<p class="meta"><em>Stopped generating.</em></p>' : ''}
+${citations ? `<ol class="footnotes">${citations}</ol>` : ''}
+</div>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Exported from SiteScout on ${escapeHtml(formatTime(Date.now()))}</p>
+<h2>Sources</h2>
+<ul class="sources">
+${sourceItems}
+</ul>
+<h2>Conversation</h2>
+${messageBlocks}
+</body>
+</html>
+`;
+};
+
+export const toJson = (title: string, sources: WebsiteData[], messages: ChatMessage[], briefing?: Briefing): string => {
+  const data: SessionExport = {
+    format: 'sitescout-session',
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    sources,
+    messages: messages.map(m => (m.status === 'streaming' ? { ...m, status: 'stopped' as const } : m)),
+    briefing,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// --- Import validation ---
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw new InvalidSessionExportError(`${path} must be a string.`);
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new InvalidSessionExportError(`${path} must be a number.`);
+  return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new InvalidSessionExportError(`${path} must be a list.`);
+  return value;
+};
+
+const expectObject = (value: unknown, path: string): Json => {
+  if (!isObject(value)) throw new InvalidSessionExportError(`${path} must be an object.`);
+  return value;
+};
+
+const optionalString = (value: unknown, path: string): string | undefined =>
+  value === undefined ? undefined : expectString(value, path);
+
+const expectStrings = (value: unknown, path: string): string[] =>
+  expectArray(value, path).map((item, i) => expectString(item, `${path}[${i}]`));
+
+const expectCount = (value: unknown, path: string): number => {
+  const count = expectNumber(value, path);
+  if (!Number.isInteger(count) || count < 1) throw new InvalidSessionExportError(`${path} must be a positive whole number.`);
+  return count;
+};
+
+const METADATA_FIELDS: (keyof PageMetadata)[] = ['author', 'publishedAt', 'modifiedAt', 'description', 'language', 'siteName', 'canonicalUrl'];
+
+/**
+ * Keeps the known metadata fields, each of which must be a string, and drops the rest.
+ */
+const parseMetadata = (value: unknown, path: string): PageMetadata | undefined => {
+  if (value === undefined) return undefined;
+  const metadata = expectObject(value, path);
+  const parsed: PageMetadata = {};
+  for (const field of METADATA_FIELDS) {
+    const text = optionalString(metadata[field], `${path}.${field}`);
+    if (text !== undefined) parsed[field] = text;
+  }
+  return parsed;
+};
+
+/**
+ * Hidden-text findings can't be recomputed from the exported content, so well-formed ones
+ * are carried over; the content itself is scanned again rather than trusting the file.
+ */
+const parseWarnings = (value: unknown, content: string): ContentWarning[] | undefined => {
+  const hidden = (Array.isArray(value) ? value : []).filter(isObject).flatMap(warning =>
+    typeof warning.reason === 'string' && typeof warning.excerpt === 'string' && typeof warning.hiddenBy === 'string'
+      ? [{ reason: warning.reason, excerpt: warning.excerpt, hiddenBy: warning.hiddenBy }]
+      : []
+  );
+  return pageWarnings(content, hidden);
+};
+
+const parsePage = (value: unknown, path: string): WebsitePage => {
+  const page = expectObject(value, path);
+  const content = expectString(page.content, `${path}.content`);
+  return {
+    url: expectString(page.url, `${path}.url`),
+    title: expectString(page.title, `${path}.title`),
+    content,
+    metadata: parseMetadata(page.metadata, `${path}.metadata`),
+    renderMode: page.renderMode === 'rendered' || page.renderMode === 'static' ? page.renderMode : undefined,
+    warnings: parseWarnings(page.warnings, content),
+  };
+};
+
+// Kept so a crawled source is re-crawled the same way, within the usual limits.
+const parseCrawlOptions = (value: unknown, path: string): CrawlOptions | undefined => {
+  if (value === undefined) return undefined;
+  const options = expectObject(value, path);
+  return {
+    maxDepth: Math.min(expectCount(options.maxDepth, `${path}.maxDepth`), MAX_CRAWL_DEPTH),
+    maxPages: Math.min(expectCount(options.maxPages, `${path}.maxPages`), MAX_CRAWL_PAGES),
+  };
+};
+
+const parseSource = (value: unknown, path: string): WebsiteData => {
+  const source = expectObject(value, path);
+  const pages = expectArray(source.pages, `${path}.pages`).map((page, i) => parsePage(page, `${path}.pages[${i}]`));
+  if (pages.length === 0) throw new InvalidSessionExportError(`${path} has no pages.`);
+  return {
+    url: expectString(source.url, `${path}.url`),
+    title: expectString(source.title, `${path}.title`),
+    content: expectString(source.content, `${path}.content`),
+    pages,
+    metadata: parseMetadata(source.metadata, `${path}.metadata`),
+    language: optionalString(source.language, `${path}.language`),
+    timestamp: expectNumber(source.timestamp, `${path}.timestamp`),
+    crawlOptions: parseCrawlOptions(source.crawlOptions, `${path}.crawlOptions`),
+  };
+};
+
+// Citations link to their page, so they may only point at the web or at an imported page.
+const parseCitation = (value: unknown, path: string, pageUrls: Set<string>): Citation => {
+  const citation = expectObject(value, path);
+  const url = expectString(citation.url, `${path}.url`);
+  if (!isWebUrl(url) && !pageUrls.has(url)) {
+    throw new InvalidSessionExportError(`${path}.url must be a web address or the address of an exported page.`);
+  }
+  return {
+    index: expectNumber(citation.index, `${path}.index`),
+    chunkId: expectString(citation.chunkId, `${path}.chunkId`),
+    url,
+    title: expectString(citation.title, `${path}.title`),
+    quote: expectString(citation.quote, `${path}.quote`),
+    source: optionalString(citation.source, `${path}.source`),
+  };
+};
+
+const parseFocus = (value: unknown, path: string): FocusedPassage => {
+  const focus = expectObject(value, path);
+  return {
+    url: expectString(focus.url, `${path}.url`),
+    title: expectString(focus.title, `${path}.title`),
+    text: expectString(focus.text, `${path}.text`),
+    kind: focus.kind === 'changes' ? 'changes' : undefined,
+  };
+};
+
+const parseUsage = (value: unknown, path: string): TokenUsage => {
+  const usage = expectObject(value, path);
+  return {
+    promptTokens: expectNumber(usage.promptTokens, `${path}.promptTokens`),
+    outputTokens: expectNumber(usage.outputTokens, `${path}.outputTokens`),
+    estimated: usage.estimated === true ? true : undefined,
+  };
+};
+
+const parseContext = (value: unknown, path: string): ContextCoverage => {
+  const context = expectObject(value, path);
+  return {
+    excerpts: expectNumber(context.excerpts, `${path}.excerpts`),
+    totalExcerpts: expectNumber(context.totalExcerpts, `${path}.totalExcerpts`),
+    chars: expectNumber(context.chars, `${path}.chars`),
+    totalChars: expectNumber(context.totalChars, `${path}.totalChars`),
+    trimmedMessages: context.trimmedMessages === undefined ? undefined : expectNumber(context.trimmedMessages, `${path}.trimmedMessages`),
+  };
+};
+
+const parseBranches = (value: unknown, path: string, pageUrls: Set<string>): ChatBranches => {
+  const branches = expectObject(value, path);
+  const parseVersions = (key: 'before' | 'after') =>
+    expectArray(branches[key], `${path}.${key}`).map((version, i) =>
+      expectArray(version, `${path}.${key}[${i}]`).map((m, j) => parseMessage(m, `${path}.${key}[${i}][${j}]`, pageUrls))
+    );
+  return { before: parseVersions('before'), after: parseVersions('after') };
+};
+
+const parseMessage = (value: unknown, path: string, pageUrls: Set<string>): ChatMessage => {
+  const message = expectObject(value, path);
+  const role = message.role;
+  if (role !== 'user' && role !== 'model' && role !== 'system') {
+    throw new InvalidSessionExportError(`${path}.role must be "user", "model" or "system".`);
+  }
+  const status = message.status;
+  if (status !== undefined && status !== 'streaming' && status !== 'stopped' && status !== 'error') {
+    throw new InvalidSessionExportError(`${path}.status is not recognised.`);
+  }
+  return {
+    id: expectString(message.id, `${path}.id`),
+    role,
+    content: expectString(message.content, `${path}.content`),
+    timestamp: expectNumber(message.timestamp, `${path}.timestamp`),
+    citations: message.citations === undefined
+      ? undefined
+      : expectArray(message.citations, `${path}.citations`).map((c, i) => parseCitation(c, `${path}.citations[${i}]`, pageUrls)),
+    focus: message.focus === undefined ? undefined : parseFocus(message.focus, `${path}.focus`),
+    status: status === undefined ? undefined : status === 'error' ? 'error' : 'stopped',
+    branches: message.branches === undefined ? undefined : parseBranches(message.branches, `${path}.branches`, pageUrls),
+    usage: message.usage === undefined ? undefined : parseUsage(message.usage, `${path}.usage`),
+    context: message.context === undefined ? undefined : parseContext(message.context, `${path}.context`),
+  };
+};
+
+const parseBriefing = (value: unknown, path: string): Briefing => {
+  const briefing = expectObject(value, path);
+  return {
+    tldr: expectString(briefing.tldr, `${path}.tldr`),
+    keyPoints: expectStrings(briefing.keyPoints, `${path}.keyPoints`),
+    entities: expectArray(briefing.entities, `${path}.entities`).map((item, i) => {
+      const entity = expectObject(item, `${path}.entities[${i}]`);
+      return { name: expectString(entity.name, `${path}.entities[${i}].name`), kind: expectString(entity.kind, `${path}.entities[${i}].kind`) };
+    }),
+    dates: expectArray(briefing.dates, `${path}.dates`).map((item, i) => {
+      const date = expectObject(item, `${path}.dates[${i}]`);
+      return { date: expectString(date.date, `${path}.dates[${i}].date`), event: expectString(date.event, `${path}.dates[${i}].event`) };
+    }),
+    suggestedQuestions: expectStrings(briefing.suggestedQuestions, `${path}.suggestedQuestions`),
+  };
+};
+
+/**
+ * Parses and validates an exported session. Throws InvalidSessionExportError with a
+ * message that points at the offending field.
+ */
+export const parseSessionExport = (text: string): SessionExport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new InvalidSessionExportError('The file is not valid JSON.');
+  }
+
+  const data = expectObject(raw, 'The file');
+  if (data.format !== 'sitescout-session') {
+    throw new InvalidSessionExportError('This is not a SiteScout conversation export.');
+  }
+  const version = expectNumber(data.version, 'version');
+  if (!Number.isInteger(version) || version < 1) {
+    throw new InvalidSessionExportError('version must be a positive whole number.');
+  }
+  if (version > SESSION_EXPORT_VERSION) {
+    throw new InvalidSessionExportError(`This export was made by a newer version of SiteScout (format ${version}).`);
+  }
+
+  const sources = expectArray(data.sources, 'sources').map((s, i) => parseSource(s, `sources[${i}]`));
+  if (sources.length === 0) throw new InvalidSessionExportError('The export has no sources.');
+  const pageUrls = new Set(sources.flatMap(source => [source.url, ...source.pages.map(page => page.url)]));
+
+  return {
+    format: 'sitescout-session',
+    version,
+    exportedAt: expectString(data.exportedAt, 'exportedAt'),
+    title: expectString(data.title, 'title'),
+    sources,
+    messages: expectArray(data.messages, 'messages').map((m, i) => parseMessage(m, `messages[${i}]`, pageUrls)),
+    briefing: data.briefing === undefined ? undefined : parseBriefing(data.briefing, 'briefing'),
+  };
+};
+
+/**
+ * Restores an exported session into local history as a new session. Resolves with its id.
+ */
+export const importSession = async (text: string): Promise<string> => {
+  const data = parseSessionExport(text);
+  const id = crypto.randomUUID();
+  await sessionStore.save(id, data.sources, data.messages, data.briefing);
+  if (data.title.trim()) await sessionStore.rename(id, data.title);
+  return id;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
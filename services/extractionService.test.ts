@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { extractMetadata } from './extractionService';
+
+const docWithJsonLd = (data: unknown): Document =>
+  new DOMParser().parseFromString(
+    `<html><head><script type="application/ld+json">${JSON.stringify(data)}</script></head><body></body></html>`,
+    'text/html'
+  );
+
+describe('extractMetadata', () => {
+  it('reads the article out of a JSON-LD graph', () => {
+    const doc = docWithJsonLd({
+      '@graph': [
+        { '@type': 'WebSite', name: 'Example' },
+        { '@type': 'Article', headline: 'Title', datePublished: '2024-05-01', author: [{ name: 'Ada' }, 'Grace'] },
+      ],
+    });
+    expect(extractMetadata(doc, 'https://example.com/')).toEqual({ author: 'Ada, Grace', publishedAt: '2024-05-01' });
+  });
+
+  it('ignores JSON-LD fields that are not strings', () => {
+    const doc = docWithJsonLd({ headline: 'Title', author: { name: 42 }, datePublished: { value: 'x' }, description: ['a'] });
+    expect(extractMetadata(doc, 'https://example.com/')).toEqual({});
+  });
+
+  it('ignores malformed JSON-LD', () => {
+    const doc = new DOMParser().parseFromString('<script type="application/ld+json">{not json</script>', 'text/html');
+    expect(extractMetadata(doc, 'https://example.com/')).toEqual({});
+  });
+});
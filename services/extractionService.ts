@@ -0,0 +1,433 @@
+import { PageMetadata } from '../types';
+
+/**
+ * Readability-style main-content extraction that emits Markdown, so headings, lists,
+ * tables and code blocks survive into the model's context.
+ */
+
+// Elements that never carry readable content.
+const STRIP_SELECTOR = 'script, style, noscript, iframe, svg, canvas, template, form, button, input, select, textarea, object, embed';
+
+// Class/id hints, as used by Readability.
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|cookie|newsletter|share/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story|docs|documentation/i;
+const NEGATIVE = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'ASIDE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'PRE', 'TABLE', 'BLOCKQUOTE', 'DL', 'DT', 'DD', 'FIGURE', 'FIGCAPTION', 'HR', 'HEADER', 'FOOTER', 'NAV', 'DETAILS', 'SUMMARY']);
+
+const MIN_MAIN_CONTENT_LENGTH = 250;
+
+const textOf = (el: Element): string => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+const classWeight = (el: Element): number => {
+  let weight = 0;
+  for (const value of [el.className, el.id]) {
+    if (typeof value !== 'string' || !value) continue;
+    if (NEGATIVE.test(value)) weight -= 25;
+    if (POSITIVE.test(value)) weight += 25;
+  }
+  return weight;
+};
+
+const linkDensity = (el: Element): number => {
+  const length = textOf(el).length;
+  if (!length) return 0;
+  let linkLength = 0;
+  el.querySelectorAll('a').forEach(a => {
+    linkLength += textOf(a).length;
+  });
+  return linkLength / length;
+};
+
+const inlineStyle = (el: Element): string => (el.getAttribute('style') || '').replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Elements hidden from sighted readers. Readability drops these too.
+ */
+export const isHidden = (el: Element): boolean => {
+  const style = inlineStyle(el);
+  return (
+    el.hasAttribute('hidden') ||
+    el.getAttribute('aria-hidden') === 'true' ||
+    style.includes('display:none') ||
+    style.includes('visibility:hidden')
+  );
+};
+
+// Font sizes in px, for spotting text too small to read.
+const FONT_UNITS: Record<string, number> = { px: 1, pt: 4 / 3, em: 16, rem: 16, '%': 0.16 };
+const MIN_READABLE_FONT_PX = 3;
+
+/**
+ * Names the trick that hides an element from sighted readers, or returns null. Besides
+ * what isHidden drops, this covers tricks that are also used legitimately (fade-in
+ * animations start at zero opacity), so those elements are kept as content.
+ */
+export const hidingTechnique = (el: Element): string | null => {
+  const style = inlineStyle(el);
+  if (el.hasAttribute('hidden')) return 'the hidden attribute';
+  if (el.getAttribute('aria-hidden') === 'true') return 'aria-hidden';
+  if (style.includes('display:none')) return 'display:none';
+  if (style.includes('visibility:hidden')) return 'visibility:hidden';
+  if (/(^|;)opacity:(0|0?\.0+)(;|$)/.test(style)) return 'zero opacity';
+
+  const font = style.match(/(?:^|;)font-size:([\d.]+)(px|pt|em|rem|%)?/);
+  if (font && Number(font[1]) * (FONT_UNITS[font[2] || 'px'] ?? 1) < MIN_READABLE_FONT_PX) return 'a tiny font';
+  if (/(?:^|;)(?:left|top|text-indent|margin-left):-\d{4,}/.test(style)) return 'off-screen positioning';
+  return null;
+};
+
+/**
+ * Removes elements that can't be content: scripts, hidden nodes, and (optionally)
+ * blocks whose class or id marks them as chrome.
+ */
+const prepare = (root: Element, stripUnlikely: boolean) => {
+  root.querySelectorAll(STRIP_SELECTOR).forEach(el => el.remove());
+  root.querySelectorAll('*').forEach(el => {
+    if (!el.isConnected) return;
+    if (isHidden(el)) {
+      el.remove();
+      return;
+    }
+    if (!stripUnlikely || el.tagName === 'BODY' || el.tagName === 'ARTICLE' || el.tagName === 'MAIN') return;
+    const hint = `${typeof el.className === 'string' ? el.className : ''} ${el.id}`;
+    if (UNLIKELY_CANDIDATES.test(hint) && !MAYBE_CANDIDATE.test(hint) && !el.closest('table, pre, code')) {
+      el.remove();
+    }
+  });
+  root.querySelectorAll('nav, footer, aside, [role="navigation"], [role="contentinfo"], [role="complementary"]').forEach(el => el.remove());
+};
+
+/**
+ * Scores paragraphs and propagates their scores to ancestors, then picks the best
+ * container along with any siblings that look like continuations of it.
+ */
+const scoreCandidates = (root: Element): Element | null => {
+  const scores = new Map<Element, number>();
+
+  const initialize = (el: Element): number => {
+    if (scores.has(el)) return scores.get(el)!;
+    let score = classWeight(el);
+    switch (el.tagName) {
+      case 'DIV': case 'ARTICLE': case 'MAIN': score += 5; break;
+      case 'PRE': case 'TD': case 'BLOCKQUOTE': score += 3; break;
+      case 'FORM': case 'OL': case 'UL': case 'DL': case 'DD': case 'DT': case 'LI': score -= 3; break;
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': case 'TH': score -= 5; break;
+    }
+    scores.set(el, score);
+    return score;
+  };
+
+  root.querySelectorAll('p, pre, td, li, blockquote').forEach(el => {
+    const text = textOf(el);
+    if (text.length < 25) return;
+
+    const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    let ancestor: Element | null = el.parentElement;
+    for (let level = 0; ancestor && level < 3; level++, ancestor = ancestor.parentElement) {
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, initialize(ancestor) + contentScore / divider);
+    }
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Returns the element holding the page's main content.
+ */
+const findMainContent = (doc: Document): Element | null => {
+  const body = doc.body;
+  if (!body) return null;
+
+  // Trust semantic markup when it holds a real amount of text.
+  const semantic = Array.from(body.querySelectorAll('article, main, [role="main"]'))
+    .sort((a, b) => textOf(b).length - textOf(a).length)[0];
+  if (semantic && textOf(semantic).length >= MIN_MAIN_CONTENT_LENGTH) {
+    return semantic;
+  }
+
+  const candidate = scoreCandidates(body);
+  if (candidate && textOf(candidate).length >= MIN_MAIN_CONTENT_LENGTH) {
+    return candidate;
+  }
+  return body;
+};
+
+// --- Markdown conversion ---
+
+const escapeInline = (text: string): string => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+const absolutize = (href: string, baseUrl: string): string => {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+};
+
+const inlineToMarkdown = (node: Node, baseUrl: string): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeInline((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const inner = () => Array.from(el.childNodes).map(child => inlineToMarkdown(child, baseUrl)).join('');
+
+  switch (el.tagName) {
+    case 'BR':
+      return '\n';
+    case 'STRONG':
+    case 'B': {
+      const text = inner().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'EM':
+    case 'I': {
+      const text = inner().trim();
+      return text ? `*${text}*` : '';
+    }
+    case 'CODE':
+    case 'KBD':
+    case 'SAMP': {
+      const text = (el.textContent || '').replace(/\s+/g, ' ');
+      const fence = text.includes('`') ? '``' : '`';
+      return text ? `${fence}${text}${fence}` : '';
+    }
+    case 'A': {
+      const text = inner().trim();
+      const href = el.getAttribute('href');
+      if (!text) return '';
+      if (!href || href.startsWith('#') || href.startsWith('javascript:')) return text;
+      return `[${text}](${absolutize(href, baseUrl)})`;
+    }
+    case 'IMG': {
+      const alt = el.getAttribute('alt')?.trim();
+      return alt ? `[Image: ${escapeInline(alt)}]` : '';
+    }
+    default:
+      return inner();
+  }
+};
+
+const tableToMarkdown = (table: Element, baseUrl: string): string => {
+  const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+  if (rows.length === 0) return '';
+
+  const cells = rows.map(row =>
+    Array.from(row.children)
+      .filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map(cell => inlineToMarkdown(cell, baseUrl).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+  );
+  const width = Math.max(...cells.map(row => row.length));
+  if (width === 0) return '';
+
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const lines = [
+    `| ${pad(cells[0]).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...cells.slice(1).map(row => `| ${pad(row).join(' | ')} |`),
+  ];
+  const caption = table.querySelector('caption');
+  return `${caption ? `${textOf(caption)}\n\n` : ''}${lines.join('\n')}`;
+};
+
+const listToMarkdown = (list: Element, baseUrl: string, depth: number): string => {
+  const ordered = list.tagName === 'OL';
+  const start = Number(list.getAttribute('start')) || 1;
+  const indent = '  '.repeat(depth);
+
+  return Array.from(list.children)
+    .filter(child => child.tagName === 'LI')
+    .map((item, i) => {
+      const marker = ordered ? `${start + i}.` : '-';
+      const inline: string[] = [];
+      const nested: string[] = [];
+
+      item.childNodes.forEach(child => {
+        if (child.nodeType === Node.ELEMENT_NODE && ((child as Element).tagName === 'UL' || (child as Element).tagName === 'OL')) {
+          nested.push(listToMarkdown(child as Element, baseUrl, depth + 1));
+        } else if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName)) {
+          inline.push(blockToMarkdown(child as Element, baseUrl, depth + 1).replace(/\n+/g, ' '));
+        } else {
+          inline.push(inlineToMarkdown(child, baseUrl));
+        }
+      });
+
+      const line = `${indent}${marker} ${inline.join('').replace(/\s+/g, ' ').trim()}`;
+      return [line, ...nested].join('\n');
+    })
+    .join('\n');
+};
+
+const codeLanguage = (pre: Element): string => {
+  const code = pre.querySelector('code') || pre;
+  const match = `${code.className} ${pre.className}`.match(/(?:language|lang)-([\w+#-]+)/);
+  return match ? match[1] : '';
+};
+
+/**
+ * Converts a block-level element (and its children) to Markdown blocks separated by blank lines.
+ */
+const blockToMarkdown = (el: Element, baseUrl: string, depth = 0): string => {
+  const tag = el.tagName;
+
+  if (/^H[1-6]$/.test(tag)) {
+    const text = inlineToMarkdown(el, baseUrl).replace(/\s+/g, ' ').trim();
+    return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+  }
+  if (tag === 'PRE') {
+    const code = (el.textContent || '').replace(/\n+$/, '');
+    return code.trim() ? `\`\`\`${codeLanguage(el)}\n${code}\n\`\`\`` : '';
+  }
+  if (tag === 'UL' || tag === 'OL') return listToMarkdown(el, baseUrl, depth);
+  if (tag === 'TABLE') return tableToMarkdown(el, baseUrl);
+  if (tag === 'HR') return '---';
+  if (tag === 'BLOCKQUOTE') {
+    const inner = childrenToMarkdown(el, baseUrl, depth);
+    return inner ? inner.split('\n').map(line => `> ${line}`).join('\n') : '';
+  }
+  if (tag === 'DL') {
+    return Array.from(el.children)
+      .map(child => child.tagName === 'DT'
+        ? `**${inlineToMarkdown(child, baseUrl).trim()}**`
+        : `: ${inlineToMarkdown(child, baseUrl).replace(/\s+/g, ' ').trim()}`)
+      .join('\n');
+  }
+
+  return childrenToMarkdown(el, baseUrl, depth);
+};
+
+/**
+ * Walks children, grouping runs of inline content into paragraphs and recursing into blocks.
+ */
+const childrenToMarkdown = (el: Element, baseUrl: string, depth = 0): string => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    const text = inline.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  el.childNodes.forEach(child => {
+    if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName)) {
+      flushInline();
+      const block = blockToMarkdown(child as Element, baseUrl, depth);
+      if (block) blocks.push(block);
+    } else {
+      inline += inlineToMarkdown(child, baseUrl);
+    }
+  });
+  flushInline();
+
+  return blocks.join('\n\n');
+};
+
+// --- Metadata ---
+
+const metaContent = (doc: Document, ...selectors: string[]): string | undefined => {
+  for (const selector of selectors) {
+    const value = doc.querySelector(selector)?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+type JsonLdItem = Record<string, unknown>;
+
+const isJsonLdItem = (value: unknown): value is JsonLdItem =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const jsonLdString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const readJsonLd = (doc: Document): JsonLdItem[] => {
+  const items: JsonLdItem[] = [];
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      const data: unknown = JSON.parse(script.textContent || '');
+      const graph = isJsonLdItem(data) ? data['@graph'] : undefined;
+      const list: unknown[] = Array.isArray(data) ? data : Array.isArray(graph) ? graph : [data];
+      items.push(...list.filter(isJsonLdItem));
+    } catch {
+      // Ignore malformed structured data
+    }
+  });
+  return items;
+};
+
+const jsonLdAuthor = (author: unknown): string | undefined => {
+  if (!author) return undefined;
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) return author.map(jsonLdAuthor).filter(Boolean).join(', ') || undefined;
+  return isJsonLdItem(author) ? jsonLdString(author.name) : undefined;
+};
+
+/**
+ * Pulls author, dates, description, language and canonical URL from meta tags and
+ * JSON-LD. Must run before scripts are stripped, since JSON-LD lives in <script> tags.
+ */
+export const extractMetadata = (doc: Document, url: string): PageMetadata => {
+  const article: JsonLdItem = readJsonLd(doc).find(item => typeof item.headline === 'string' || item.datePublished || item.author) || {};
+
+  let canonicalUrl: string | undefined;
+  const canonicalHref = doc.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  if (canonicalHref) canonicalUrl = absolutize(canonicalHref, url);
+
+  const metadata: PageMetadata = {
+    author: metaContent(doc, 'meta[name="author"]', 'meta[property="article:author"]', 'meta[name="twitter:creator"]')
+      || jsonLdAuthor(article.author)
+      || doc.querySelector('[rel="author"], [itemprop="author"]')?.textContent?.trim()
+      || undefined,
+    publishedAt: metaContent(doc, 'meta[property="article:published_time"]', 'meta[name="date"]', 'meta[name="publish-date"]', 'meta[itemprop="datePublished"]')
+      || jsonLdString(article.datePublished)
+      || doc.querySelector('time[datetime]')?.getAttribute('datetime')
+      || undefined,
+    modifiedAt: metaContent(doc, 'meta[property="article:modified_time"]', 'meta[name="last-modified"]') || jsonLdString(article.dateModified),
+    description: metaContent(doc, 'meta[name="description"]', 'meta[property="og:description"]', 'meta[name="twitter:description"]') || jsonLdString(article.description),
+    language: doc.documentElement.getAttribute('lang')?.trim() || metaContent(doc, 'meta[http-equiv="content-language"]') || undefined,
+    siteName: metaContent(doc, 'meta[property="og:site_name"]', 'meta[name="application-name"]'),
+    canonicalUrl,
+  };
+
+  // Drop empty fields so stored data stays compact.
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => typeof value === 'string' && value)) as PageMetadata;
+};
+
+/**
+ * Extracts the main content of a parsed document as Markdown. Mutates the document.
+ */
+export const extractMarkdown = (doc: Document, url: string): string => {
+  if (!doc.body) return '';
+
+  // First pass also drops elements whose class/id marks them as chrome. If that
+  // leaves too little, retry on a fresh copy without that heuristic.
+  const original = doc.body.cloneNode(true) as HTMLElement;
+  prepare(doc.body, true);
+  let main = findMainContent(doc);
+
+  if (!main || textOf(main).length < MIN_MAIN_CONTENT_LENGTH) {
+    doc.body.replaceWith(original);
+    prepare(doc.body, false);
+    main = findMainContent(doc);
+  }
+
+  if (!main) return '';
+
+  return blockToMarkdown(main, url)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { detectSourceKind, ingestResource, RawResource } from './ingestionService';
+
+const textResource = (url: string, body: string): RawResource => ({
+  url,
+  contentType: 'text/plain',
+  bytes: new TextEncoder().encode(body).buffer,
+  body,
+});
+
+describe('ingestResource', () => {
+  const longLine = 'This first line is far too long to be used as the title of the page, so the file name is used. '.repeat(2);
+
+  it('titles text files by their decoded file name', async () => {
+    const { page } = await ingestResource(textResource('https://example.com/docs/annual%20report.txt', longLine));
+    expect(page.title).toBe('annual report.txt');
+  });
+
+  it('keeps a file name that is not valid percent-encoding', async () => {
+    const { page } = await ingestResource(textResource('https://example.com/report-100%.txt', longLine));
+    expect(page.title).toBe('report-100%.txt');
+  });
+});
+
+describe('detectSourceKind', () => {
+  it('goes by the content type', () => {
+    expect(detectSourceKind('text/html; charset=utf-8', 'page')).toBe('html');
+    expect(detectSourceKind('application/pdf', 'download')).toBe('pdf');
+    expect(detectSourceKind('text/markdown', 'notes')).toBe('markdown');
+    expect(detectSourceKind('application/ld+json', 'data')).toBe('json');
+    expect(detectSourceKind('application/atom+xml', 'feed')).toBe('feed');
+  });
+
+  it('falls back to the extension for generic types', () => {
+    expect(detectSourceKind('application/octet-stream', 'paper.PDF')).toBe('pdf');
+    expect(detectSourceKind('text/plain', 'README.md')).toBe('markdown');
+    expect(detectSourceKind('', 'notes.txt')).toBe('text');
+  });
+
+  it('treats other XML as a feed, other text as text and anything else as HTML', () => {
+    expect(detectSourceKind('application/xml', 'index')).toBe('feed');
+    expect(detectSourceKind('text/csv', 'data')).toBe('text');
+    expect(detectSourceKind('', 'page')).toBe('html');
+  });
+});
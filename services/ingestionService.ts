@@ -0,0 +1,275 @@
+import { PageMetadata, WebsitePage } from '../types';
+import { extractMarkdown, extractMetadata } from './extractionService';
+import { pageWarnings, scanHiddenContent } from './injectionService';
+
+/**
+ * Turns fetched or uploaded content of any supported type into a page document:
+ * HTML, PDF, plain text, Markdown, JSON and RSS/Atom feeds.
+ */
+
+export type SourceKind = 'html' | 'pdf' | 'text' | 'markdown' | 'json' | 'feed';
+
+export interface RawResource {
+  url: string;
+  contentType: string;
+  bytes: ArrayBuffer;
+  body: string; // Decoded text; empty for binary types
+}
+
+export interface ParsedPage {
+  page: WebsitePage;
+  canonicalUrl: string;
+  links: string[]; // Absolute URLs of every anchor on the page (HTML only)
+}
+
+const EXTENSION_KINDS: Record<string, SourceKind> = {
+  html: 'html', htm: 'html', xhtml: 'html',
+  pdf: 'pdf',
+  txt: 'text', text: 'text', log: 'text', csv: 'text',
+  md: 'markdown', markdown: 'markdown', mdx: 'markdown',
+  json: 'json',
+  rss: 'feed', atom: 'feed', xml: 'feed',
+};
+
+const extensionOf = (name: string): string => {
+  const path = name.split(/[?#]/)[0];
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? '' : path.slice(dot + 1).toLowerCase();
+};
+
+/**
+ * Decides how to read a resource from its content type, falling back to the file extension.
+ */
+export const detectSourceKind = (contentType: string, name: string): SourceKind => {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'text/markdown' || type === 'text/x-markdown') return 'markdown';
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'application/rss+xml' || type === 'application/atom+xml') return 'feed';
+
+  const byExtension = EXTENSION_KINDS[extensionOf(name)];
+  if (byExtension) return byExtension;
+
+  if (type === 'application/xml' || type === 'text/xml') return 'feed';
+  if (type.startsWith('text/')) return 'text';
+  return 'html';
+};
+
+export const decodeText = (bytes: ArrayBuffer, charset?: string): string => {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const fileNameOf = (url: string): string => {
+  const path = url.split(/[?#]/)[0];
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    return decodeURIComponent(segment) || url;
+  } catch {
+    return segment || url; // A stray "%", e.g. report-100%.txt
+  }
+};
+
+const firstHeading = (markdown: string): string | undefined =>
+  markdown.match(/^#{1,6}\s+(.+)$/m)?.[1].trim();
+
+const normalizeNewlines = (text: string): string =>
+  text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const simplePage = (url: string, title: string, content: string, metadata?: PageMetadata): ParsedPage => ({
+  page: { url, title, content, metadata, warnings: pageWarnings(content) },
+  canonicalUrl: url,
+  links: [],
+});
+
+/**
+ * Parses HTML into a page document (main content as Markdown, plus metadata), its
+ * canonical URL and its outgoing links.
+ */
+export const parseHtmlPage = (html: string, url: string): ParsedPage => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html, 'text/html');
+
+  // Collect links before stripping navigation, since nav menus are where most of them live.
+  const links: string[] = [];
+  doc.querySelectorAll('a[href]').forEach(anchor => {
+    const href = anchor.getAttribute('href');
+    if (!href) return;
+    try {
+      links.push(new URL(href, url).toString());
+    } catch {
+      // Ignore malformed hrefs
+    }
+  });
+
+  const metadata = extractMetadata(doc, url);
+  const canonicalUrl = metadata.canonicalUrl || url;
+
+  // Hidden text is scanned before extraction drops it.
+  const hidden = scanHiddenContent(doc);
+  const title = doc.title.trim() || url;
+  const content = extractMarkdown(doc, url);
+
+  return { page: { url, title, content, metadata, warnings: pageWarnings(content, hidden) }, canonicalUrl, links };
+};
+
+/**
+ * PDF dates look like D:20240102153000+01'00'.
+ */
+const parsePdfDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^D:(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+  return [match[1], match[2], match[3]].filter(Boolean).join('-');
+};
+
+const parsePdf = async (bytes: ArrayBuffer, url: string): Promise<ParsedPage> => {
+  // Loaded on demand: pdf.js is large and most sessions never need it.
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(bytes) }).promise;
+  const sections: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const textContent = await page.getTextContent();
+    let text = '';
+    for (const item of textContent.items) {
+      if (!('str' in item)) continue;
+      text += item.str + (item.hasEOL ? '\n' : '');
+    }
+    const normalized = normalizeNewlines(text);
+    if (normalized) sections.push(`## Page ${pageNumber}\n\n${normalized}`);
+  }
+
+  const info = ((await pdf.getMetadata().catch(() => null))?.info || {}) as Record<string, unknown>;
+  const metadata: PageMetadata = {};
+  if (typeof info.Author === 'string' && info.Author.trim()) metadata.author = info.Author.trim();
+  const created = parsePdfDate(info.CreationDate);
+  if (created) metadata.publishedAt = created;
+  const modified = parsePdfDate(info.ModDate);
+  if (modified) metadata.modifiedAt = modified;
+  if (typeof info.Subject === 'string' && info.Subject.trim()) metadata.description = info.Subject.trim();
+  if (typeof info.Language === 'string' && info.Language.trim()) metadata.language = info.Language.trim();
+
+  const title = (typeof info.Title === 'string' && info.Title.trim()) || fileNameOf(url);
+  return simplePage(url, title, sections.join('\n\n'), metadata);
+};
+
+const parseFeed = (xml: string, url: string): ParsedPage => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    // Not a feed after all; treat it as text.
+    return simplePage(url, fileNameOf(url), normalizeNewlines(xml));
+  }
+
+  const text = (el: Element | null | undefined) => (el?.textContent || '').replace(/\s+/g, ' ').trim();
+  // Descriptions are often escaped HTML; strip the tags.
+  const plain = (value: string) =>
+    value ? (new DOMParser().parseFromString(value, 'text/html').body.textContent || '').replace(/\s+/g, ' ').trim() : '';
+
+  const channel = doc.querySelector('channel, feed');
+  const title = text(channel?.querySelector(':scope > title')) || fileNameOf(url);
+  const description = plain(text(channel?.querySelector(':scope > description, :scope > subtitle')));
+
+  const entries = Array.from(doc.querySelectorAll('item, entry')).map(entry => {
+    const entryTitle = text(entry.querySelector('title')) || 'Untitled';
+    const linkEl = entry.querySelector('link');
+    const link = linkEl?.getAttribute('href') || text(linkEl);
+    const date = text(entry.querySelector('pubDate, published, updated, date'));
+    const summary = plain(text(entry.querySelector('description, summary, content')));
+    return [
+      `## ${entryTitle}`,
+      [date && `*${date}*`, link && `[Link](${link})`].filter(Boolean).join(' · '),
+      summary,
+    ].filter(Boolean).join('\n\n');
+  });
+
+  const content = [description, ...entries].filter(Boolean).join('\n\n');
+  return simplePage(url, title, content, description ? { description } : undefined);
+};
+
+const parseJson = (json: string, url: string): ParsedPage => {
+  let pretty = json.trim();
+  try {
+    pretty = JSON.stringify(JSON.parse(json), null, 2);
+  } catch {
+    // Keep the original text if it doesn't parse
+  }
+  return simplePage(url, fileNameOf(url), `\`\`\`json\n${pretty}\n\`\`\``);
+};
+
+const parseMarkdown = (markdown: string, url: string, fallbackTitle: string): ParsedPage => {
+  const content = normalizeNewlines(markdown);
+  return simplePage(url, firstHeading(content) || fallbackTitle, content);
+};
+
+const parsePlainText = (text: string, url: string, fallbackTitle: string): ParsedPage => {
+  const content = normalizeNewlines(text);
+  const firstLine = content.split('\n')[0]?.trim();
+  const title = firstLine && firstLine.length <= 80 ? firstLine : fallbackTitle;
+  return simplePage(url, title, content);
+};
+
+/**
+ * Parses a fetched resource according to its detected kind.
+ */
+export const ingestResource = async (resource: RawResource): Promise<ParsedPage> => {
+  const kind = detectSourceKind(resource.contentType, resource.url);
+  const name = fileNameOf(resource.url);
+
+  switch (kind) {
+    case 'pdf':
+      return parsePdf(resource.bytes, resource.url);
+    case 'feed':
+      return parseFeed(resource.body, resource.url);
+    case 'json':
+      return parseJson(resource.body, resource.url);
+    case 'markdown':
+      return parseMarkdown(resource.body, resource.url, name);
+    case 'text':
+      return parsePlainText(resource.body, resource.url, name);
+    default:
+      return parseHtmlPage(resource.body, resource.url);
+  }
+};
+
+/**
+ * Parses an uploaded file. Uploads get a synthetic upload: URL since they have no address.
+ */
+export const ingestFile = async (file: File): Promise<ParsedPage> => {
+  const bytes = await file.arrayBuffer();
+  const kind = detectSourceKind(file.type, file.name);
+  const url = `upload:${encodeURIComponent(file.name)}`;
+  const body = kind === 'pdf' ? '' : decodeText(bytes);
+
+  const parsed = await ingestResource({ url, contentType: file.type, bytes, body });
+  // HTML files rarely have a useful <title> fallback; prefer the file name to the synthetic URL.
+  if (parsed.page.title === url) parsed.page.title = file.name;
+  return parsed;
+};
+
+/**
+ * Parses pasted text. HTML is detected and extracted; anything else is kept as Markdown.
+ */
+export const ingestText = (text: string, title?: string): ParsedPage => {
+  const url = `paste:${Date.now()}`;
+  const fallbackTitle = title?.trim() || 'Pasted text';
+
+  if (/^\s*(<!doctype html|<html|<body|<article|<div|<p[\s>])/i.test(text)) {
+    const parsed = parseHtmlPage(text, url);
+    parsed.page.title = title?.trim() || (parsed.page.title !== url ? parsed.page.title : fallbackTitle);
+    return parsed;
+  }
+
+  const parsed = parseMarkdown(text, url, fallbackTitle);
+  if (title?.trim()) parsed.page.title = title.trim();
+  return parsed;
+};
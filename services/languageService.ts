@@ -0,0 +1,129 @@
+import { WebsiteData, WebsitePage } from '../types';
+
+/**
+ * Languages of sources and of the user: detection from page text, the preferred answer
+ * language, and display names.
+ */
+
+const PREFERENCE_KEY = 'answerLanguage';
+
+// Offered in the settings and the Discover filter. ISO 639-1 codes.
+export const LANGUAGES = ['en', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'sv', 'da', 'tr', 'ru', 'uk', 'ar', 'hi', 'zh', 'ja', 'ko'];
+
+// Offered in the Discover filter. ISO 3166-1 codes.
+export const REGIONS = ['US', 'GB', 'CA', 'AU', 'IN', 'IE', 'DE', 'AT', 'CH', 'FR', 'BE', 'NL', 'ES', 'MX', 'AR', 'BR', 'PT', 'IT', 'PL', 'SE', 'DK', 'TR', 'JP', 'KR', 'CN', 'TW'];
+
+/**
+ * The primary subtag of a BCP 47 tag, lowercased: "de-CH" becomes "de".
+ */
+export const primaryLanguage = (tag: string | undefined): string | undefined => {
+  const primary = tag?.trim().split(/[-_]/)[0].toLowerCase();
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : undefined;
+};
+
+const displayName = (code: string, type: 'language' | 'region'): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * English name of a language, e.g. "German" for "de". Also used in prompts.
+ */
+export const languageName = (code: string): string => displayName(code, 'language');
+
+export const regionName = (code: string): string => displayName(code, 'region');
+
+/**
+ * The language answers are written in: the saved preference, else the browser's.
+ */
+export const getAnswerLanguage = (): string => {
+  const saved = typeof window === 'undefined' ? null : localStorage.getItem(PREFERENCE_KEY);
+  return primaryLanguage(saved || undefined) || primaryLanguage(typeof navigator === 'undefined' ? undefined : navigator.language) || 'en';
+};
+
+export const saveAnswerLanguage = (code: string) => {
+  localStorage.setItem(PREFERENCE_KEY, code);
+};
+
+// --- Detection ---
+
+// Scripts that identify a language (or nearly) on their own, checked in order.
+const SCRIPTS: [RegExp, string][] = [
+  [/[぀-ヿ]/g, 'ja'], // Kana; Japanese text mixes it with Han characters
+  [/[가-힯]/g, 'ko'],
+  [/[一-鿿]/g, 'zh'],
+  [/[؀-ۿ]/g, 'ar'],
+  [/[ऀ-ॿ]/g, 'hi'],
+  [/[Ͱ-Ͽ]/g, 'el'],
+  [/[֐-׿]/g, 'he'],
+  [/[฀-๿]/g, 'th'],
+  [/[Ѐ-ӿ]/g, 'ru'],
+];
+
+// The commonest function words of each Latin-script language.
+const STOPWORDS: Record<string, Set<string>> = Object.fromEntries(Object.entries({
+  en: 'the and of to in is that for it with as on are this be by you not or',
+  de: 'der die und das ist nicht mit den von zu ein eine sich auf für dem des auch',
+  fr: 'le la les et des est une pour dans que qui pas sur du au avec sont vous',
+  es: 'el la los las y de que en un una es por con para del se no como',
+  it: 'il la di che è e per un una non sono del della con gli anche come',
+  pt: 'o a os as de que e do da em um uma para com não é por mais',
+  nl: 'de het een en van is dat niet op voor met zijn ook te die je',
+  pl: 'i w nie na się z do że to jest jak o co ale tak za',
+  sv: 'och att det som en på är av för med till den har inte om ett',
+  da: 'og at det som en på er af for med til den har ikke om et',
+  tr: 've bir bu da de için ile çok ne ama olarak daha gibi var mı',
+}).map(([code, words]) => [code, new Set(words.split(' '))]));
+
+// Below this, a guess from stopwords is too unreliable to report.
+const MIN_STOPWORD_HITS = 8;
+const SAMPLE_CHARS = 6000;
+
+/**
+ * Guesses a text's language from its script, or for Latin script from its function
+ * words. Returns an ISO 639-1 code, or undefined when the text gives too little to go on.
+ */
+export const detectLanguage = (text: string): string | undefined => {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return undefined;
+
+  for (const [pattern, code] of SCRIPTS) {
+    const count = (sample.match(pattern) || []).length;
+    if (count / letters > 0.2) {
+      return code === 'ru' && /[іїєґ]/i.test(sample) ? 'uk' : code;
+    }
+  }
+
+  const scores = new Map<string, number>();
+  for (const word of sample.toLowerCase().match(/\p{L}+/gu) || []) {
+    for (const [code, words] of Object.entries(STOPWORDS)) {
+      if (words.has(word)) scores.set(code, (scores.get(code) || 0) + 1);
+    }
+  }
+  const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] < MIN_STOPWORD_HITS || (runnerUp && best[1] < runnerUp[1] * 1.3)) return undefined;
+  return best[0];
+};
+
+/**
+ * The main language of a source, weighted by how much text each page has. A page's
+ * text wins over its <html lang>, which templates often leave at "en".
+ */
+export const sourceLanguage = (pages: WebsitePage[]): string | undefined => {
+  const weights = new Map<string, number>();
+  for (const page of pages) {
+    const language = detectLanguage(page.content) || primaryLanguage(page.metadata?.language);
+    if (language) weights.set(language, (weights.get(language) || 0) + page.content.length);
+  }
+  return [...weights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * The detected languages of a workspace's sources, for prompts.
+ */
+export const sourceLanguages = (sources: WebsiteData[]): string[] =>
+  Array.from(new Set(sources.map(source => source.language).filter((code): code is string => !!code)));
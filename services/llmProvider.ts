@@ -0,0 +1,110 @@
+import { createCassetteProvider } from './providers/cassetteProvider';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { LLMProvider, ProviderSettings } from './providers/types';
+import { getTransportMode } from './transport/cassette';
+
+const SETTINGS_KEY = 'llmSettings';
+
+export class ProviderNotConfiguredError extends Error {
+  constructor(message = "No AI provider is configured. Open Settings to add a Gemini API key or an OpenAI-compatible endpoint.") {
+    super(message);
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
+
+// Note: process.env.* values are polyfilled by Vite. See vite.config.ts.
+const envSettings = (): ProviderSettings => ({
+  provider: process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'gemini',
+  gemini: {
+    apiKey: process.env.API_KEY || '',
+    model: process.env.GEMINI_MODEL || 'gemini-3-flash-preview',
+  },
+  openai: {
+    baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.OPENAI_API_KEY || '',
+    model: process.env.OPENAI_MODEL || '',
+  },
+});
+
+/**
+ * Settings saved from the settings panel, layered over the build-time env defaults.
+ */
+export const getProviderSettings = (): ProviderSettings => {
+  const defaults = envSettings();
+  if (typeof window === 'undefined') return defaults;
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved) return defaults;
+    return {
+      provider: saved.provider || defaults.provider,
+      gemini: { ...defaults.gemini, ...saved.gemini },
+      openai: { ...defaults.openai, ...saved.openai },
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+let cached: { key: string; provider: LLMProvider } | null = null;
+const listeners = new Set<() => void>();
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  cached = null;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribes to settings changes. Returns an unsubscribe function.
+ */
+export const onProviderSettingsChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// The mock and replay transport modes answer without any endpoint or key.
+const isOffline = (): boolean => getTransportMode() === 'mock' || getTransportMode() === 'replay';
+
+export const isProviderConfigured = (settings: ProviderSettings = getProviderSettings()): boolean =>
+  isOffline() || (settings.provider === 'gemini'
+    ? Boolean(settings.gemini.apiKey && settings.gemini.model)
+    : Boolean(settings.openai.baseUrl && settings.openai.model));
+
+/**
+ * Returns the provider for the current settings, or throws ProviderNotConfiguredError.
+ * The transport mode can swap in the demo model, or record or replay the real one.
+ */
+export const getProvider = (): LLMProvider => {
+  const mode = getTransportMode();
+  if (isOffline()) {
+    if (cached?.key !== mode) {
+      cached = { key: mode, provider: mode === 'mock' ? createMockProvider() : createCassetteProvider(null) };
+    }
+    return cached.provider;
+  }
+
+  const settings = getProviderSettings();
+  if (!isProviderConfigured(settings)) {
+    throw new ProviderNotConfiguredError();
+  }
+
+  const key = JSON.stringify(settings);
+  if (cached?.key !== key) {
+    const live = settings.provider === 'gemini'
+      ? createGeminiProvider(settings.gemini)
+      : createOpenAICompatibleProvider(settings.openai);
+    cached = { key, provider: mode === 'record' ? createCassetteProvider(live) : live };
+  }
+  return cached.provider;
+};
+
+export const getProviderLabel = (): string => {
+  try {
+    return getProvider().label;
+  } catch {
+    return 'No AI provider';
+  }
+};
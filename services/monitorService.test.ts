@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkForChanges } from './monitorService';
+import { snapshotStore } from './storageService';
+import { scrapeWebsite } from './scraperService';
+import { Snapshot, WebsiteData } from '../types';
+
+vi.mock('./storageService', () => ({ snapshotStore: { list: vi.fn(), save: vi.fn() } }));
+vi.mock('./scraperService', async importOriginal => ({
+  ...(await importOriginal<typeof import('./scraperService')>()),
+  scrapeWebsite: vi.fn(),
+}));
+
+const source = (content: string, metadata = {}): WebsiteData => ({
+  url: 'https://example.com/',
+  title: 'Example',
+  content,
+  pages: [{ url: 'https://example.com/', title: 'Example', content, metadata }],
+  timestamp: 1,
+});
+
+const snapshot = (data: WebsiteData): Snapshot => ({ id: 's1', sessionId: 'session', url: data.url, takenAt: 1, data });
+
+describe('checkForChanges', () => {
+  beforeEach(() => {
+    vi.mocked(snapshotStore.save).mockImplementation(async (sessionId, url, data) => ({ id: 's2', sessionId, url, takenAt: 2, data }));
+  });
+
+  it('stores a snapshot when the content changed', async () => {
+    vi.mocked(snapshotStore.list).mockResolvedValue([snapshot(source('Old text.'))]);
+    vi.mocked(scrapeWebsite).mockResolvedValue({ success: true, data: source('New text.') });
+
+    const result = await checkForChanges('session', source('Old text.'));
+    expect(result.changed).toBe(true);
+    expect(result.latest.id).toBe('s2');
+  });
+
+  it('keeps the baseline when nothing counts as a change', async () => {
+    vi.mocked(snapshotStore.save).mockClear();
+    vi.mocked(snapshotStore.list).mockResolvedValue([snapshot(source('Same text.'))]);
+    vi.mocked(scrapeWebsite).mockResolvedValue({ success: true, data: source('Same text.', { description: 'Updated' }) });
+
+    const result = await checkForChanges('session', source('Same text.'));
+    expect(result.changed).toBe(false);
+    expect(result.latest.id).toBe('s1');
+    expect(snapshotStore.save).not.toHaveBeenCalled();
+  });
+});
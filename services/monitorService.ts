@@ -0,0 +1,93 @@
+import { SiteDiff, Snapshot, WebsiteData } from '../types';
+import { snapshotStore } from './storageService';
+import { diffWebsites, hasChanges } from './diffService';
+import { isWebUrl, scrapeWebsite } from './scraperService';
+import { crawlWebsite } from './crawlerService';
+
+/**
+ * Change monitoring: re-scrapes a source, compares it with its latest snapshot and
+ * stores a new snapshot when something changed.
+ */
+
+export const MONITOR_INTERVALS: { label: string; minutes: number }[] = [
+  { label: 'Off', minutes: 0 },
+  { label: 'Every 15 minutes', minutes: 15 },
+  { label: 'Every hour', minutes: 60 },
+  { label: 'Every 6 hours', minutes: 360 },
+  { label: 'Every day', minutes: 1440 },
+];
+
+const intervalKey = (sessionId: string) => `monitorInterval:${sessionId}`;
+
+/**
+ * How often the open session re-checks its sources, in minutes (0 = never). Per session.
+ */
+export const getMonitorInterval = (sessionId: string): number =>
+  Number(localStorage.getItem(intervalKey(sessionId))) || 0;
+
+export const setMonitorInterval = (sessionId: string, minutes: number): void => {
+  if (minutes > 0) localStorage.setItem(intervalKey(sessionId), String(minutes));
+  else localStorage.removeItem(intervalKey(sessionId));
+};
+
+/**
+ * Uploads and pasted text have nothing to re-scrape.
+ */
+export const canMonitor = (source: WebsiteData): boolean => isWebUrl(source.url);
+
+export interface ChangeCheck {
+  previous: Snapshot; // Latest snapshot before this check
+  latest: Snapshot; // The new snapshot, or previous when nothing changed
+  diff: SiteDiff;
+  changed: boolean; // Whether the diff counts as a change (see hasChanges)
+  data: WebsiteData; // Fresh content; replaces the source when it changed
+}
+
+/**
+ * Scrapes a source again the way it was first loaded (single page or crawl), bypassing
+ * the page cache.
+ */
+const rescrape = async (source: WebsiteData): Promise<WebsiteData> => {
+  const result = source.crawlOptions
+    ? await crawlWebsite(source.url, source.crawlOptions, undefined, { refresh: true })
+    : await scrapeWebsite(source.url, { refresh: true });
+  if (!result.success || !result.data) {
+    throw new Error(result.error || `Could not re-scrape ${source.url}.`);
+  }
+
+  // Keep the URL the source was opened with; it identifies the source and its snapshots.
+  return { ...result.data, url: source.url };
+};
+
+/**
+ * Stores the source as scraped as its first snapshot, unless it already has one.
+ */
+export const recordBaseline = async (sessionId: string, source: WebsiteData): Promise<void> => {
+  if (!canMonitor(source)) return;
+  const existing = await snapshotStore.list(sessionId, source.url);
+  if (existing.length === 0) await snapshotStore.save(sessionId, source.url, source);
+};
+
+/**
+ * Re-scrapes a source and diffs it against its latest snapshot.
+ */
+export const checkForChanges = async (sessionId: string, source: WebsiteData): Promise<ChangeCheck> => {
+  const history = await snapshotStore.list(sessionId, source.url);
+  const previous = history[history.length - 1] || await snapshotStore.save(sessionId, source.url, source);
+
+  const data = await rescrape(source);
+  const diff = diffWebsites(previous.data, data);
+  const changed = hasChanges(diff);
+  const latest = changed ? await snapshotStore.save(sessionId, source.url, data) : previous;
+
+  return { previous, latest, diff, changed, data };
+};
+
+/**
+ * Re-scrapes a source on demand and reports whether its content changed. Unlike
+ * checkForChanges this stores no snapshot.
+ */
+export const refreshSource = async (source: WebsiteData): Promise<{ data: WebsiteData; changed: boolean }> => {
+  const data = await rescrape(source);
+  return { data, changed: hasChanges(diffWebsites(source, data)) };
+};
@@ -0,0 +1,82 @@
+import { TokenUsage } from "../../types";
+import { getTransportMode, viaCassette } from "../transport/cassette";
+import { GenerateRequest, JsonSchema, LLMProvider } from "./types";
+
+/**
+ * Records a provider's answers to the cassette, or replays them without any provider
+ * (see transport/cassette.ts). Requests are identified by their prompt and settings, so
+ * replays work whichever provider made the recording.
+ */
+
+interface RecordedAnswer<T> {
+  output: T;
+  usage?: TokenUsage;
+}
+
+// The identifying part of a request: no abort signal, callbacks or credentials.
+const requestKey = (kind: string, request: GenerateRequest, schema?: JsonSchema) => ({
+  kind,
+  system: request.system,
+  contents: request.contents,
+  temperature: request.temperature,
+  schema,
+});
+
+const labelFor = (kind: string, request: GenerateRequest): string => {
+  const contents = request.contents;
+  const text = typeof contents === 'string' ? contents : contents[contents.length - 1]?.text || '';
+  return `${kind}: ${text.replace(/\s+/g, ' ').trim().slice(0, 80)}`;
+};
+
+/**
+ * Wraps `live` when recording. For replay, `live` may be null: nothing is ever sent.
+ */
+export const createCassetteProvider = (live: LLMProvider | null): LLMProvider => {
+  const call = async <T>(kind: string, request: GenerateRequest, run: (onUsage: (usage: TokenUsage) => void) => Promise<T>, schema?: JsonSchema): Promise<T> => {
+    const answer = await viaCassette<RecordedAnswer<T>>('llm', requestKey(kind, request, schema), labelFor(kind, request), async () => {
+      let usage: TokenUsage | undefined;
+      const output = await run(reported => { usage = reported; });
+      return { output, usage };
+    });
+    if (answer.usage) request.onUsage?.(answer.usage);
+    return answer.output;
+  };
+
+  const requireLive = (): LLMProvider => {
+    if (!live) throw new Error("No live provider to record from.");
+    return live;
+  };
+
+  return {
+    id: live?.id || 'replay',
+    label: live ? `${live.label} (recording)` : 'Replayed model',
+
+    generateText(request) {
+      return call('text', request, onUsage => requireLive().generateText({ ...request, onUsage }));
+    },
+
+    generateJson<T>(request: GenerateRequest, schema: JsonSchema) {
+      return call('json', request, onUsage => requireLive().generateJson<T>({ ...request, onUsage }, schema), schema);
+    },
+
+    async *streamText(request) {
+      if (getTransportMode() === 'replay') {
+        yield* await call<string[]>('stream', request, async () => []);
+        return;
+      }
+
+      // Passed through as it arrives, then recorded once complete. Stopped answers aren't
+      // recorded, since a replay couldn't stop at the same point.
+      const chunks: string[] = [];
+      let usage: TokenUsage | undefined;
+      for await (const chunk of requireLive().streamText({ ...request, onUsage: reported => { usage = reported; request.onUsage?.(reported); } })) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      if (!request.signal?.aborted) await call('stream', request, async onUsage => {
+        if (usage) onUsage(usage);
+        return chunks;
+      });
+    },
+  };
+};
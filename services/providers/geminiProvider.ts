@@ -0,0 +1,106 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Schema, Type } from "@google/genai";
+import { GeminiSettings, GenerateRequest, JsonSchema, LLMProvider } from "./types";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+/**
+ * Converts our neutral schema into the SDK's responseSchema format.
+ */
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+const reportUsage = (request: GenerateRequest, metadata?: GenerateContentResponseUsageMetadata) => {
+  if (!metadata || metadata.promptTokenCount === undefined) return;
+  request.onUsage?.({ promptTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount || 0 });
+};
+
+const toContents = (contents: GenerateRequest['contents']) =>
+  typeof contents === 'string'
+    ? contents
+    : contents.map(turn => ({
+        role: turn.role,
+        parts: turn.context ? [{ text: turn.context }, { text: turn.text }] : [{ text: turn.text }],
+      }));
+
+export const createGeminiProvider = (settings: GeminiSettings): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    async generateText(request) {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: toContents(request.contents),
+        config: {
+          systemInstruction: request.system,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        }
+      });
+
+      reportUsage(request, response.usageMetadata);
+      const resultText = response.text;
+      if (!resultText) {
+        throw new Error("Received an empty response from the Gemini API.");
+      }
+      return resultText;
+    },
+
+    async generateJson(request, schema) {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: toContents(request.contents),
+        config: {
+          systemInstruction: request.system,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+        }
+      });
+
+      reportUsage(request, response.usageMetadata);
+      return JSON.parse((response.text || '').trim());
+    },
+
+    async *streamText(request) {
+      const stream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: toContents(request.contents),
+        config: {
+          systemInstruction: request.system,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        }
+      });
+
+      // Every chunk repeats the running totals; the last one holds the final counts.
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      try {
+        for await (const chunk of stream) {
+          usage = chunk.usageMetadata || usage;
+          if (chunk.text) yield chunk.text;
+        }
+      } finally {
+        reportUsage(request, usage);
+      }
+    },
+  };
+};
@@ -0,0 +1,76 @@
+import { ChatTurn, GenerateRequest, JsonSchema, LLMProvider } from "./types";
+
+/**
+ * A stand-in model for demos and tests without network or API key. Answers are canned
+ * but built from the request, so they quote and cite the excerpts they were given, and
+ * the same request always gets the same answer.
+ */
+
+// Array fields get this many sample items.
+const SAMPLE_ITEMS = 3;
+
+// Matches the first excerpt as formatted for the chat: "[c1] Title (url)" and its text.
+const EXCERPT_PATTERN = /\[(c\d+)\][^\n]*\n([^\n]+)/;
+
+const latestUserTurn = (contents: GenerateRequest['contents']): ChatTurn | undefined =>
+  typeof contents === 'string'
+    ? { role: 'user', text: contents }
+    : [...contents].reverse().find(turn => turn.role === 'user');
+
+const firstSentence = (text: string): string => {
+  const sentence = text.match(/^.*?[.!?](?=\s|$)/)?.[0] || text;
+  return sentence.length > 240 ? `${sentence.slice(0, 240)}…` : sentence;
+};
+
+const answerFor = (request: GenerateRequest): string => {
+  const turn = latestUserTurn(request.contents);
+  const excerpt = EXCERPT_PATTERN.exec(turn?.context || turn?.text || '');
+  const question = turn?.text.trim().split('\n').pop() || '';
+  const intro = question ? `You asked: "${question}".` : 'Here is what I found.';
+  const body = excerpt
+    ? `The most relevant passage says: "${firstSentence(excerpt[2].trim())}" [${excerpt[1]}]`
+    : "I can't find that information in the provided text.";
+  return `${intro} ${body}\n\n_This is a canned answer from the offline demo model._`;
+};
+
+/**
+ * Builds a value that satisfies the schema: numbered sample strings, sequential
+ * integers (so index fields point at real entries), the first enum option.
+ */
+const sampleFor = (schema: JsonSchema, name: string, position = 0): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFor(value, key, position)]));
+    case 'array':
+      return Array.from({ length: SAMPLE_ITEMS }, (_, i) => sampleFor(schema.items || { type: 'string' }, name, i));
+    case 'integer':
+      return position;
+    case 'number':
+      return position + 1;
+    case 'boolean':
+      return true;
+    default:
+      return schema.enum?.[0] || `Sample ${name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase()} ${position + 1}`;
+  }
+};
+
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  label: 'Offline demo model',
+
+  async generateText(request) {
+    return answerFor(request);
+  },
+
+  async generateJson<T>(_request: GenerateRequest, schema: JsonSchema) {
+    return sampleFor(schema, 'value') as T;
+  },
+
+  async *streamText(request) {
+    // Word by word, so the streaming UI behaves as it does with a real model.
+    for (const word of answerFor(request).split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return;
+      yield word;
+    }
+  },
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', apiKey: '', model: 'llama3' });
+
+const serve = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+};
+
+const collect = async (stream: AsyncGenerator<string>): Promise<string> => {
+  let text = '';
+  for await (const delta of stream) text += delta;
+  return text;
+};
+
+const event = (data: unknown) => `data: ${JSON.stringify(data)}\n`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamText', () => {
+  it('joins deltas split across network chunks', async () => {
+    const first = event({ choices: [{ delta: { content: 'Hello' } }] });
+    serve(first.slice(0, 10), first.slice(10), event({ choices: [{ delta: { content: ', world' } }] }), 'data: [DONE]\n');
+    expect(await collect(provider.streamText({ contents: 'Hi' }))).toBe('Hello, world');
+  });
+
+  it('reads a last event that is not followed by a newline', async () => {
+    const onUsage = vi.fn();
+    serve(
+      event({ choices: [{ delta: { content: 'Done' } }] }),
+      `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3 } })}`
+    );
+    expect(await collect(provider.streamText({ contents: 'Hi', onUsage }))).toBe('Done');
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 12, outputTokens: 3 });
+  });
+});
+
+describe('generateJson', () => {
+  it('takes the JSON object out of surrounding prose', async () => {
+    const content = 'Sure! ```json\n{"answer": 42}\n```';
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content } }] })));
+    expect(await provider.generateJson<{ answer: number }>({ contents: 'Q' }, { type: 'object' })).toEqual({ answer: 42 });
+  });
+});
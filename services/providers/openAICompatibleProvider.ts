@@ -0,0 +1,146 @@
+import { GenerateRequest, JsonSchema, LLMProvider, OpenAICompatibleSettings } from "./types";
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toMessages = (request: GenerateRequest): OpenAIMessage[] => {
+  const messages: OpenAIMessage[] = [];
+  if (request.system) messages.push({ role: 'system', content: request.system });
+
+  if (typeof request.contents === 'string') {
+    messages.push({ role: 'user', content: request.contents });
+  } else {
+    for (const turn of request.contents) {
+      // Plain string content, since not every local server accepts multi-part messages.
+      const content = turn.context ? `${turn.context}\n\n${turn.text}` : turn.text;
+      messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content });
+    }
+  }
+  return messages;
+};
+
+// Token counts as reported in a completion or in the last chunk of a stream.
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const reportUsage = (request: GenerateRequest, usage?: OpenAIUsage) => {
+  if (typeof usage?.prompt_tokens !== 'number') return;
+  request.onUsage?.({ promptTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 });
+};
+
+/**
+ * Local models often wrap JSON in prose or code fences; take the outermost object.
+ */
+const extractJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error("The model did not return JSON.");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API: OpenAI itself,
+ * or a local Ollama / llama.cpp / vLLM server on an air-gapped machine.
+ */
+export const createOpenAICompatibleProvider = (settings: OpenAICompatibleSettings): LLMProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: settings.model, ...body }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Model server responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    label: settings.model ? `${settings.model} (OpenAI-compatible)` : 'OpenAI-compatible',
+
+    async generateText(request) {
+      const response = await post({ messages: toMessages(request), temperature: request.temperature }, request.signal);
+      const data = await response.json();
+      reportUsage(request, data.usage);
+      const resultText: string | undefined = data.choices?.[0]?.message?.content;
+
+      if (!resultText) {
+        throw new Error("Received an empty response from the model server.");
+      }
+      return resultText;
+    },
+
+    async generateJson<T>(request: GenerateRequest, schema: JsonSchema): Promise<T> {
+      // Not every server enforces response_format, so the schema goes in the prompt as well.
+      const system = `${request.system ? `${request.system}\n\n` : ''}Respond only with a JSON object matching this JSON Schema:\n${JSON.stringify(schema)}`;
+      const response = await post({
+        messages: toMessages({ ...request, system }),
+        temperature: request.temperature,
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+      }, request.signal);
+
+      const data = await response.json();
+      reportUsage(request, data.usage);
+      return extractJson(data.choices?.[0]?.message?.content || '') as T;
+    },
+
+    async *streamText(request) {
+      const response = await post({
+        messages: toMessages(request),
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true }, // Usage arrives in a final chunk with no choices
+      }, request.signal);
+
+      if (!response.body) {
+        throw new Error("The model server does not support streaming.");
+      }
+
+      // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]".
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        // Once the stream ends, whatever is left in the buffer is a final line without a newline.
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          try {
+            const data = JSON.parse(payload);
+            reportUsage(request, data.usage);
+            const delta: string | undefined = data.choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          } catch {
+            // Ignore keep-alive comments and partial frames
+          }
+        }
+        if (done) return;
+      }
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import { TokenUsage } from "../../types";
+
+export type ProviderId = 'gemini' | 'openai';
+
+// Stand-ins that need no endpoint, used by the mock and replay transport modes.
+export type OfflineProviderId = 'mock' | 'replay';
+
+/**
+ * A provider-neutral subset of JSON Schema, used for structured output.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  context?: string; // Untrusted material sent as a separate part ahead of the text
+}
+
+export interface GenerateRequest {
+  system?: string;
+  contents: string | ChatTurn[];
+  temperature?: number;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called once the server reports token counts, if it does
+}
+
+/**
+ * What every LLM backend must offer: plain completion, schema-constrained JSON and streaming.
+ */
+export interface LLMProvider {
+  readonly id: ProviderId | OfflineProviderId;
+  readonly label: string; // Shown in the UI, e.g. "Google Gemini"
+  generateText(request: GenerateRequest): Promise<string>;
+  generateJson<T>(request: GenerateRequest, schema: JsonSchema): Promise<T>;
+  streamText(request: GenerateRequest): AsyncGenerator<string>;
+}
+
+export interface GeminiSettings {
+  apiKey: string;
+  model: string;
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey: string; // Optional for most local servers
+  model: string;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  gemini: GeminiSettings;
+  openai: OpenAICompatibleSettings;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createBm25Index, retrieveContext, tokenize } from './retrievalService';
+import { ContentChunk } from '../types';
+
+const chunk = (id: string, text: string, source?: string): ContentChunk => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  text,
+  source,
+});
+
+const indexOf = async (chunks: ContentChunk[]) => {
+  const index = createBm25Index();
+  await index.add(chunks);
+  return index;
+};
+
+describe('tokenize', () => {
+  it('lowercases and drops stopwords and punctuation', () => {
+    expect(tokenize('What is the Price of Plan-B?')).toEqual(['price', 'plan', 'b']);
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(tokenize('Größe für Café')).toEqual(['größe', 'für', 'café']);
+  });
+});
+
+describe('createBm25Index', () => {
+  it('ranks chunks with more of the query terms higher', async () => {
+    const index = await indexOf([
+      chunk('a', 'Shipping is free on all orders.'),
+      chunk('b', 'Refunds are issued within 30 days of the refund request.'),
+      chunk('c', 'Our refund policy covers shipping costs.'),
+    ]);
+    const hits = await index.search('refund shipping', 3);
+    expect(hits[0].chunk.id).toBe('c');
+    expect(hits).toHaveLength(3);
+  });
+
+  it('weighs rare terms above common ones', async () => {
+    const index = await indexOf([
+      chunk('a', 'product product warranty'),
+      chunk('b', 'product details'),
+      chunk('c', 'product overview'),
+    ]);
+    const [top] = await index.search('product warranty', 1);
+    expect(top.chunk.id).toBe('a');
+  });
+
+  it('returns nothing for a query of stopwords or without matches', async () => {
+    const index = await indexOf([chunk('a', 'Some content.')]);
+    expect(await index.search('what is the', 5)).toEqual([]);
+    expect(await index.search('unrelated', 5)).toEqual([]);
+  });
+});
+
+describe('retrieveContext', () => {
+  it('returns hits in document order', async () => {
+    const index = await indexOf([
+      chunk('a', 'pricing overview'),
+      chunk('b', 'unrelated text'),
+      chunk('c', 'pricing pricing pricing details'),
+    ]);
+    expect((await retrieveContext(index, 'pricing', 2)).map(c => c.id)).toEqual(['a', 'c']);
+  });
+
+  it('falls back to the opening chunks without usable terms', async () => {
+    const index = await indexOf([chunk('a', 'first'), chunk('b', 'second'), chunk('c', 'third')]);
+    expect((await retrieveContext(index, 'summarize this', 2)).map(c => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('hears from every source in a multi-source workspace', async () => {
+    const index = await indexOf([
+      chunk('a1', 'pricing pricing plans', 'A'),
+      chunk('a2', 'pricing tiers', 'A'),
+      chunk('a3', 'pricing discounts', 'A'),
+      chunk('b1', 'about the company', 'B'),
+    ]);
+    const ids = (await retrieveContext(index, 'pricing', 2)).map(c => c.id);
+    expect(ids).toContain('b1');
+    expect(ids.filter(id => id.startsWith('a'))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,263 @@
+import { ContentChunk, PageMetadata, WebsiteData } from '../types';
+import { sourceLabel } from './scraperService';
+
+export interface ScoredChunk {
+  chunk: ContentChunk;
+  score: number;
+}
+
+/**
+ * A searchable store of content chunks. BM25 is the built-in implementation; an
+ * embedding-backed index only has to satisfy the same two methods.
+ */
+export interface RetrievalIndex {
+  add(chunks: ContentChunk[]): Promise<void>;
+  search(query: string, topK: number): Promise<ScoredChunk[]>;
+  /** Every chunk, in document order. */
+  all(): ContentChunk[];
+}
+
+export type RetrievalIndexFactory = () => RetrievalIndex;
+
+const TARGET_CHUNK_SIZE = 1200;
+const MAX_CHUNK_SIZE = 2000;
+export const DEFAULT_TOP_K = 8;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+  'there', 'these', 'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'you', 'your',
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => !STOPWORDS.has(t));
+
+/**
+ * Breaks an oversized block at sentence boundaries, hard-cutting only when a single
+ * sentence is itself too long.
+ */
+const splitLongBlock = (block: string): string[] => {
+  if (block.length <= MAX_CHUNK_SIZE) return [block];
+
+  const sentences = block.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [block];
+  const parts: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > TARGET_CHUNK_SIZE) {
+      parts.push(current.trim());
+      current = '';
+    }
+    if (sentence.length > MAX_CHUNK_SIZE) {
+      for (let i = 0; i < sentence.length; i += TARGET_CHUNK_SIZE) {
+        parts.push(sentence.slice(i, i + TARGET_CHUNK_SIZE).trim());
+      }
+      continue;
+    }
+    current += sentence;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+/**
+ * Splits one page into chunks along Markdown headings and paragraph breaks, packing
+ * small paragraphs together and keeping the nearest heading with each chunk.
+ */
+export const chunkPage = (url: string, title: string, content: string, startIndex = 0): ContentChunk[] => {
+  const chunks: ContentChunk[] = [];
+  let heading: string | undefined;
+  let buffer = '';
+
+  const flush = () => {
+    const text = buffer.trim();
+    buffer = '';
+    if (!text) return;
+    for (const part of splitLongBlock(text)) {
+      chunks.push({ id: `c${startIndex + chunks.length + 1}`, url, title, heading, text: part });
+    }
+  };
+
+  for (const block of content.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+
+    const headingMatch = trimmed.match(/^#{1,6}\s+(.+)$/m);
+    if (headingMatch && trimmed.startsWith('#')) {
+      flush();
+      heading = headingMatch[1].trim();
+    }
+
+    if (buffer && buffer.length + trimmed.length > TARGET_CHUNK_SIZE) flush();
+    buffer += (buffer ? '\n\n' : '') + trimmed;
+  }
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Describes a page's metadata in words, so questions like "who wrote this?" can retrieve it.
+ */
+const describeMetadata = (metadata: PageMetadata = {}): string =>
+  [
+    metadata.author && `Author: ${metadata.author}`,
+    metadata.publishedAt && `Published: ${metadata.publishedAt}`,
+    metadata.modifiedAt && `Last updated: ${metadata.modifiedAt}`,
+    metadata.siteName && `Site: ${metadata.siteName}`,
+    metadata.description && `Description: ${metadata.description}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+export const chunkWebsite = (websiteData: WebsiteData, startIndex = 0, source?: string): ContentChunk[] => {
+  const chunks: ContentChunk[] = [];
+  for (const page of websiteData.pages) {
+    const details = describeMetadata(page.metadata);
+    if (details) {
+      chunks.push({ id: `c${startIndex + chunks.length + 1}`, url: page.url, title: page.title, heading: 'Page details', text: details });
+    }
+    chunks.push(...chunkPage(page.url, page.title, page.content, startIndex + chunks.length));
+  }
+  return source ? chunks.map(chunk => ({ ...chunk, source })) : chunks;
+};
+
+/**
+ * Human-readable labels for the sources of a workspace, e.g. "Pricing (acme.com)".
+ * Duplicates get a number so every label is unique.
+ */
+export const labelSources = (sources: WebsiteData[]): string[] => {
+  const seen = new Map<string, number>();
+  return sources.map(source => {
+    const base = `${source.title || 'Untitled'} (${sourceLabel(source.url)})`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} #${count}` : base;
+  });
+};
+
+/**
+ * Chunks every source of a workspace with ids that are unique across sources. Chunks
+ * are only labelled with their source when there is more than one.
+ */
+export const chunkSources = (sources: WebsiteData[]): ContentChunk[] => {
+  const labels = sources.length > 1 ? labelSources(sources) : [];
+  const chunks: ContentChunk[] = [];
+  sources.forEach((source, i) => chunks.push(...chunkWebsite(source, chunks.length, labels[i])));
+  return chunks;
+};
+
+/**
+ * Okapi BM25 over chunk text (with the heading counted as part of the chunk).
+ */
+export const createBm25Index = (k1 = 1.2, b = 0.75): RetrievalIndex => {
+  const chunks: ContentChunk[] = [];
+  const termFreqs: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const docFreq = new Map<string, number>();
+
+  return {
+    async add(newChunks) {
+      for (const chunk of newChunks) {
+        const tokens = tokenize(`${chunk.heading || ''} ${chunk.text}`);
+        const tf = new Map<string, number>();
+        tokens.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+        tf.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1));
+        chunks.push(chunk);
+        termFreqs.push(tf);
+        lengths.push(tokens.length);
+      }
+    },
+
+    async search(query, topK) {
+      const terms = Array.from(new Set(tokenize(query)));
+      const n = chunks.length;
+      if (n === 0 || terms.length === 0) return [];
+
+      const avgLength = lengths.reduce((sum, l) => sum + l, 0) / n || 1;
+      const scored: ScoredChunk[] = [];
+
+      for (let i = 0; i < n; i++) {
+        let score = 0;
+        for (const term of terms) {
+          const f = termFreqs[i].get(term);
+          if (!f) continue;
+          const df = docFreq.get(term) || 0;
+          const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+          score += idf * (f * (k1 + 1)) / (f + k1 * (1 - b + b * lengths[i] / avgLength));
+        }
+        if (score > 0) scored.push({ chunk: chunks[i], score });
+      }
+
+      return scored.sort((x, y) => y.score - x.score).slice(0, topK);
+    },
+
+    all() {
+      return chunks;
+    },
+  };
+};
+
+/**
+ * Chunks the sources of a workspace and loads them into a fresh index.
+ */
+export const buildSiteIndex = async (
+  sources: WebsiteData[],
+  factory: RetrievalIndexFactory = createBm25Index
+): Promise<RetrievalIndex> => {
+  const index = factory();
+  await index.add(chunkSources(sources));
+  return index;
+};
+
+const inDocumentOrder = (chunks: ContentChunk[], all: ContentChunk[]): ContentChunk[] => {
+  const order = new Map(all.map((chunk, i) => [chunk.id, i]));
+  return chunks.sort((x, y) => (order.get(x.id) ?? 0) - (order.get(y.id) ?? 0));
+};
+
+/**
+ * Splits the budget evenly across sources so that a comparison question hears from
+ * every one of them, even when one source dominates the scores. A source with no
+ * matching chunk contributes its opening chunk, so the model can say it is silent;
+ * with no usable terms at all, each source contributes its opening chunks.
+ */
+const retrievePerSource = async (
+  index: RetrievalIndex,
+  query: string,
+  topK: number,
+  sources: string[]
+): Promise<ContentChunk[]> => {
+  const all = index.all();
+  const hits = await index.search(query, all.length);
+  const perSource = Math.max(2, Math.ceil(topK / sources.length));
+  const fallbackCount = hits.length === 0 ? perSource : 1;
+
+  return inDocumentOrder(
+    sources.flatMap(source => {
+      const ranked = hits.filter(hit => hit.chunk.source === source).slice(0, perSource).map(hit => hit.chunk);
+      return ranked.length > 0 ? ranked : all.filter(chunk => chunk.source === source).slice(0, fallbackCount);
+    }),
+    all
+  );
+};
+
+/**
+ * Returns the chunks most relevant to the query, in document order so that the
+ * model reads them the way the page presents them. Questions with no usable terms
+ * ("summarize this") fall back to the beginning of the content.
+ */
+export const retrieveContext = async (
+  index: RetrievalIndex,
+  query: string,
+  topK = DEFAULT_TOP_K
+): Promise<ContentChunk[]> => {
+  const all = index.all();
+  const sources = Array.from(new Set(all.map(chunk => chunk.source).filter((s): s is string => !!s)));
+  if (sources.length > 1) return retrievePerSource(index, query, topK, sources);
+
+  const hits = await index.search(query, topK);
+  if (hits.length === 0) return all.slice(0, topK);
+
+  return inDocumentOrder(hits.map(hit => hit.chunk), all);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute, routeToPath } from './routerService';
+
+const at = (path: string) => {
+  const url = new URL(path, 'http://localhost');
+  return parseRoute({ pathname: url.pathname, search: url.search });
+};
+
+describe('parseRoute', () => {
+  it('reads sessions, topics and URLs', () => {
+    expect(at('/session/abc%20d')).toEqual({ name: 'session', id: 'abc d' });
+    expect(at('/?topic=solar+panels')).toEqual({ name: 'topic', topic: 'solar panels' });
+    expect(at('/?url=a.com&url=b.com')).toEqual({ name: 'url', urls: ['a.com', 'b.com'], crawlOptions: undefined });
+    expect(at('/')).toEqual({ name: 'home' });
+  });
+
+  it('reads crawl limits for a single URL', () => {
+    expect(at('/?url=a.com&depth=2&pages=15')).toMatchObject({ crawlOptions: { maxDepth: 2, maxPages: 15 } });
+    expect(at('/?url=a.com&url=b.com&depth=2&pages=15')).toMatchObject({ crawlOptions: undefined });
+  });
+
+  it('caps crawl limits from a link at the form limits', () => {
+    expect(at('/?url=a.com&depth=50&pages=100000')).toMatchObject({ crawlOptions: { maxDepth: 5, maxPages: 100 } });
+  });
+
+  it('ignores crawl limits that are not positive integers', () => {
+    for (const query of ['depth=1.5&pages=10', 'depth=2&pages=Infinity', 'depth=0&pages=10', 'depth=two&pages=10', 'depth=2']) {
+      expect(at(`/?url=a.com&${query}`)).toMatchObject({ crawlOptions: undefined });
+    }
+  });
+});
+
+describe('routeToPath', () => {
+  it('round-trips through parseRoute', () => {
+    const route = { name: 'url' as const, urls: ['https://a.com/?x=1'], crawlOptions: { maxDepth: 3, maxPages: 40 } };
+    expect(at(routeToPath(route))).toEqual(route);
+  });
+});
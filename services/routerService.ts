@@ -0,0 +1,104 @@
+import { CrawlOptions } from '../types';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from './crawlerService';
+
+/**
+ * Client-side routes, kept in the address bar so views can be linked, refreshed and
+ * walked with back/forward:
+ *   /                    the landing page
+ *   /?url=...            scrapes a URL (repeat `url` to compare several) and opens the chat;
+ *                        `depth` and `pages` crawl it instead
+ *   /?topic=...          runs Discover for a topic
+ *   /session/:id         reopens a saved session
+ */
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'url'; urls: string[]; crawlOptions?: CrawlOptions }
+  | { name: 'topic'; topic: string }
+  | { name: 'session'; id: string };
+
+// Entries this app pushed, so "back" knows whether it would leave the app.
+interface HistoryState {
+  depth: number;
+}
+
+const SESSION_PATH = /^\/session\/([^/]+)\/?$/;
+
+export const parseRoute = (location: { pathname: string; search: string } = window.location): Route => {
+  const session = SESSION_PATH.exec(location.pathname);
+  if (session) return { name: 'session', id: decodeURIComponent(session[1]) };
+
+  const params = new URLSearchParams(location.search);
+  const urls = params.getAll('url').map(url => url.trim()).filter(Boolean);
+  if (urls.length > 0) {
+    const depth = Number(params.get('depth'));
+    const pages = Number(params.get('pages'));
+    // Links are shared, so their limits get the same caps as the form.
+    const crawlOptions = urls.length === 1 && Number.isInteger(depth) && Number.isInteger(pages) && depth > 0 && pages > 0
+      ? { maxDepth: Math.min(depth, MAX_CRAWL_DEPTH), maxPages: Math.min(pages, MAX_CRAWL_PAGES) }
+      : undefined;
+    return { name: 'url', urls, crawlOptions };
+  }
+
+  const topic = params.get('topic')?.trim();
+  if (topic) return { name: 'topic', topic };
+  return { name: 'home' };
+};
+
+export const routeToPath = (route: Route): string => {
+  switch (route.name) {
+    case 'session':
+      return `/session/${encodeURIComponent(route.id)}`;
+    case 'url': {
+      const params = new URLSearchParams();
+      route.urls.forEach(url => params.append('url', url));
+      if (route.crawlOptions) {
+        params.set('depth', String(route.crawlOptions.maxDepth));
+        params.set('pages', String(route.crawlOptions.maxPages));
+      }
+      return `/?${params}`;
+    }
+    case 'topic':
+      return `/?${new URLSearchParams({ topic: route.topic })}`;
+    default:
+      return '/';
+  }
+};
+
+const currentDepth = (): number => (window.history.state as HistoryState | null)?.depth ?? 0;
+
+/**
+ * Shows a route in the address bar without applying it; the caller has already updated
+ * the view. Pushes a history entry unless `replace` is set.
+ */
+export const navigate = (route: Route, { replace = false }: { replace?: boolean } = {}): void => {
+  const path = routeToPath(route);
+  if (path === `${window.location.pathname}${window.location.search}`) return;
+  if (replace) {
+    const state: HistoryState = { depth: currentDepth() };
+    window.history.replaceState(state, '', path);
+  } else {
+    const state: HistoryState = { depth: currentDepth() + 1 };
+    window.history.pushState(state, '', path);
+  }
+};
+
+/**
+ * Goes back one entry if this app pushed it. Returns false, doing nothing, when going back
+ * would leave the app.
+ */
+export const goBack = (): boolean => {
+  if (currentDepth() === 0) return false;
+  window.history.back();
+  return true;
+};
+
+/**
+ * Calls the listener with the new route whenever back/forward changes it. Returns an
+ * unsubscribe function.
+ */
+export const onRouteChange = (listener: (route: Route) => void): (() => void) => {
+  const handle = () => listener(parseRoute());
+  window.addEventListener('popstate', handle);
+  return () => window.removeEventListener('popstate', handle);
+};
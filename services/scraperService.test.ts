@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeUrl } from './scraperService';
+
+describe('normalizeUrl', () => {
+  it('drops the fragment and lowercases the host', () => {
+    expect(normalizeUrl('https://Example.COM/Docs#intro')).toBe('https://example.com/Docs');
+  });
+
+  it('drops default ports', () => {
+    expect(normalizeUrl('https://example.com:443/a')).toBe('https://example.com/a');
+    expect(normalizeUrl('http://example.com:80/a')).toBe('http://example.com/a');
+    expect(normalizeUrl('http://example.com:8080/a')).toBe('http://example.com:8080/a');
+  });
+
+  it('sorts query parameters', () => {
+    expect(normalizeUrl('https://example.com/search?b=2&a=1')).toBe(normalizeUrl('https://example.com/search?a=1&b=2'));
+  });
+
+  it('drops a trailing slash except on the root', () => {
+    expect(normalizeUrl('https://example.com/docs/')).toBe('https://example.com/docs');
+    expect(normalizeUrl('https://example.com/')).toBe('https://example.com/');
+  });
+});
@@ -1,70 +1,446 @@
-import { ScrapeResult, WebsiteData } from '../types';
+import { CachedPage, RenderSettings, ScrapeResult, WebsiteData, WebsitePage } from '../types';
+import { decodeText, detectSourceKind, ingestFile, ingestResource, ingestText, parseHtmlPage, ParsedPage, RawResource } from './ingestionService';
+import { pageCacheStore } from './storageService';
+import { transportFetch } from './transport/transportFetch';
+import { sourceLanguage } from './languageService';
 
-// Use a public CORS proxy to bypass browser restrictions for the demo.
-// In a production app, this should be your own backend.
-const PROXY_URL = 'https://api.allorigins.win/get?url=';
+// Our own fetch backend (see server/fetchHandler.ts), served by the Vite dev server
+// and by the standalone server. Can point elsewhere via FETCH_PROXY_URL.
+// Note: process.env.FETCH_PROXY_URL is polyfilled by Vite. See vite.config.ts.
+const PROXY_URL = process.env.FETCH_PROXY_URL || '/api/fetch';
 
-export const scrapeWebsite = async (url: string): Promise<ScrapeResult> => {
+// Headless-browser rendering for JavaScript-only pages (see server/renderHandler.ts).
+// Can point elsewhere via RENDER_PROXY_URL.
+const RENDER_URL = process.env.RENDER_PROXY_URL || '/api/render';
+
+const RENDER_SETTINGS_KEY = 'renderSettings';
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  mode: 'auto',
+  waitUntil: 'networkidle',
+  waitForSelector: '',
+  delayMs: 0,
+};
+
+// Anything shorter is almost certainly an error page or an empty shell.
+const MIN_CONTENT_LENGTH = 50;
+
+// How many sources one comparison workspace can hold. Each source competes for the
+// same excerpt budget, so past this point every one of them gets too little.
+export const MAX_WORKSPACE_SOURCES = 6;
+
+/**
+ * Adds a protocol if the user omitted one.
+ */
+export const ensureProtocol = (url: string): string => {
+  const trimmed = url.trim();
+  return trimmed.startsWith('http') ? trimmed : `https://${trimmed}`;
+};
+
+/**
+ * False for uploads and pasted text, which have synthetic upload:/paste: URLs.
+ */
+export const isWebUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+/**
+ * Short label for where a source came from: the hostname, or the kind of local source.
+ */
+export const sourceLabel = (url: string): string => {
+  if (url.startsWith('upload:')) return 'Uploaded file';
+  if (url.startsWith('paste:')) return 'Pasted text';
   try {
-    // Validate URL
-    let targetUrl = url;
-    if (!targetUrl.startsWith('http')) {
-      targetUrl = `https://${targetUrl}`;
-    }
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Default name for a workspace: the source's title, or the first one's plus a count.
+ */
+export const workspaceTitle = (sources: WebsiteData[]): string => {
+  const [first] = sources;
+  const title = first.title || sourceLabel(first.url);
+  return sources.length > 1 ? `${title} + ${sources.length - 1} more` : title;
+};
+
+/**
+ * Normalizes a URL so that trivially different spellings of the same page compare equal.
+ */
+export const normalizeUrl = (url: string): string => {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase();
+  if ((parsed.protocol === 'https:' && parsed.port === '443') || (parsed.protocol === 'http:' && parsed.port === '80')) {
+    parsed.port = '';
+  }
+  parsed.searchParams.sort();
+  let normalized = parsed.toString();
+  if (parsed.pathname !== '/' && normalized.endsWith('/') && !parsed.search) {
+    normalized = normalized.slice(0, -1);
+  }
+  return normalized;
+};
+
+export const getRenderSettings = (): RenderSettings => {
+  if (typeof window === 'undefined') return DEFAULT_RENDER_SETTINGS;
+  try {
+    return { ...DEFAULT_RENDER_SETTINGS, ...JSON.parse(localStorage.getItem(RENDER_SETTINGS_KEY) || 'null') };
+  } catch {
+    return DEFAULT_RENDER_SETTINGS;
+  }
+};
+
+export const saveRenderSettings = (settings: RenderSettings) => {
+  localStorage.setItem(RENDER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Reads a fetch or render backend response, which reports the final URL after redirects.
+ */
+const readResource = async (response: Response, url: string): Promise<RawResource> => {
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Failed to fetch: ${response.statusText}`);
+  }
+
+  const bytes = await response.arrayBuffer();
+
+  if (bytes.byteLength === 0) {
+    throw new Error('No content received from the fetch backend');
+  }
+
+  const contentTypeHeader = response.headers.get('Content-Type') || '';
+  const contentType = contentTypeHeader.split(';')[0].trim();
+  const charset = /charset=([^;]+)/i.exec(contentTypeHeader)?.[1]?.trim();
+
+  return {
+    url: response.headers.get('X-Final-Url') || url,
+    contentType,
+    bytes,
+    body: contentType === 'application/pdf' ? '' : decodeText(bytes, charset),
+  };
+};
+
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+interface FetchedResource {
+  resource: RawResource;
+  validators: HttpValidators;
+}
+
+const proxyRequestUrl = (url: string, extra = ''): string => {
+  const separator = PROXY_URL.includes('?') ? '&' : '?';
+  return `${PROXY_URL}${separator}url=${encodeURIComponent(url)}${extra}`;
+};
+
+const readValidators = (response: Response): HttpValidators => ({
+  etag: response.headers.get('ETag') || undefined,
+  lastModified: response.headers.get('Last-Modified') || undefined,
+});
+
+/**
+ * Fetches a URL through the fetch backend as a conditional request when validators are
+ * given. Resolves to null when the site answers 304 Not Modified.
+ */
+const fetchConditional = async (url: string, validators: HttpValidators = {}): Promise<FetchedResource | null> => {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await transportFetch(proxyRequestUrl(url), { headers, cache: 'no-store' });
+  if (response.status === 304) return null;
+  return { resource: await readResource(response, url), validators: readValidators(response) };
+};
+
+/**
+ * Fetches a URL through the fetch backend, which follows redirects and reports the final URL.
+ */
+export const fetchResource = async (url: string): Promise<RawResource> =>
+  (await fetchConditional(url))!.resource; // Never null without validators
+
+// Cached pages are served without a request for this long, then revalidated.
+const PAGE_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const cacheKey = (url: string): string => {
+  try {
+    return normalizeUrl(url);
+  } catch {
+    return url;
+  }
+};
+
+// The cache is an optimization; a browser without IndexedDB just always fetches.
+const readCache = (url: string): Promise<CachedPage | null> =>
+  pageCacheStore.get(cacheKey(url)).catch(() => null);
+
+const writeCache = (entries: CachedPage[]): Promise<void> =>
+  pageCacheStore.put(...entries).catch(error => console.error("Page Cache Error:", error));
+
+/**
+ * Cache entries for a page under the URL it was requested by and, when redirected,
+ * under its final URL too, since that is how results are opened again.
+ */
+const cacheEntries = (requestedUrl: string, page: LoadedPage, fetchedAt = Date.now()): CachedPage[] => {
+  const entry: CachedPage = {
+    url: cacheKey(requestedUrl),
+    finalUrl: page.url,
+    page: page.page,
+    canonicalUrl: page.canonicalUrl,
+    links: page.links,
+    etag: page.validators?.etag,
+    lastModified: page.validators?.lastModified,
+    fetchedAt,
+    validatedAt: Date.now(),
+  };
+  const finalKey = cacheKey(page.url);
+  return finalKey === entry.url ? [entry] : [entry, { ...entry, url: finalKey }];
+};
+
+const fromCache = (entry: CachedPage): LoadedPage => ({
+  url: entry.finalUrl,
+  page: entry.page,
+  canonicalUrl: entry.canonicalUrl,
+  links: entry.links,
+  validators: { etag: entry.etag, lastModified: entry.lastModified },
+});
 
-    const response = await fetch(`${PROXY_URL}${encodeURIComponent(targetUrl)}`);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch: ${response.statusText}`);
+export interface ProbeResult {
+  ok: boolean;
+  url: string; // Final URL after redirects
+  title?: string;
+  description?: string;
+  error?: string;
+}
+
+/**
+ * Checks cheaply whether a URL can be read: fetches only the start of the body and looks
+ * for text in it. A page that fits in the probe is cached, so opening it is instant.
+ */
+export const probeUrl = async (url: string): Promise<ProbeResult> => {
+  const target = ensureProtocol(url);
+  try {
+    const response = await transportFetch(proxyRequestUrl(target, '&probe=1'));
+    const truncated = response.headers.get('X-Truncated') === 'true';
+    const resource = await readResource(response, target);
+
+    if (!truncated) {
+      const parsed = await ingestResource(resource);
+      if (parsed.page.content.length >= MIN_CONTENT_LENGTH) {
+        const page: LoadedPage = { ...parsed, url: resource.url, page: { ...parsed.page, renderMode: 'static' }, validators: readValidators(response) };
+        await writeCache(cacheEntries(target, page));
+      }
     }
 
-    const data = await response.json();
-    
-    if (!data.contents) {
-      throw new Error('No content received from proxy');
+    if (detectSourceKind(resource.contentType, resource.url) !== 'html') {
+      return { ok: true, url: resource.url };
     }
 
-    const html = data.contents;
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
+    // Partial HTML parses fine; a short page that was read whole is an empty shell,
+    // which is only readable if it may be rendered.
+    const { page } = parseHtmlPage(resource.body, resource.url);
+    const ok = truncated || page.content.length >= MIN_CONTENT_LENGTH || getRenderSettings().mode !== 'never';
+    return {
+      ok,
+      url: resource.url,
+      title: page.title,
+      description: page.metadata?.description,
+      error: ok ? undefined : 'No readable text on the page.',
+    };
+  } catch (error: any) {
+    return { ok: false, url: target, error: error.message };
+  }
+};
+
+/**
+ * Loads a URL in the render backend's headless browser and returns the rendered HTML.
+ */
+export const renderResource = async (url: string, settings: RenderSettings = getRenderSettings()): Promise<RawResource> => {
+  const params = new URLSearchParams({ url, waitUntil: settings.waitUntil });
+  if (settings.waitForSelector.trim()) params.set('waitFor', settings.waitForSelector.trim());
+  if (settings.delayMs > 0) params.set('delay', String(settings.delayMs));
+  const separator = RENDER_URL.includes('?') ? '&' : '?';
+  return readResource(await transportFetch(`${RENDER_URL}${separator}${params}`), url);
+};
 
-    // Remove scripts, styles, and other non-content elements
-    const scripts = doc.querySelectorAll('script, style, iframe, noscript, nav, footer, header, svg');
-    scripts.forEach(script => script.remove());
+export interface LoadedPage extends ParsedPage {
+  url: string; // Final URL after redirects
+  validators?: HttpValidators; // Only for static fetches; rendered pages can't be revalidated
+}
 
-    // Extract text content
-    const title = doc.title || targetUrl;
-    let content = doc.body.textContent || '';
+export interface LoadOptions {
+  refresh?: boolean; // Revalidate even a fresh cache entry, and don't fall back to it on errors
+}
 
-    // Clean up whitespace
-    content = content
-      .replace(/\s+/g, ' ') // Replace multiple spaces/newlines with single space
-      .replace(/\n\s*\n/g, '\n') // Remove empty lines
-      .trim();
+/**
+ * Fetches and parses a web page. In 'auto' mode, HTML that yields too little text (an
+ * application shell waiting for JavaScript) or that could not be fetched at all is
+ * rendered in the headless browser instead. The page records which mode produced it.
+ */
+const fetchPage = async (url: string, settings: RenderSettings, validators?: HttpValidators): Promise<LoadedPage | null> => {
+  let staticPage: LoadedPage | null = null;
+  let staticError: unknown = null;
 
-    if (content.length < 50) {
-       throw new Error('Could not extract meaningful text content. The site might be SPA-only or blocking scrapers.');
+  if (settings.mode !== 'always') {
+    try {
+      const fetched = await fetchConditional(url, validators);
+      if (!fetched) return null;
+      const { resource } = fetched;
+      const parsed = await ingestResource(resource);
+      staticPage = { ...parsed, url: resource.url, page: { ...parsed.page, renderMode: 'static' }, validators: fetched.validators };
+      const isShell = detectSourceKind(resource.contentType, resource.url) === 'html' && parsed.page.content.length < MIN_CONTENT_LENGTH;
+      if (!isShell || settings.mode === 'never') return staticPage;
+    } catch (error) {
+      if (settings.mode === 'never') throw error;
+      staticError = error;
     }
+  }
 
-    const websiteData: WebsiteData = {
-      url: targetUrl,
-      title,
-      content,
-      timestamp: Date.now(),
-    };
+  try {
+    const resource = await renderResource(url, settings);
+    const parsed = await ingestResource(resource);
+    return { ...parsed, url: resource.url, page: { ...parsed.page, renderMode: 'rendered' } };
+  } catch (error) {
+    // A fallback render that fails (e.g. no browser installed) shouldn't hide the static result.
+    if (staticPage) return staticPage;
+    throw staticError || error;
+  }
+};
+
+/**
+ * Loads a web page through the page cache. Entries younger than the TTL are used as they
+ * are; older ones are revalidated with a conditional request and only downloaded again
+ * when the site reports a change. If the site can't be reached, a cached copy is used.
+ */
+export const loadPage = async (
+  url: string,
+  settings: RenderSettings = getRenderSettings(),
+  options: LoadOptions = {}
+): Promise<LoadedPage> => {
+  const cached = await readCache(url);
+  if (cached && !options.refresh && Date.now() - cached.validatedAt < PAGE_CACHE_TTL_MS) {
+    return fromCache(cached);
+  }
+
+  // Rendered pages have no validators, so they are always downloaded again.
+  const validators = cached?.page.renderMode === 'static' ? { etag: cached.etag, lastModified: cached.lastModified } : undefined;
+
+  let loaded: LoadedPage | null;
+  try {
+    loaded = await fetchPage(url, settings, validators);
+  } catch (error) {
+    if (cached && !options.refresh) return fromCache(cached);
+    throw error;
+  }
+
+  if (!loaded) {
+    // 304 Not Modified: the cached copy is current.
+    await writeCache([{ ...cached!, validatedAt: Date.now() }]);
+    return fromCache(cached!);
+  }
+
+  if (loaded.page.content.length >= MIN_CONTENT_LENGTH) {
+    await writeCache(cacheEntries(url, loaded));
+  }
+  return loaded;
+};
 
-    return { success: true, data: websiteData };
+/**
+ * Fetches the raw body of a URL through the fetch backend.
+ */
+export const fetchRaw = async (url: string): Promise<string> => (await fetchResource(url)).body;
+
+/**
+ * Joins the pages of a site into a single context, labelling each page with its title and URL.
+ */
+export const combinePages = (pages: WebsitePage[]): string => {
+  if (pages.length === 1) return pages[0].content;
+  return pages
+    .map(page => `## ${page.title}\nSource: ${page.url}\n\n${page.content}`)
+    .join('\n\n');
+};
+
+export const buildWebsiteData = (url: string, pages: WebsitePage[]): WebsiteData => ({
+  url,
+  title: pages[0]?.title || url,
+  content: combinePages(pages),
+  pages,
+  metadata: pages[0]?.metadata,
+  language: sourceLanguage(pages),
+  timestamp: Date.now(),
+});
+
+export const scrapeWebsite = async (url: string, options: LoadOptions = {}): Promise<ScrapeResult> => {
+  try {
+    // Validate URL
+    const targetUrl = ensureProtocol(url);
+
+    const loaded = await loadPage(targetUrl, getRenderSettings(), options);
+    const { page } = loaded;
+
+    if (page.content.length < MIN_CONTENT_LENGTH) {
+       throw new Error(page.renderMode === 'rendered'
+         ? 'Could not extract meaningful text content, even after rendering the page. Try waiting for a specific element in Settings.'
+         : 'Could not extract meaningful text content. The site might be SPA-only or blocking scrapers.');
+    }
+
+    return { success: true, data: buildWebsiteData(loaded.url, [page]) };
 
   } catch (error: any) {
     // console.error("Scraping error:", error); // Optional: keep logs clean
     return { 
       success: false, 
-      error: error.message || 'Failed to scrape website. Please try a different URL or paste content manually.' 
+      error: error.message || 'Failed to scrape website. Please try a different URL or upload the content instead.' 
     };
   }
 };
 
-export const checkScrapability = async (url: string): Promise<boolean> => {
-  const result = await scrapeWebsite(url);
-  return result.success;
+/**
+ * Scrapes several URLs in parallel for a comparison workspace. Results keep the order
+ * of the input; callers decide what to do with the ones that failed.
+ */
+export const scrapeWebsites = (urls: string[]): Promise<ScrapeResult[]> =>
+  Promise.all(urls.map(url => scrapeWebsite(url)));
+
+/**
+ * Reads uploaded files (PDF, text, Markdown, JSON, RSS or HTML), one page per file.
+ */
+export const scrapeFiles = async (files: File[]): Promise<ScrapeResult> => {
+  const pages: WebsitePage[] = [];
+  const failures: string[] = [];
+
+  for (const file of files) {
+    try {
+      const { page } = await ingestFile(file);
+      if (page.content.length < MIN_CONTENT_LENGTH) throw new Error('no readable text');
+      pages.push(page);
+    } catch {
+      failures.push(file.name);
+    }
+  }
+
+  if (pages.length === 0) {
+    return {
+      success: false,
+      error: `Could not read any text from ${failures.join(', ') || 'the uploaded files'}.`
+    };
+  }
+
+  return { success: true, data: buildWebsiteData(pages[0].url, pages) };
+};
+
+/**
+ * Wraps pasted text (plain, Markdown or HTML) as a single-page source.
+ */
+export const scrapePastedText = (text: string, title?: string): ScrapeResult => {
+  const { page } = ingestText(text, title);
+
+  if (page.content.length < MIN_CONTENT_LENGTH) {
+    return { success: false, error: 'Please paste a bit more text to chat about.' };
+  }
+
+  return { success: true, data: buildWebsiteData(page.url, [page]) };
 };
@@ -0,0 +1,32 @@
+import { SearchProvider } from './types';
+
+/**
+ * Raised when the server has no search engine configured (HTTP 501).
+ */
+export class SearchBackendUnavailableError extends Error {
+  constructor(message = "No web search engine is configured on the server.") {
+    super(message);
+    this.name = 'SearchBackendUnavailableError';
+  }
+}
+
+/**
+ * Searches through the /api/search backend (SearXNG, Brave or Bing; see server/searchHandler.ts).
+ */
+export const createBackendSearchProvider = (endpoint: string): SearchProvider => ({
+  id: 'backend',
+
+  async search(query, count, signal, filter = {}) {
+    const params = new URLSearchParams({ q: query, count: String(count) });
+    if (filter.language) params.set('lang', filter.language);
+    if (filter.region) params.set('region', filter.region);
+    const separator = endpoint.includes('?') ? '&' : '?';
+    const response = await fetch(`${endpoint}${separator}${params}`, { signal });
+    const data = await response.json().catch(() => null);
+
+    if (response.status === 501) throw new SearchBackendUnavailableError(data?.error);
+    if (!response.ok) throw new Error(data?.error || `Search failed: ${response.statusText}`);
+
+    return { engine: data?.engine || 'Web search', results: data?.results || [] };
+  },
+});
@@ -0,0 +1,63 @@
+import { GoogleGenAI } from "@google/genai";
+import { GeminiSettings } from "../providers/types";
+import { SearchFilter, SearchProvider } from "./types";
+import { languageName, regionName } from "../languageService";
+
+/**
+ * Searches with Gemini's Google Search grounding. Results are the grounding sources the
+ * model actually retrieved, not URLs it recalls. Their URIs are redirect links, which
+ * the fetch backend resolves when the result is probed.
+ */
+// Grounded search has no filter parameters, so the filter is asked for in the prompt.
+const filterHint = ({ language, region }: SearchFilter): string => {
+  const parts = [
+    language && `written in ${languageName(language)}`,
+    region && `from or about ${regionName(region)}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` Prefer websites ${parts.join(' and ')}.` : '';
+};
+
+export const createGeminiSearchProvider = (settings: GeminiSettings): SearchProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+
+  return {
+    id: 'gemini',
+
+    async search(query, count, signal, filter = {}) {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: `Search the web for the most useful, distinct websites about: "${query}". Briefly say what each one offers.${filterHint(filter)}`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal: signal,
+        }
+      });
+
+      const metadata = response.candidates?.[0]?.groundingMetadata;
+      const chunks = metadata?.groundingChunks || [];
+
+      // The sentence a source supports is the closest thing grounding has to a snippet.
+      const snippets = new Map<number, string>();
+      for (const support of metadata?.groundingSupports || []) {
+        for (const index of support.groundingChunkIndices || []) {
+          if (!snippets.has(index) && support.segment?.text) snippets.set(index, support.segment.text);
+        }
+      }
+
+      const seen = new Set<string>();
+      const results = chunks
+        .map((chunk, index) => ({
+          title: chunk.web?.title || '',
+          url: chunk.web?.uri || '',
+          snippet: snippets.get(index) || '',
+        }))
+        .filter(result => {
+          if (!result.url || seen.has(result.url)) return false;
+          seen.add(result.url);
+          return true;
+        });
+
+      return { engine: 'Google Search (Gemini)', results: results.slice(0, count) };
+    },
+  };
+};
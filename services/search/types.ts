@@ -0,0 +1,31 @@
+import { WebSearchResult } from '../../types';
+
+export type SearchProviderId = 'backend' | 'gemini';
+
+/**
+ * 'auto' uses the search backend when the server has one configured and falls back
+ * to Gemini with Google Search grounding otherwise.
+ */
+export type SearchMode = 'auto' | SearchProviderId;
+
+export interface SearchResponse {
+  engine: string; // Shown in the UI, e.g. "SearXNG"
+  results: WebSearchResult[];
+}
+
+/**
+ * Narrows a search to pages in one language and/or from one region. Providers that
+ * can't filter strictly treat it as a preference.
+ */
+export interface SearchFilter {
+  language?: string; // ISO 639-1, e.g. "de"
+  region?: string; // ISO 3166-1 alpha-2, e.g. "AT"
+}
+
+/**
+ * What every web search backend must offer: real results, with snippets where available.
+ */
+export interface SearchProvider {
+  readonly id: SearchProviderId;
+  search(query: string, count: number, signal?: AbortSignal, filter?: SearchFilter): Promise<SearchResponse>;
+}
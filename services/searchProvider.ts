@@ -0,0 +1,122 @@
+import { SearchResultItem, WebSearchResult } from '../types';
+import { getProviderSettings } from './llmProvider';
+import { createBackendSearchProvider, SearchBackendUnavailableError } from './search/backendSearchProvider';
+import { createGeminiSearchProvider } from './search/geminiSearchProvider';
+import { SearchFilter, SearchMode, SearchResponse } from './search/types';
+import { getTransportMode, viaCassette } from './transport/cassette';
+import { demoSearch } from './transport/demoSite';
+
+const SETTINGS_KEY = 'searchMode';
+const FILTER_KEY = 'searchFilter';
+const DISCOVER_CACHE_PREFIX = 'discover:';
+
+// Our own search backend (see server/searchHandler.ts). Can point elsewhere via SEARCH_PROXY_URL.
+// Note: process.env.SEARCH_PROXY_URL is polyfilled by Vite. See vite.config.ts.
+const SEARCH_URL = process.env.SEARCH_PROXY_URL || '/api/search';
+
+export class SearchNotConfiguredError extends Error {
+  constructor(message = "No web search is configured. Set up SearXNG, Brave or Bing on the server, or add a Gemini API key in Settings to search with Google.") {
+    super(message);
+    this.name = 'SearchNotConfiguredError';
+  }
+}
+
+export const getSearchMode = (): SearchMode => {
+  const saved = typeof window === 'undefined' ? null : localStorage.getItem(SETTINGS_KEY);
+  return saved === 'backend' || saved === 'gemini' ? saved : 'auto';
+};
+
+export const saveSearchMode = (mode: SearchMode) => {
+  localStorage.setItem(SETTINGS_KEY, mode);
+};
+
+/**
+ * The Discover language and region last chosen, if any.
+ */
+export const getSearchFilter = (): SearchFilter => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FILTER_KEY) || '{}');
+    return {
+      language: typeof saved?.language === 'string' && saved.language ? saved.language : undefined,
+      region: typeof saved?.region === 'string' && saved.region ? saved.region : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
+
+export const saveSearchFilter = (filter: SearchFilter) => {
+  localStorage.setItem(FILTER_KEY, JSON.stringify(filter));
+};
+
+const isFiltered = (filter: SearchFilter): boolean => !!(filter.language || filter.region);
+
+const searchLive = async (query: string, count: number, filter: SearchFilter, signal?: AbortSignal): Promise<SearchResponse> => {
+  const mode = getSearchMode();
+  let response: SearchResponse | null = null;
+
+  if (mode !== 'gemini') {
+    try {
+      response = await createBackendSearchProvider(SEARCH_URL).search(query, count, signal, filter);
+    } catch (error) {
+      if (!(error instanceof SearchBackendUnavailableError)) throw error;
+      if (mode === 'backend') throw new SearchNotConfiguredError(error.message);
+    }
+  }
+
+  if (!response) {
+    const { gemini } = getProviderSettings();
+    if (!gemini.apiKey || !gemini.model) throw new SearchNotConfiguredError();
+    response = await createGeminiSearchProvider(gemini).search(query, count, signal, filter);
+  }
+  return response;
+};
+
+/**
+ * Runs a web search with the configured provider, or as the transport mode dictates,
+ * optionally limited to a language and region. Results are deduplicated by URL.
+ */
+export const webSearch = async (query: string, count = 10, signal?: AbortSignal, filter: SearchFilter = {}): Promise<SearchResponse> => {
+  // Unfiltered searches keep the request shape of recordings made before filters existed.
+  const request = isFiltered(filter) ? { query, count, filter } : { query, count };
+  const response = getTransportMode() === 'mock'
+    ? demoSearch(count)
+    : await viaCassette('search', request, `search: ${query}`, () => searchLive(query, count, filter, signal));
+
+  const seen = new Set<string>();
+  const results: WebSearchResult[] = response.results.filter(result => {
+    const key = result.url.trim().toLowerCase().replace(/\/$/, '');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { ...response, results };
+};
+
+export interface DiscoverResults {
+  engine: string;
+  results: SearchResultItem[];
+}
+
+const discoverKey = (topic: string, filter: SearchFilter) =>
+  `${DISCOVER_CACHE_PREFIX}${isFiltered(filter) ? `${filter.language || ''}-${filter.region || ''}:` : ''}${topic.trim().toLowerCase()}`;
+
+/**
+ * Curated Discover results from earlier in this tab, so going back to a topic (or
+ * reloading it) shows the same list instead of searching again.
+ */
+export const getCachedDiscover = (topic: string, filter: SearchFilter = {}): DiscoverResults | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(discoverKey(topic, filter)) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const cacheDiscover = (topic: string, discover: DiscoverResults, filter: SearchFilter = {}): void => {
+  try {
+    sessionStorage.setItem(discoverKey(topic, filter), JSON.stringify(discover));
+  } catch {
+    // Storage full or unavailable; the topic will simply be searched again.
+  }
+};
@@ -0,0 +1,292 @@
+import { Briefing, CachedPage, ChatMessage, ChatSession, Snapshot, WebsiteData } from '../types';
+import { sourceLabel, workspaceTitle } from './scraperService';
+
+/**
+ * Local persistence for chat sessions in IndexedDB. Session summaries and their
+ * (potentially large) scraped content live in separate stores, so listing the
+ * history never loads page content. Change-monitoring snapshots live in a third
+ * store and are deleted with their session. A fourth store caches scraped pages
+ * independently of any session.
+ */
+
+const DB_NAME = 'sitescout';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const CONTENTS_STORE = 'contents';
+const SNAPSHOTS_STORE = 'snapshots';
+const PAGES_STORE = 'pages';
+
+// Eviction policy: least recently active sessions go first once either limit is hit,
+// or when the browser reports we are close to the origin's storage quota.
+export const MAX_SESSIONS = 100;
+export const MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+const QUOTA_HEADROOM = 0.8;
+// Oldest snapshots of a source are dropped beyond this many.
+export const MAX_SNAPSHOTS_PER_SOURCE = 20;
+// Cached pages not confirmed current for this long, or beyond this many, are dropped.
+export const MAX_CACHED_PAGES = 500;
+export const MAX_CACHED_PAGE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface SessionContent {
+  sessionId: string;
+  sources: WebsiteData[];
+  messages: ChatMessage[];
+  briefing?: Briefing;
+  websiteData?: WebsiteData; // Single-source sessions saved before workspaces existed
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(CONTENTS_STORE)) {
+          db.createObjectStore(CONTENTS_STORE, { keyPath: 'sessionId' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(PAGES_STORE)) {
+          db.createObjectStore(PAGES_STORE, { keyPath: 'url' }).createIndex('validatedAt', 'validatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs work inside one transaction and resolves once it has committed.
+ */
+const transact = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+const byteSize = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+const storedBytes = (session: ChatSession): number => session.sizeBytes + (session.snapshotBytes || 0);
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const sessionStore = {
+  /**
+   * All sessions, most recently active first.
+   */
+  async list(): Promise<ChatSession[]> {
+    const sessions = await transact([SESSIONS_STORE], 'readonly', tx =>
+      promisify(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<ChatSession[]>)
+    );
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  /**
+   * Case-insensitive match on title, hostname and URL.
+   */
+  async search(query: string): Promise<ChatSession[]> {
+    const sessions = await this.list();
+    const needle = query.trim().toLowerCase();
+    if (!needle) return sessions;
+    return sessions.filter(session =>
+      [session.title, session.hostname, session.url].some(field => field.toLowerCase().includes(needle))
+    );
+  },
+
+  async get(id: string): Promise<{ session: ChatSession; sources: WebsiteData[]; messages: ChatMessage[]; briefing?: Briefing } | null> {
+    return transact([SESSIONS_STORE, CONTENTS_STORE], 'readonly', async tx => {
+      const session = await promisify(tx.objectStore(SESSIONS_STORE).get(id) as IDBRequest<ChatSession | undefined>);
+      const content = await promisify(tx.objectStore(CONTENTS_STORE).get(id) as IDBRequest<SessionContent | undefined>);
+      if (!session || !content) return null;
+      const sources = content.sources || (content.websiteData ? [content.websiteData] : []);
+      if (sources.length === 0) return null;
+      return { session, sources, messages: content.messages, briefing: content.briefing };
+    });
+  },
+
+  /**
+   * Creates or updates a session. The title is only set on creation so renames stick;
+   * the hostnames follow the workspace as sources are added or removed.
+   */
+  async save(id: string, sources: WebsiteData[], messages: ChatMessage[], briefing?: Briefing): Promise<ChatSession> {
+    // In-progress answers are saved as they stand; mark them stopped so a reload doesn't show a live cursor.
+    const settled = messages.map(m => (m.status === 'streaming' ? { ...m, status: 'stopped' as const } : m));
+    const content: SessionContent = { sessionId: id, sources, messages: settled, briefing };
+    const sizeBytes = byteSize(content);
+
+    const session = await transact([SESSIONS_STORE, CONTENTS_STORE], 'readwrite', async tx => {
+      const sessions = tx.objectStore(SESSIONS_STORE);
+      const existing = await promisify(sessions.get(id) as IDBRequest<ChatSession | undefined>);
+      const now = Date.now();
+      const next: ChatSession = {
+        id,
+        title: existing?.title || workspaceTitle(sources),
+        url: sources[0].url,
+        hostname: Array.from(new Set(sources.map(source => sourceLabel(source.url)))).join(', '),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        messageCount: settled.filter(m => m.role === 'user').length,
+        sizeBytes,
+        snapshotBytes: existing?.snapshotBytes,
+      };
+      sessions.put(next);
+      tx.objectStore(CONTENTS_STORE).put(content);
+      return next;
+    });
+
+    await this.enforceQuota(id);
+    notify();
+    return session;
+  },
+
+  async rename(id: string, title: string): Promise<void> {
+    await transact([SESSIONS_STORE], 'readwrite', async tx => {
+      const store = tx.objectStore(SESSIONS_STORE);
+      const existing = await promisify(store.get(id) as IDBRequest<ChatSession | undefined>);
+      if (existing) store.put({ ...existing, title: title.trim() || existing.title });
+    });
+    notify();
+  },
+
+  async delete(id: string): Promise<void> {
+    await transact([SESSIONS_STORE, CONTENTS_STORE, SNAPSHOTS_STORE], 'readwrite', async tx => {
+      tx.objectStore(SESSIONS_STORE).delete(id);
+      tx.objectStore(CONTENTS_STORE).delete(id);
+      const snapshots = tx.objectStore(SNAPSHOTS_STORE);
+      const keys = await promisify(snapshots.index('sessionId').getAllKeys(id));
+      keys.forEach(key => snapshots.delete(key));
+    });
+    notify();
+  },
+
+  /**
+   * Evicts the least recently active sessions until we are within limits, counting
+   * their snapshots as well as their content. The session currently open is never evicted.
+   */
+  async enforceQuota(keepId?: string): Promise<void> {
+    const sessions = await this.list();
+    let totalBytes = sessions.reduce((sum, s) => sum + storedBytes(s), 0);
+    let count = sessions.length;
+
+    let nearQuota = false;
+    try {
+      const estimate = await navigator.storage?.estimate?.();
+      if (estimate?.usage && estimate.quota) nearQuota = estimate.usage > estimate.quota * QUOTA_HEADROOM;
+    } catch {
+      // Storage estimates are best-effort
+    }
+
+    for (const session of [...sessions].reverse()) {
+      if (count <= MAX_SESSIONS && totalBytes <= MAX_TOTAL_BYTES && !nearQuota) break;
+      if (session.id === keepId) continue;
+      await this.delete(session.id);
+      count--;
+      totalBytes -= storedBytes(session);
+      // One eviction is enough to relieve quota pressure; byte and count limits keep going.
+      nearQuota = false;
+    }
+  },
+
+  /**
+   * Subscribes to changes in the stored sessions. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+};
+
+export const snapshotStore = {
+  /**
+   * Snapshots of one source in a session, oldest first.
+   */
+  async list(sessionId: string, url: string): Promise<Snapshot[]> {
+    const snapshots = await transact([SNAPSHOTS_STORE], 'readonly', tx =>
+      promisify(tx.objectStore(SNAPSHOTS_STORE).index('sessionId').getAll(sessionId) as IDBRequest<Snapshot[]>)
+    );
+    return snapshots.filter(s => s.url === url).sort((a, b) => a.takenAt - b.takenAt);
+  },
+
+  /**
+   * Stores a snapshot of a source as scraped, dropping the oldest beyond the per-source
+   * limit. The session's snapshot size is kept up to date so eviction accounts for it.
+   */
+  async save(sessionId: string, url: string, data: WebsiteData): Promise<Snapshot> {
+    const snapshot: Snapshot = { id: crypto.randomUUID(), sessionId, url, takenAt: data.timestamp, data };
+    const existing = await this.list(sessionId, url);
+    const dropped = existing.slice(0, Math.max(0, existing.length + 1 - MAX_SNAPSHOTS_PER_SOURCE));
+    const addedBytes = byteSize(snapshot) - dropped.reduce((sum, old) => sum + byteSize(old), 0);
+
+    await transact([SESSIONS_STORE, SNAPSHOTS_STORE], 'readwrite', async tx => {
+      const store = tx.objectStore(SNAPSHOTS_STORE);
+      store.put(snapshot);
+      dropped.forEach(old => store.delete(old.id));
+
+      const sessions = tx.objectStore(SESSIONS_STORE);
+      const session = await promisify(sessions.get(sessionId) as IDBRequest<ChatSession | undefined>);
+      if (session) sessions.put({ ...session, snapshotBytes: Math.max(0, (session.snapshotBytes || 0) + addedBytes) });
+    });
+    await sessionStore.enforceQuota(sessionId);
+    return snapshot;
+  },
+};
+
+export const pageCacheStore = {
+  async get(url: string): Promise<CachedPage | null> {
+    const entry = await transact([PAGES_STORE], 'readonly', tx =>
+      promisify(tx.objectStore(PAGES_STORE).get(url) as IDBRequest<CachedPage | undefined>)
+    );
+    return entry || null;
+  },
+
+  /**
+   * Stores entries, then drops the ones least recently confirmed current beyond the limits.
+   */
+  async put(...entries: CachedPage[]): Promise<void> {
+    await transact([PAGES_STORE], 'readwrite', async tx => {
+      const store = tx.objectStore(PAGES_STORE);
+      entries.forEach(entry => store.put(entry));
+
+      const keys = await promisify(store.index('validatedAt').getAllKeys());
+      const cutoff = Date.now() - MAX_CACHED_PAGE_AGE_MS;
+      const expired = await promisify(store.index('validatedAt').getAllKeys(IDBKeyRange.upperBound(cutoff)));
+      const excess = keys.slice(0, Math.max(0, keys.length - MAX_CACHED_PAGES)); // Oldest first
+      new Set([...expired, ...excess]).forEach(key => store.delete(key));
+    });
+  },
+
+  async delete(url: string): Promise<void> {
+    await transact([PAGES_STORE], 'readwrite', async tx => {
+      tx.objectStore(PAGES_STORE).delete(url);
+    });
+  },
+};
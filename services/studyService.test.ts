@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { dueCards, formatDelay, reviewCard } from './studyService';
+import { Flashcard } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1700000000000;
+
+const card = (overrides: Partial<Flashcard> = {}): Flashcard => ({
+  id: '1',
+  sourceUrl: 'https://example.com/',
+  front: 'Front',
+  back: 'Back',
+  createdAt: 0,
+  due: 0,
+  interval: 0,
+  ease: 2.5,
+  repetitions: 0,
+  ...overrides,
+});
+
+describe('reviewCard', () => {
+  it('schedules a new card a day out, or four days when easy', () => {
+    expect(reviewCard(card(), 'good', NOW)).toMatchObject({ interval: 1, repetitions: 1, due: NOW + DAY_MS });
+    expect(reviewCard(card(), 'easy', NOW)).toMatchObject({ interval: 4, ease: 2.65 });
+  });
+
+  it('goes to six days on the second correct recall, then grows by the ease', () => {
+    const second = reviewCard(card({ interval: 1, repetitions: 1 }), 'good', NOW);
+    expect(second.interval).toBe(6);
+    const third = reviewCard(second, 'good', NOW);
+    expect(third.interval).toBe(15);
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('shortens hard intervals but always moves the card further out', () => {
+    const hard = reviewCard(card({ interval: 10, repetitions: 3, ease: 1.3 }), 'hard', NOW);
+    expect(hard.interval).toBe(11);
+    expect(hard.ease).toBe(1.3);
+  });
+
+  it('starts a forgotten card over and shows it again within the session', () => {
+    const forgotten = reviewCard(card({ interval: 20, repetitions: 4 }), 'again', NOW);
+    expect(forgotten).toMatchObject({ interval: 0, repetitions: 0, due: NOW + 10 * 60 * 1000, lastReviewedAt: NOW });
+    expect(forgotten.ease).toBeCloseTo(2.3);
+  });
+
+  it('never lets the ease drop below the minimum', () => {
+    expect(reviewCard(card({ ease: 1.35 }), 'again', NOW).ease).toBe(1.3);
+  });
+});
+
+describe('dueCards', () => {
+  it('returns cards due by now, the longest overdue first', () => {
+    const cards = [card({ id: 'later', due: NOW + 1 }), card({ id: 'recent', due: NOW - 1 }), card({ id: 'old', due: NOW - DAY_MS })];
+    expect(dueCards(cards, NOW).map(c => c.id)).toEqual(['old', 'recent']);
+  });
+});
+
+describe('formatDelay', () => {
+  it('uses minutes, days, months and years', () => {
+    expect(formatDelay(10 * 60 * 1000)).toBe('10 min');
+    expect(formatDelay(DAY_MS)).toBe('1 day');
+    expect(formatDelay(6 * DAY_MS)).toBe('6 days');
+    expect(formatDelay(60 * DAY_MS)).toBe('2 mo');
+    expect(formatDelay(365 * DAY_MS)).toBe('1 yr');
+    expect(formatDelay(547 * DAY_MS)).toBe('1.5 yr');
+  });
+});
@@ -0,0 +1,139 @@
+import { Flashcard, FlashcardRating, WebsiteData } from '../types';
+import { aiService, StudyOptions } from './aiService';
+import { RetrievalIndex } from './retrievalService';
+
+/**
+ * Study mode: flashcard decks with spaced-repetition scheduling (a variant of SM-2),
+ * kept in this browser across sessions. Quizzes are generated on demand by aiService
+ * and not stored.
+ */
+
+const CARDS_KEY = 'flashcards';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A forgotten card comes back this soon, so it is relearned in the same sitting.
+const RELEARN_MS = 10 * MINUTE_MS;
+
+const EASE_CHANGE: Record<FlashcardRating, number> = { again: -0.2, hard: -0.15, good: 0, easy: 0.15 };
+
+const savedCards = (): Flashcard[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(CARDS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCards = (cards: Flashcard[]) => {
+  localStorage.setItem(CARDS_KEY, JSON.stringify(cards));
+};
+
+const normalizeFront = (front: string): string => front.replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const flashcardStore = {
+  /**
+   * The deck of a workspace: every card written from one of its sources, oldest first.
+   */
+  list(sources: WebsiteData[]): Flashcard[] {
+    const urls = new Set(sources.map(source => source.url));
+    return savedCards().filter(card => urls.has(card.sourceUrl)).sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  add(cards: Flashcard[]): void {
+    storeCards([...savedCards(), ...cards]);
+  },
+
+  update(card: Flashcard): void {
+    storeCards(savedCards().map(saved => (saved.id === card.id ? card : saved)));
+  },
+
+  delete(id: string): void {
+    storeCards(savedCards().filter(card => card.id !== id));
+  },
+};
+
+/**
+ * Cards due for review, the longest overdue first.
+ */
+export const dueCards = (cards: Flashcard[], now = Date.now()): Flashcard[] =>
+  cards.filter(card => card.due <= now).sort((a, b) => a.due - b.due);
+
+const nextInterval = (card: Flashcard, rating: FlashcardRating, ease: number): number => {
+  if (card.repetitions === 0) return rating === 'easy' ? 4 : 1;
+  const base = card.repetitions === 1 ? 6 : card.interval * ease;
+  const days = Math.round(rating === 'hard' ? base * 0.6 : rating === 'easy' ? base * 1.3 : base);
+  return Math.max(card.interval + 1, days);
+};
+
+/**
+ * Reschedules a card after a review. "Again" starts its intervals over; the other
+ * ratings lengthen the interval by the card's ease, which they also adjust.
+ */
+export const reviewCard = (card: Flashcard, rating: FlashcardRating, now = Date.now()): Flashcard => {
+  const ease = Math.max(MIN_EASE, card.ease + EASE_CHANGE[rating]);
+  if (rating === 'again') {
+    return { ...card, ease, interval: 0, repetitions: 0, due: now + RELEARN_MS, lastReviewedAt: now };
+  }
+  const interval = nextInterval(card, rating, ease);
+  return { ...card, ease, interval, repetitions: card.repetitions + 1, due: now + interval * DAY_MS, lastReviewedAt: now };
+};
+
+/**
+ * How long until a card would be shown again after the rating, e.g. "10 min" or "6 days".
+ */
+export const formatDelay = (ms: number): string => {
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / MINUTE_MS))} min`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days} day${days === 1 ? '' : 's'}`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1).replace(/\.0$/, '')} yr`;
+};
+
+export const previewDelay = (card: Flashcard, rating: FlashcardRating): string =>
+  formatDelay(reviewCard(card, rating, 0).due);
+
+/**
+ * Writes new cards for a workspace and adds them to its deck. Cards whose front is
+ * already in the deck are left out. Resolves with the cards added.
+ */
+export const addFlashcards = async (
+  index: RetrievalIndex,
+  sources: WebsiteData[],
+  options: StudyOptions,
+  signal?: AbortSignal
+): Promise<Flashcard[]> => {
+  const deck = flashcardStore.list(sources);
+  const written = await aiService.generateFlashcards(index, options, deck.map(card => card.front), signal);
+  if (signal?.aborted) return [];
+
+  const seen = new Set(deck.map(card => normalizeFront(card.front)));
+  const now = Date.now();
+  const cards: Flashcard[] = [];
+  for (const card of written) {
+    const key = normalizeFront(card.front);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const source = sources.find(s => s.pages.some(page => page.url === card.reference?.url)) || sources[0];
+    cards.push({
+      id: crypto.randomUUID(),
+      sourceUrl: source.url,
+      front: card.front,
+      back: card.back,
+      reference: card.reference && { url: card.reference.url, title: card.reference.title },
+      createdAt: now,
+      due: now,
+      interval: 0,
+      ease: DEFAULT_EASE,
+      repetitions: 0,
+    });
+  }
+
+  flashcardStore.add(cards);
+  return cards;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Cassette } from './types';
+import { CassetteMissError, createCassettePlayer } from './cassette';
+
+const emptyCassette = (): Cassette => ({ version: 1, recordedAt: '2024-01-01T00:00:00.000Z', entries: [] });
+
+/**
+ * Records the given answers to the same request and returns the cassette as saved.
+ */
+const record = async (answers: string[]): Promise<Cassette> => {
+  let saved = emptyCassette();
+  const recorder = createCassettePlayer('record', 'test', emptyCassette(), cassette => (saved = structuredClone(cassette)));
+  for (const answer of answers) {
+    await recorder('llm', { prompt: 'Hello' }, 'llm: Hello', async () => answer);
+  }
+  return saved;
+};
+
+describe('createCassettePlayer', () => {
+  it('records each live answer with a readable label', async () => {
+    const cassette = await record(['first']);
+    expect(cassette.entries).toHaveLength(1);
+    expect(cassette.entries[0]).toMatchObject({ channel: 'llm', label: 'llm: Hello', response: 'first' });
+  });
+
+  it('replays identical requests in recorded order, repeating the last', async () => {
+    const player = createCassettePlayer('replay', 'test', await record(['first', 'second']), vi.fn());
+    const live = vi.fn(async () => 'live');
+    const replay = () => player('llm', { prompt: 'Hello' }, 'llm: Hello', live);
+
+    expect(await replay()).toBe('first');
+    expect(await replay()).toBe('second');
+    expect(await replay()).toBe('second');
+    expect(live).not.toHaveBeenCalled();
+  });
+
+  it('tells requests apart by channel and content', async () => {
+    const player = createCassettePlayer('replay', 'test', await record(['first']), vi.fn());
+    await expect(player('search', { prompt: 'Hello' }, 'search: Hello', async () => 'live')).rejects.toThrow(CassetteMissError);
+    await expect(player('llm', { prompt: 'Bye' }, 'llm: Bye', async () => 'live')).rejects.toThrow(CassetteMissError);
+  });
+
+  it('names the request and cassette when nothing matches', async () => {
+    const player = createCassettePlayer('replay', 'demo', emptyCassette(), vi.fn());
+    await expect(player('fetch', { url: 'x' }, 'GET https://example.com/', async () => 'live'))
+      .rejects.toThrow('Nothing recorded for GET https://example.com/ in the "demo" cassette.');
+  });
+
+  it('makes the live call in live mode', async () => {
+    const save = vi.fn();
+    const player = createCassettePlayer('live', 'test', emptyCassette(), save);
+    expect(await player('llm', {}, 'llm', async () => 'live')).toBe('live');
+    expect(save).not.toHaveBeenCalled();
+  });
+});
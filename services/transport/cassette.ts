@@ -0,0 +1,106 @@
+import { Cassette, CassetteChannel, CassetteEntry, TransportMode } from './types';
+
+/**
+ * Records live traffic to a cassette file and replays it, so the app can run
+ * deterministically without network access or an API key. The mode and cassette name
+ * come from TRANSPORT_MODE and TRANSPORT_CASSETTE at build time.
+ */
+
+// Note: process.env.TRANSPORT_* values are polyfilled by Vite. See vite.config.ts.
+const MODE = process.env.TRANSPORT_MODE;
+const CASSETTE_NAME = process.env.TRANSPORT_CASSETTE || 'default';
+
+// Where the dev server saves recordings (see server/cassetteHandler.ts).
+const CASSETTE_ENDPOINT = '/api/cassettes';
+
+// Recording writes are batched, since a streamed answer or a crawl records in bursts.
+const SAVE_DEBOUNCE_MS = 500;
+
+export class CassetteMissError extends Error {
+  constructor(label: string, cassetteName: string) {
+    super(`Nothing recorded for ${label} in the "${cassetteName}" cassette. Record it again with TRANSPORT_MODE=record.`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export const getTransportMode = (): TransportMode =>
+  MODE === 'record' || MODE === 'replay' || MODE === 'mock' ? MODE : 'live';
+
+// Bundled at build time; only cassettes present when the app was built can be replayed.
+const BUNDLED = import.meta.glob<Cassette>('../../fixtures/cassettes/*.json', { eager: true, import: 'default' });
+
+const loadCassette = (): Cassette => {
+  const bundled = Object.entries(BUNDLED).find(([path]) => path.endsWith(`/${CASSETTE_NAME}.json`))?.[1];
+  return bundled?.version === 1 ? bundled : { version: 1, recordedAt: new Date().toISOString(), entries: [] };
+};
+
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+const scheduleSave = (cassette: Cassette) => {
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    const data = { ...cassette, recordedAt: new Date().toISOString() };
+    fetch(`${CASSETTE_ENDPOINT}/${encodeURIComponent(CASSETTE_NAME)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data, null, 2),
+    }).catch(error => console.error("Failed to save cassette:", error));
+  }, SAVE_DEBOUNCE_MS);
+};
+
+const hashRequest = async (channel: CassetteChannel, request: unknown): Promise<string> => {
+  const bytes = new TextEncoder().encode(`${channel}\n${JSON.stringify(request)}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export type CassettePlayer = <T>(
+  channel: CassetteChannel,
+  request: unknown,
+  label: string,
+  live: () => Promise<T>
+) => Promise<T>;
+
+/**
+ * Records to or replays from one cassette. Recording appends to it, so reloading
+ * mid-session loses nothing, and calls `save` with the whole cassette after each entry.
+ */
+export const createCassettePlayer = (
+  mode: TransportMode,
+  name: string,
+  cassette: Cassette,
+  save: (cassette: Cassette) => void
+): CassettePlayer => {
+  const served = new Map<string, number>(); // Times each key was answered, for replay order
+
+  return async <T>(channel: CassetteChannel, request: unknown, label: string, live: () => Promise<T>): Promise<T> => {
+    if (mode !== 'record' && mode !== 'replay') return live();
+
+    const key = await hashRequest(channel, request);
+    const count = served.get(key) || 0;
+    served.set(key, count + 1);
+
+    if (mode === 'replay') {
+      const matches = cassette.entries.filter(entry => entry.key === key);
+      if (matches.length === 0) throw new CassetteMissError(label, name);
+      return matches[Math.min(count, matches.length - 1)].response as T;
+    }
+
+    const response = await live();
+    const entry: CassetteEntry = { channel, key, label, response };
+    cassette.entries.push(entry);
+    save(cassette);
+    return response;
+  };
+};
+
+let player: CassettePlayer | null = null;
+
+/**
+ * Runs a network call according to the transport mode, with the cassette chosen at build
+ * time. `request` identifies the call and must be JSON-serializable and free of secrets;
+ * `live` makes it for real and must resolve with something JSON-safe. Identical requests
+ * are replayed in the order they were recorded, the last one repeating once they run out.
+ */
+export const viaCassette: CassettePlayer = (channel, request, label, live) =>
+  (player ??= createCassettePlayer(getTransportMode(), CASSETTE_NAME, loadCassette(), scheduleSave))(channel, request, label, live);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEMO_ORIGIN, demoResponse, demoSearch } from './demoSite';
+
+const backendUrl = (target: string) => `/api/fetch?url=${encodeURIComponent(target)}`;
+
+describe('demoResponse', () => {
+  it('serves demo pages in the fetch backend format', async () => {
+    const response = demoResponse(backendUrl(`${DEMO_ORIGIN}/pricing/`));
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get('X-Final-Url')).toBe(`${DEMO_ORIGIN}/pricing`);
+    expect(response?.headers.get('Content-Type')).toMatch(/^text\/html/);
+    expect(await response?.text()).toContain('<title>Pricing — Lumen Lamps</title>');
+  });
+
+  it('answers unknown demo paths with a backend error', async () => {
+    const response = demoResponse(backendUrl(`${DEMO_ORIGIN}/missing`));
+    expect(response?.status).toBe(404);
+    expect(await response?.json()).toEqual({ error: 'The site responded with 404.' });
+  });
+
+  it('leaves other sites and requests alone', () => {
+    expect(demoResponse(backendUrl('https://example.com/'))).toBeNull();
+    expect(demoResponse(backendUrl('not a url'))).toBeNull();
+    expect(demoResponse('/api/fetch')).toBeNull();
+  });
+});
+
+describe('demoSearch', () => {
+  it('returns the demo pages, up to the count', () => {
+    const { engine, results } = demoSearch(2);
+    expect(engine).toBe('Demo search');
+    expect(results).toHaveLength(2);
+    expect(results[0]).toEqual({
+      title: 'Lumen Lamps — Smart lighting for every room',
+      url: `${DEMO_ORIGIN}/`,
+      snippet: 'Lumen makes app-controlled lamps and bulbs that adapt to the time of day.',
+    });
+    expect(results.every(result => result.url.startsWith(DEMO_ORIGIN))).toBe(true);
+  });
+});
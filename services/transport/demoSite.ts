@@ -0,0 +1,119 @@
+import { SearchResponse } from '../search/types';
+
+/**
+ * A small fictional website and canned search results for mock mode, so the whole flow
+ * (Discover, scraping, crawling, chat) can be demoed with no network.
+ */
+
+export const DEMO_ORIGIN = 'https://demo.sitescout.test';
+
+interface DemoPage {
+  title: string;
+  description: string;
+  body: string; // Inner HTML of <main>
+}
+
+const DEMO_PAGES: Record<string, DemoPage> = {
+  '/': {
+    title: 'Lumen Lamps — Smart lighting for every room',
+    description: 'Lumen makes app-controlled lamps and bulbs that adapt to the time of day.',
+    body: `<h1>Smart lighting for every room</h1>
+<p>Lumen makes app-controlled lamps and bulbs that follow the sun: cool, bright light in the morning and warm, dim light in the evening. Every product works with the free Lumen app, and with Google Home, Alexa and Apple Home.</p>
+<h2>Products</h2>
+<ul>
+<li><strong>Lumen Bulb</strong> — an E27 bulb with 16 million colours, 1,100 lumens.</li>
+<li><strong>Lumen Desk</strong> — a desk lamp with a wireless charging base.</li>
+<li><strong>Lumen Strip</strong> — a 2-metre LED strip that can be cut to length.</li>
+</ul>
+<p>All products ship free within the EU and come with a three-year warranty. See <a href="/pricing">pricing</a> or read the <a href="/docs/getting-started">setup guide</a>.</p>`,
+  },
+  '/pricing': {
+    title: 'Pricing — Lumen Lamps',
+    description: 'Prices for Lumen bulbs, lamps and strips, and the optional Lumen Plus subscription.',
+    body: `<h1>Pricing</h1>
+<table>
+<thead><tr><th>Product</th><th>Price</th></tr></thead>
+<tbody>
+<tr><td>Lumen Bulb</td><td>€24</td></tr>
+<tr><td>Lumen Bulb, pack of four</td><td>€79</td></tr>
+<tr><td>Lumen Desk</td><td>€129</td></tr>
+<tr><td>Lumen Strip (2 m)</td><td>€49</td></tr>
+</tbody>
+</table>
+<h2>Lumen Plus</h2>
+<p>The app is free. Lumen Plus adds schedules synced across homes, energy reports and away-mode lighting for €3 per month or €30 per year. The first month is free and you can cancel at any time.</p>
+<p>Orders over €100 get a free Lumen Bulb. Students get 15% off with a valid student email address.</p>`,
+  },
+  '/docs/getting-started': {
+    title: 'Getting started — Lumen Lamps',
+    description: 'How to set up a Lumen lamp with the app and a voice assistant.',
+    body: `<h1>Getting started</h1>
+<ol>
+<li>Screw in the bulb or plug in the lamp and switch it on. It blinks twice when it is ready to pair.</li>
+<li>Open the Lumen app, tap <em>Add device</em> and follow the steps. The lamp needs a 2.4 GHz Wi-Fi network; 5 GHz networks are not supported.</li>
+<li>To use a voice assistant, link your Lumen account in the Google Home, Alexa or Apple Home app.</li>
+</ol>
+<h2>Resetting a lamp</h2>
+<p>Switch the lamp off and on five times, one second apart. It flashes red to confirm the reset and can then be paired again. Resetting removes it from every schedule.</p>`,
+  },
+  '/about': {
+    title: 'About us — Lumen Lamps',
+    description: 'Lumen was founded in Utrecht in 2019 by two lighting engineers.',
+    body: `<h1>About Lumen</h1>
+<p>Lumen was founded in Utrecht in 2019 by Sanne de Vries and Joris Bakker, two lighting engineers who wanted lamps that are kind to your sleep. The company employs 40 people and designs every product in the Netherlands.</p>
+<p>Our lamps are made from recycled aluminium and are designed to be repaired: every part, from the LED board to the power supply, can be ordered separately. Contact us at hello@lumen.example.</p>`,
+  },
+};
+
+const renderPage = (page: DemoPage): string => `<!doctype html>
+<html lang="en">
+<head><title>${page.title}</title><meta name="description" content="${page.description}"></head>
+<body>
+<nav><a href="/">Home</a> <a href="/pricing">Pricing</a> <a href="/docs/getting-started">Getting started</a> <a href="/about">About</a></nav>
+<main>${page.body}</main>
+<footer>© Lumen Lamps B.V.</footer>
+</body>
+</html>`;
+
+const jsonError = (status: number, error: string): Response =>
+  new Response(JSON.stringify({ error }), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Answers a fetch or render backend request for a demo page, in the backend's format.
+ * Returns null for anything else.
+ */
+export const demoResponse = (requestUrl: string): Response | null => {
+  const target = new URL(requestUrl, DEMO_ORIGIN).searchParams.get('url');
+  if (!target) return null;
+
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return null;
+  }
+  if (url.origin !== DEMO_ORIGIN) return null;
+
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+  const page = DEMO_PAGES[path];
+  if (!page) return jsonError(404, 'The site responded with 404.');
+
+  return new Response(renderPage(page), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'X-Final-Url': `${DEMO_ORIGIN}${path}`,
+      'X-Truncated': 'false',
+    },
+  });
+};
+
+/**
+ * Canned Discover results: the demo site's pages, whatever the query.
+ */
+export const demoSearch = (count: number): SearchResponse => ({
+  engine: 'Demo search',
+  results: Object.entries(DEMO_PAGES)
+    .slice(0, count)
+    .map(([path, page]) => ({ title: page.title, url: `${DEMO_ORIGIN}${path}`, snippet: page.description })),
+});
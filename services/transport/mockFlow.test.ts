@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ChatMessage } from '../../types';
+import { DEMO_ORIGIN } from './demoSite';
+
+// No IndexedDB under jsdom; the page cache simply misses.
+vi.mock('../storageService', () => ({
+  pageCacheStore: { get: vi.fn(async () => null), put: vi.fn(async () => undefined) },
+}));
+
+/**
+ * The whole path a user takes in mock mode, with no network or API key: Discover finds
+ * the demo site, the chosen URL is scraped (or crawled), and a question gets a cited answer.
+ */
+describe('mock transport flow', () => {
+  let modules: {
+    webSearch: typeof import('../searchProvider').webSearch;
+    scrapeWebsite: typeof import('../scraperService').scrapeWebsite;
+    crawlWebsite: typeof import('../crawlerService').crawlWebsite;
+    buildSiteIndex: typeof import('../retrievalService').buildSiteIndex;
+    aiService: typeof import('../aiService').aiService;
+  };
+  const fetchMock = vi.fn(async () => {
+    throw new Error('No network in mock mode');
+  });
+
+  beforeAll(async () => {
+    vi.stubEnv('TRANSPORT_MODE', 'mock');
+    vi.stubGlobal('fetch', fetchMock);
+    vi.resetModules();
+    modules = {
+      webSearch: (await import('../searchProvider')).webSearch,
+      scrapeWebsite: (await import('../scraperService')).scrapeWebsite,
+      crawlWebsite: (await import('../crawlerService')).crawlWebsite,
+      buildSiteIndex: (await import('../retrievalService')).buildSiteIndex,
+      aiService: (await import('../aiService')).aiService,
+    };
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('goes from a URL to a cited answer', async () => {
+    const { results } = await modules.webSearch('smart lamps', 5);
+    const pricing = results.find(result => result.url === `${DEMO_ORIGIN}/pricing`);
+    expect(pricing).toBeDefined();
+
+    const scraped = await modules.scrapeWebsite(pricing!.url);
+    expect(scraped.error).toBeUndefined();
+    expect(scraped.data?.title).toBe('Pricing — Lumen Lamps');
+    expect(scraped.data?.content).toContain('Lumen Plus');
+
+    const index = await modules.buildSiteIndex([scraped.data!]);
+    const question: ChatMessage = { id: '1', role: 'user', content: 'How much does Lumen Plus cost?', timestamp: 1 };
+    const updates: string[] = [];
+    const answer = await modules.aiService.streamChatResponse(index, [question], partial => updates.push(partial.text));
+
+    expect(updates.length).toBeGreaterThan(0);
+    expect(answer.text).toContain('You asked: "How much does Lumen Plus cost?"');
+    expect(answer.citations).toHaveLength(1);
+    expect(answer.citations[0].url).toBe(`${DEMO_ORIGIN}/pricing`);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('crawls the demo site', async () => {
+    const crawled = await modules.crawlWebsite(DEMO_ORIGIN, { maxDepth: 1, maxPages: 10 });
+    expect(crawled.error).toBeUndefined();
+    expect(crawled.data?.pages.map(page => page.url).sort()).toEqual([
+      `${DEMO_ORIGIN}/`,
+      `${DEMO_ORIGIN}/about`,
+      `${DEMO_ORIGIN}/docs/getting-started`,
+      `${DEMO_ORIGIN}/pricing`,
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Cassette } from './types';
+
+// The transport mode is read when the modules load, so each test loads them afresh.
+const load = async (mode: string) => {
+  vi.stubEnv('TRANSPORT_MODE', mode);
+  vi.resetModules();
+  return import('./transportFetch');
+};
+
+const PDF_BYTES = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0x80, 0x0a]);
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('transportFetch', () => {
+  it('records a response and hands back an identical copy', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const saved: Cassette[] = [];
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.startsWith('/api/cassettes/')) {
+        saved.push(JSON.parse(String(init?.body)));
+        return new Response(null, { status: 204 });
+      }
+      return new Response(PDF_BYTES, {
+        status: 200,
+        statusText: 'OK',
+        headers: { 'Content-Type': 'application/pdf', 'X-Final-Url': 'https://example.com/report.pdf' },
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const { transportFetch } = await load('record');
+
+    const response = await transportFetch('/api/fetch?url=https%3A%2F%2Fexample.com%2Freport.pdf', { headers: { 'If-None-Match': '"v1"' } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('X-Final-Url')).toBe('https://example.com/report.pdf');
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(PDF_BYTES);
+    // The request itself goes out unchanged, conditional headers included.
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { 'If-None-Match': '"v1"' } });
+
+    await vi.runAllTimersAsync();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].entries).toMatchObject([{ channel: 'fetch', label: 'GET /api/fetch?url=https%3A%2F%2Fexample.com%2Freport.pdf' }]);
+  });
+
+  it('keeps bodiless responses bodiless', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 304, statusText: 'Not Modified' })));
+    const { transportFetch } = await load('record');
+
+    const response = await transportFetch('/api/fetch?url=https%3A%2F%2Fexample.com%2F');
+    expect(response.status).toBe(304);
+    expect(response.body).toBeNull();
+  });
+
+  it('fails on a request the cassette has not seen when replaying', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const { transportFetch } = await load('replay');
+
+    await expect(transportFetch('/api/fetch?url=https%3A%2F%2Fexample.com%2F')).rejects.toThrow(/Nothing recorded for GET/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('answers demo site requests itself in mock mode', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const { transportFetch } = await load('mock');
+
+    const response = await transportFetch('/api/fetch?url=https%3A%2F%2Fdemo.sitescout.test%2Fabout');
+    expect(await response.text()).toContain('About Lumen');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
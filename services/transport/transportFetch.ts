@@ -0,0 +1,47 @@
+import { getTransportMode, viaCassette } from './cassette';
+import { demoResponse } from './demoSite';
+import { RecordedResponse } from './types';
+
+// Statuses whose responses can't carry a body.
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+const toBase64 = (bytes: ArrayBuffer): string => {
+  let binary = '';
+  const view = new Uint8Array(bytes);
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const serialize = async (response: Response): Promise<RecordedResponse> => ({
+  status: response.status,
+  statusText: response.statusText,
+  headers: Array.from(response.headers.entries()),
+  body: toBase64(await response.arrayBuffer()),
+});
+
+const deserialize = (recorded: RecordedResponse): Response =>
+  new Response(NULL_BODY_STATUSES.has(recorded.status) ? null : fromBase64(recorded.body), {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+
+/**
+ * fetch() for requests to the app's own backends, routed through the transport mode:
+ * recorded or replayed by method and URL, or answered by the demo website in mock mode.
+ * Conditional request headers are left out of the key, since they depend on what the
+ * page cache held at the time.
+ */
+export const transportFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const mode = getTransportMode();
+  if (mode === 'mock') return demoResponse(url) || fetch(url, init);
+  if (mode === 'live') return fetch(url, init);
+
+  const method = init.method || 'GET';
+  const recorded = await viaCassette('fetch', { method, url }, `${method} ${url}`, async () => serialize(await fetch(url, init)));
+  return deserialize(recorded);
+};
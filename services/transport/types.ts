@@ -0,0 +1,37 @@
+/**
+ * How the app reaches the network:
+ *   live    talks to the real endpoints
+ *   record  talks to them and saves every exchange to a cassette file
+ *   replay  answers from a cassette only, failing on anything it hasn't seen
+ *   mock    uses a built-in demo model, demo search results and a demo website
+ */
+export type TransportMode = 'live' | 'record' | 'replay' | 'mock';
+
+// Recorded traffic: page fetches, web searches and model calls.
+export type CassetteChannel = 'fetch' | 'search' | 'llm';
+
+export interface CassetteEntry {
+  channel: CassetteChannel;
+  key: string; // Hash of the request; identical requests are replayed in recorded order
+  label: string; // Readable summary of the request, for whoever inspects the file
+  response: unknown; // What the live call returned, in a JSON-safe form
+}
+
+/**
+ * A recording, stored as fixtures/cassettes/<name>.json.
+ */
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+/**
+ * A fetch response in a JSON-safe form. The body is base64, so PDFs survive.
+ */
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+}
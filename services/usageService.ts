@@ -0,0 +1,61 @@
+import { ChatMessage, TokenUsage, UsageBudget } from '../types';
+
+/**
+ * Token accounting for a chat session: totals the usage recorded on each answer and
+ * applies the session's budget.
+ */
+
+// With the budget spent in 'trim' mode, only the latest exchange and the new question are sent.
+export const TRIMMED_HISTORY_MESSAGES = 3;
+
+export const NO_BUDGET: UsageBudget = { maxTokens: 0, onExceeded: 'block' };
+
+const budgetKey = (sessionId: string) => `usageBudget:${sessionId}`;
+
+export const getUsageBudget = (sessionId: string): UsageBudget => {
+  try {
+    return { ...NO_BUDGET, ...JSON.parse(localStorage.getItem(budgetKey(sessionId)) || 'null') };
+  } catch {
+    return NO_BUDGET;
+  }
+};
+
+export const setUsageBudget = (sessionId: string, budget: UsageBudget): void => {
+  if (budget.maxTokens > 0) localStorage.setItem(budgetKey(sessionId), JSON.stringify(budget));
+  else localStorage.removeItem(budgetKey(sessionId));
+};
+
+export const totalTokens = (usage: TokenUsage): number => usage.promptTokens + usage.outputTokens;
+
+/**
+ * Everything the session's answers have cost, including versions that were since edited
+ * or regenerated away; those tokens were spent too.
+ */
+export const sessionUsage = (messages: ChatMessage[]): TokenUsage => {
+  const total: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+  const visit = (list: ChatMessage[]) => {
+    for (const message of list) {
+      if (message.usage) {
+        total.promptTokens += message.usage.promptTokens;
+        total.outputTokens += message.usage.outputTokens;
+        if (message.usage.estimated) total.estimated = true;
+      }
+      message.branches?.before.forEach(visit);
+      message.branches?.after.forEach(visit);
+    }
+  };
+  visit(messages);
+  return total;
+};
+
+export const isOverBudget = (usage: TokenUsage, budget: UsageBudget): boolean =>
+  budget.maxTokens > 0 && totalTokens(usage) >= budget.maxTokens;
+
+/**
+ * Compact token count for the UI, e.g. 950, 12.3k or 1.2M.
+ */
+export const formatTokens = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
@@ -1,15 +1,156 @@
+export interface Citation {
+  index: number; // Footnote number as it appears in the answer
+  chunkId: string;
+  url: string; // Page the quoted passage came from
+  title: string;
+  quote: string;
+  source?: string; // Workspace source label, when the chat spans several sources
+}
+
+/**
+ * A passage the user asked about: a selection in the reader, or the diff between two
+ * snapshots of a source.
+ */
+export interface FocusedPassage {
+  url: string;
+  title: string;
+  text: string;
+  kind?: 'selection' | 'changes'; // Unset means 'selection'
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // The model server reported no usage; counted from characters instead
+}
+
+/**
+ * How much of the workspace went into a prompt. Retrieval sends only the excerpts most
+ * relevant to the question, so the rest of the content is left out.
+ */
+export interface ContextCoverage {
+  excerpts: number; // Excerpts sent
+  totalExcerpts: number;
+  chars: number; // Characters of content sent
+  totalChars: number;
+  trimmedMessages?: number; // Earlier messages left out to stay within the session budget
+}
+
+/**
+ * A per-session token budget. Past it, new questions are refused ('block') or sent with
+ * only the latest exchange of history ('trim').
+ */
+export interface UsageBudget {
+  maxTokens: number; // 0 = no budget
+  onExceeded: 'block' | 'trim';
+}
+
+/**
+ * The other versions of a conversation from one message on, created by editing a question
+ * or regenerating an answer. Each version is the message and everything that followed it;
+ * the one shown sits between `before` and `after` in creation order.
+ */
+export interface ChatBranches {
+  before: ChatMessage[][];
+  after: ChatMessage[][];
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model' | 'system';
   content: string;
   timestamp: number;
+  citations?: Citation[];
+  focus?: FocusedPassage; // User messages asked about a reader selection or a diff
+  status?: 'streaming' | 'stopped' | 'error'; // Unset once a model answer is complete; errors are never sent to the model
+  branches?: ChatBranches; // Set on the first message of a version when there are others
+  usage?: TokenUsage; // Model answers: what the turn cost
+  context?: ContextCoverage; // Model answers: how much of the content the prompt held
+}
+
+export interface ChatResponse {
+  text: string;
+  citations: Citation[];
+  usage?: TokenUsage;
+  context?: ContextCoverage;
+}
+
+export interface BriefingEntity {
+  name: string;
+  kind: string; // e.g. "person", "organization", "product", "place"
+}
+
+export interface BriefingDate {
+  date: string; // As written in the source
+  event: string;
+}
+
+/**
+ * Structured overview generated once a source has been read.
+ */
+export interface Briefing {
+  tldr: string;
+  keyPoints: string[];
+  entities: BriefingEntity[];
+  dates: BriefingDate[];
+  suggestedQuestions: string[]; // 4-6 follow-ups the content can answer
+}
+
+export interface PageMetadata {
+  author?: string;
+  publishedAt?: string; // As published by the page, usually ISO 8601
+  modifiedAt?: string;
+  description?: string;
+  language?: string; // BCP 47 tag from <html lang>, e.g. "en" or "de-CH"
+  siteName?: string;
+  canonicalUrl?: string;
+}
+
+export interface WebsitePage {
+  url: string;
+  title: string;
+  content: string; // Main content of this page as Markdown
+  metadata?: PageMetadata;
+  renderMode?: RenderMode; // How a web page was fetched; unset for uploads and pasted text
+  warnings?: ContentWarning[]; // Signs the page tries to instruct the assistant; unset when there are none
+}
+
+/**
+ * Text on a page that reads like instructions to an AI assistant rather than content.
+ */
+export interface ContentWarning {
+  reason: string; // e.g. "Tells the assistant to ignore its instructions"
+  excerpt: string; // The offending text, shortened
+  hiddenBy?: string; // How the text was hidden from readers, e.g. "display:none"; unset when visible
 }
 
 export interface WebsiteData {
   url: string;
   title: string;
-  content: string; // The raw text content
-  timestamp: number;
+  content: string; // Markdown content (all pages combined)
+  pages: WebsitePage[];
+  metadata?: PageMetadata; // Metadata of the entry page
+  language?: string; // ISO 639-1 code of the main language, detected on ingest
+  timestamp: number; // When the content was scraped
+  crawlOptions?: CrawlOptions; // Set when the source was crawled, so it can be re-crawled the same way
+}
+
+export interface ContentChunk {
+  id: string;
+  url: string; // The page this chunk came from
+  title: string;
+  heading?: string; // Nearest heading above the chunk, if any
+  text: string;
+  source?: string; // Workspace source label, when the chat spans several sources
+}
+
+/**
+ * A real web search hit, before the model has ranked and described it.
+ */
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string; // As returned by the search engine; may be empty
 }
 
 export interface SearchResultItem {
@@ -18,6 +159,78 @@ export interface SearchResultItem {
   description: string;
 }
 
+export interface ChatSession {
+  id: string;
+  title: string; // Defaults to the site title; user-editable
+  url: string; // First source in the workspace
+  hostname: string; // Every source's label, comma-separated
+  createdAt: number;
+  updatedAt: number; // Last activity
+  messageCount: number; // Questions asked
+  sizeBytes: number; // Approximate stored size, used for eviction
+  snapshotBytes?: number; // Approximate size of its change-monitoring snapshots, also counted for eviction
+}
+
+export interface SessionExport {
+  format: 'sitescout-session';
+  version: number; // Bumped on incompatible changes; see SESSION_EXPORT_VERSION
+  exportedAt: string; // ISO 8601
+  title: string;
+  sources: WebsiteData[];
+  messages: ChatMessage[];
+  briefing?: Briefing;
+}
+
+/**
+ * Extracted content of one fetched URL, kept so that reopening it doesn't refetch it.
+ * The HTTP validators let a stale entry be revalidated with a conditional request.
+ */
+export interface CachedPage {
+  url: string; // Normalized URL the page was requested by
+  finalUrl: string; // After redirects
+  page: WebsitePage;
+  canonicalUrl: string;
+  links: string[];
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number; // When the content was last downloaded
+  validatedAt: number; // When it was last confirmed current, by a download or a 304
+}
+
+/**
+ * A stored copy of one source as it was at a point in time, for change monitoring.
+ */
+export interface Snapshot {
+  id: string;
+  sessionId: string;
+  url: string; // The source's URL, which identifies it within the session
+  takenAt: number;
+  data: WebsiteData;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface SectionDiff {
+  heading: string; // Heading path, e.g. "Pricing › Enterprise"; empty for text before the first heading
+  status: DiffStatus;
+  added: string[]; // Paragraphs only in the newer snapshot
+  removed: string[]; // Paragraphs only in the older snapshot
+}
+
+export interface PageDiff {
+  url: string;
+  title: string;
+  status: DiffStatus;
+  sections: SectionDiff[];
+}
+
+export interface SiteDiff {
+  url: string;
+  from: number; // takenAt of the older snapshot
+  to: number;
+  pages: PageDiff[]; // Only pages that changed
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   SCRAPING = 'SCRAPING',
@@ -25,8 +238,115 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+export interface CrawlOptions {
+  maxDepth: number; // How many links away from the entry URL to follow
+  maxPages: number; // Hard cap on the number of pages fetched
+}
+
+/**
+ * 'rendered' pages were loaded in a headless browser because their static HTML had
+ * too little text, as with JavaScript-only single-page apps.
+ */
+export type RenderMode = 'static' | 'rendered';
+
+export interface RenderSettings {
+  mode: 'auto' | 'always' | 'never'; // auto: render only when static extraction finds too little
+  waitUntil: 'load' | 'domcontentloaded' | 'networkidle';
+  waitForSelector: string; // Optional CSS selector that must exist before reading the page
+  delayMs: number; // Extra settle time after the page has loaded
+}
+
+export interface CrawlProgress {
+  found: number;
+  fetched: number;
+  skipped: number; // Duplicates of a page already fetched, off-site redirects and pages with too little text
+  failed: number;
+  currentUrl?: string;
+}
+
 export interface ScrapeResult {
   success: boolean;
   data?: WebsiteData;
   error?: string;
 }
+
+export type ExtractionFieldType = 'text' | 'number' | 'boolean' | 'list';
+
+export interface ExtractionField {
+  name: string; // Column name and JSON key, e.g. "price"
+  type: ExtractionFieldType;
+  description: string; // Tells the model what to look for, e.g. "Price in USD, without currency symbol"
+}
+
+/**
+ * A reusable set of fields to pull off pages, e.g. "Product" or "Job posting".
+ */
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  fields: ExtractionField[];
+  multiple: boolean; // Each page lists several items (e.g. a job board) rather than describing one
+  builtIn?: boolean; // Shipped with the app; can't be deleted
+}
+
+export type ExtractedValue = string | number | boolean | string[] | null;
+
+/**
+ * One extracted item. A page yields one row, or several for templates with `multiple`.
+ */
+export interface ExtractionRow {
+  url: string; // Page the item was found on
+  pageTitle: string;
+  values: Record<string, ExtractedValue>; // By field name; null when the page doesn't say
+  error?: string; // Set, with no values, when the page couldn't be processed
+}
+
+export type QuizQuestionKind = 'multiple-choice' | 'short-answer';
+
+/**
+ * A passage of the content that a quiz question or flashcard was written from.
+ */
+export interface StudyReference {
+  url: string; // Page the passage came from
+  title: string;
+  text: string; // The excerpt, so answers can be graded against it later
+}
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizQuestionKind;
+  question: string;
+  options?: string[]; // Multiple choice only
+  correctOption?: number; // Index into options
+  answer: string; // The expected answer, as the content gives it
+  explanation: string; // Why that is the answer, from the content
+  reference?: StudyReference;
+}
+
+export type AnswerVerdict = 'correct' | 'partially-correct' | 'incorrect';
+
+export interface AnswerGrade {
+  verdict: AnswerVerdict;
+  explanation: string;
+}
+
+/**
+ * A flashcard with its spaced-repetition schedule. Cards belong to the source they were
+ * written from, so a deck carries over to later sessions on the same source.
+ */
+export interface Flashcard {
+  id: string;
+  sourceUrl: string; // WebsiteData.url of the source
+  front: string; // Question or term
+  back: string; // Answer or definition
+  reference?: Pick<StudyReference, 'url' | 'title'>; // The page it was written from
+  createdAt: number;
+  // Scheduling, SM-2 style
+  due: number; // When the card is next shown
+  interval: number; // Days until the next review after a correct recall
+  ease: number; // Multiplier for the interval; lower for cards that are hard to recall
+  repetitions: number; // Correct recalls in a row
+  lastReviewedAt?: number;
+}
+
+export type FlashcardRating = 'again' | 'hard' | 'good' | 'easy';
@@ -1,26 +1,81 @@
-import { defineConfig, loadEnv } from 'vite';
+import path from 'node:path';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createCassetteHandler } from './server/cassetteHandler';
+import { loadFetchConfig, loadRenderConfig, loadSearchConfig } from './server/config';
+import { createFetchHandler } from './server/fetchHandler';
+import { closeBrowser, createRenderHandler } from './server/renderHandler';
+import { createSearchHandler } from './server/searchHandler';
+
+// Where TRANSPORT_MODE=record saves its recordings, bundled again for replay.
+const CASSETTE_DIR = path.resolve('fixtures/cassettes');
+
+// Serves the /api/fetch, /api/render and /api/search backend from the dev and preview servers.
+// While recording, the dev server also saves cassettes through /api/cassettes.
+const fetchBackend = (env: Record<string, string>, isRecording: boolean): Plugin => {
+  const fetchConfig = loadFetchConfig(env);
+  const handler = createFetchHandler(fetchConfig);
+  const renderHandler = createRenderHandler(fetchConfig, loadRenderConfig(env));
+  const searchHandler = createSearchHandler(loadSearchConfig(env));
+  return {
+    name: 'sitescout-fetch-backend',
+    configureServer(server) {
+      server.middlewares.use('/api/fetch', (req, res) => handler(req, res));
+      server.middlewares.use('/api/render', (req, res) => renderHandler(req, res));
+      server.middlewares.use('/api/search', (req, res) => searchHandler(req, res));
+      if (isRecording) server.middlewares.use('/api/cassettes', createCassetteHandler(CASSETTE_DIR));
+      server.httpServer?.on('close', () => closeBrowser());
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/fetch', (req, res) => handler(req, res));
+      server.middlewares.use('/api/render', (req, res) => renderHandler(req, res));
+      server.middlewares.use('/api/search', (req, res) => searchHandler(req, res));
+      server.httpServer?.on('close', () => closeBrowser());
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, '.', '');
+  const transportMode = env.VITE_TRANSPORT_MODE || env.TRANSPORT_MODE || '';
+  const isRecording = transportMode === 'record';
   
   return {
-    plugins: [react()],
+    plugins: [react(), fetchBackend(env, isRecording)],
     build: {
       outDir: 'dist',
       sourcemap: true,
     },
     server: {
       port: 3000,
+      // Cassettes are imported by the app; saving one mustn't reload the page mid-recording.
+      watch: isRecording ? { ignored: [`${CASSETTE_DIR}/**`] } : undefined,
     },
     define: {
       // Polyfill process.env.API_KEY so the SDK works in the browser
       // This will replace 'process.env.API_KEY' with the actual string value during build.
       // It prioritizes VITE_API_KEY, then falls back to API_KEY.
-      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY || env.API_KEY || '')
+      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY || env.API_KEY || ''),
+      // Provider selection and the OpenAI-compatible endpoint (e.g. a local Ollama server).
+      // All of these can also be changed at runtime from the settings panel.
+      'process.env.LLM_PROVIDER': JSON.stringify(env.VITE_LLM_PROVIDER || env.LLM_PROVIDER || ''),
+      'process.env.GEMINI_MODEL': JSON.stringify(env.VITE_GEMINI_MODEL || env.GEMINI_MODEL || ''),
+      'process.env.OPENAI_BASE_URL': JSON.stringify(env.VITE_OPENAI_BASE_URL || env.OPENAI_BASE_URL || ''),
+      'process.env.OPENAI_API_KEY': JSON.stringify(env.VITE_OPENAI_API_KEY || env.OPENAI_API_KEY || ''),
+      'process.env.OPENAI_MODEL': JSON.stringify(env.VITE_OPENAI_MODEL || env.OPENAI_MODEL || ''),
+      // Where the browser sends scrape requests. Defaults to the bundled /api/fetch backend.
+      'process.env.FETCH_PROXY_URL': JSON.stringify(env.VITE_FETCH_PROXY_URL || env.FETCH_PROXY_URL || ''),
+      // Where JavaScript-only pages are rendered. Defaults to the bundled /api/render backend.
+      'process.env.RENDER_PROXY_URL': JSON.stringify(env.VITE_RENDER_PROXY_URL || env.RENDER_PROXY_URL || ''),
+      // Where Discover sends web searches. Defaults to the bundled /api/search backend.
+      'process.env.SEARCH_PROXY_URL': JSON.stringify(env.VITE_SEARCH_PROXY_URL || env.SEARCH_PROXY_URL || ''),
+      // live (default), record, replay or mock; see services/transport/cassette.ts.
+      'process.env.TRANSPORT_MODE': JSON.stringify(transportMode),
+      // Which fixtures/cassettes/<name>.json to record to or replay from.
+      'process.env.TRANSPORT_CASSETTE': JSON.stringify(env.VITE_TRANSPORT_CASSETTE || env.TRANSPORT_CASSETTE || '')
     }
   };
 });
\ No newline at end of file